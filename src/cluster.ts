@@ -3,15 +3,131 @@
  *
  * Clusters keywords by SERP overlap (shared URLs in top 10 results).
  * Keywords with 3+ shared URLs in top 10 should target the same page.
+ * Both thresholds are configurable via ClusteringOptions.
  */
 
-import { readFileSync, writeFileSync } from "fs";
-import { parse } from "csv-parse/sync";
+import { setImmediate as yieldToEventLoop } from "timers/promises";
+import {
+  filterResultTypes,
+  normalizeResultType,
+  ORGANIC,
+  summarizeSerpFeatures,
+  type SerpFeatureSummary,
+} from "./features.js";
+import {
+  competitorCoverage,
+  domainCoverage,
+  findContentGaps,
+  MAX_CLUSTER_DOMAINS,
+  resolveCompetitors,
+  type ContentGap,
+  type DomainCoverage,
+} from "./competitors.js";
+import {
+  assertSingleMarket,
+  marketLabel,
+  marketOf,
+  matchesMarket,
+  resolveMarket,
+  type Market,
+} from "./dimensions.js";
+import {
+  agglomerativeClusters,
+  buildKeywordGraph,
+  connectedComponents,
+  louvainCommunities,
+  type EdgeWeight,
+} from "./graph.js";
+import { streamSerpFile, type SerpFormat } from "./importers.js";
+import {
+  clusterIncrementally,
+  loadPreviousClusters,
+  type PreviousCluster,
+} from "./incremental.js";
+import {
+  classifyIntent,
+  DEFAULT_INTENT_LANGUAGE,
+  resolveIntentRules,
+  type IntentRules,
+  type SearchIntent,
+} from "./intent.js";
+import {
+  addKeywordMetrics,
+  extractKeywordMetrics,
+  loadKeywordMetrics,
+  mergeMetrics,
+  PRIMARY_KEYWORD_RULES,
+  selectPrimaryKeyword,
+  type MetricsData,
+  type PrimaryKeywordRule,
+} from "./metrics.js";
+import {
+  buildOverlapMatrix,
+  findPair,
+  pairOverlap,
+  sortedPairs,
+  type OverlapData,
+  type OverlapMatrix,
+  type OverlapPruning,
+} from "./overlap.js";
+import {
+  createUrlNormalizer,
+  DEFAULT_URL_NORMALIZATION,
+  OVERLAP_GRANULARITIES,
+  overlapKeyUrl,
+  type OverlapGranularity,
+  type UrlNormalizationOptions,
+} from "./urls.js";
+import {
+  clusterCohesion,
+  clusteringQuality,
+  type ClusterCohesion,
+  type ClusteringQuality,
+} from "./quality.js";
+import { storeRun } from "./runs.js";
+import { similarityMeasures, type SimilarityMeasure } from "./similarity.js";
+import {
+  createSlugger,
+  resolveSlugOptions,
+  type SlugOptions,
+} from "./slugs.js";
+import {
+  createSiteMatcher,
+  findCannibalisation,
+  findSitePages,
+  type Cannibalisation,
+  type SiteOptions,
+  type SitePage,
+} from "./site.js";
+import {
+  checkOutputRows,
+  outputFormatFor,
+  overlapPairs,
+  overlapWriter,
+  writeClusters,
+  writeOverlap,
+  type OutputFormat,
+} from "./writers.js";
 
-export interface OverlapData {
-  sharedUrls: string[];
-  count: number;
-  overlapScore: number;
+export type { OverlapData, OverlapMatrix } from "./overlap.js";
+export { generateSlug } from "./slugs.js";
+export {
+  escapeCSV,
+  overlapPairs,
+  saveClusters,
+  saveOverlapMatrix,
+  writeLines,
+} from "./writers.js";
+
+/**
+ * Metrics of a single cluster member.
+ */
+export interface KeywordBreakdown {
+  keyword: string;
+  volume: number | null;
+  difficulty: number | null;
+  cpc: number | null;
+  intent: string | null;
 }
 
 export interface ClusterOutput {
@@ -20,138 +136,741 @@ export interface ClusterOutput {
   cluster_keywords: string;
   keyword_count: number;
   shared_urls: string;
+  /** Every URL shared by all members; shared_urls lists the top 3. */
+  shared_url_list: string[];
   shared_url_count: number;
   recommended_slug: string;
+  total_volume: number;
+  avg_difficulty: number | null;
+  keywords: KeywordBreakdown[];
+  dominant_features: string;
+  serp_features: SerpFeatureSummary[];
+  intent: SearchIntent;
+  intent_confidence: number;
+  /** Pairwise overlap of the members; null for single-keyword clusters. */
+  cohesion?: ClusterCohesion | null;
+  /** The three domains ranking for the most keywords. */
+  top_domains: string;
+  domain_coverage: DomainCoverage[];
+  /** Coverage of the listed competitors, present when some were given. */
+  competitor_coverage?: DomainCoverage[];
+  /** Site mapping fields, present when a site was given. */
+  existing_page?: string | null;
+  site_urls?: string;
+  site_pages?: SitePage[];
+  needs_new_page?: boolean;
+}
+
+/**
+ * What a pair taken by the soft strategy did: start a new cluster, add a
+ * new keyword to a cluster, or link two keywords already clustered
+ * (which moves neither).
+ */
+export type MergeAction = "created" | "joined" | "linked";
+
+/**
+ * Tunable clustering parameters. Omitted fields fall back to the defaults.
+ */
+export interface ClusteringOptions {
+  /** Deepest SERP position to consider (default 10). */
+  maxPosition?: number;
+  /** Minimum shared URLs for two keywords to cluster (default 3). */
+  minOverlap?: number;
+  /** Optional minimum overlap score (0-1) a pair must also reach. */
+  minOverlapScore?: number;
+  /** Clustering strategy (default "soft"). */
+  mode?: ClusteringMode;
+  /** Edge weight for graph strategies (default "count"). */
+  edgeWeight?: EdgeWeight;
+  /** Louvain resolution; higher values give smaller clusters (default 1). */
+  resolution?: number;
+  /** Agglomerative merge cutoff on 1 - overlap score (default 0.7). */
+  distanceCutoff?: number;
+  /** Measure used for overlap scores (default "min"). */
+  similarity?: SimilarityMeasure;
+  /** How each cluster's primary keyword is chosen (default "volume"). */
+  primaryKeywordRule?: PrimaryKeywordRule;
+  /** Optional CSV with per-keyword metrics, overriding inline columns. */
+  metricsFile?: string;
+  /** Input file format (default "auto": detect from content). */
+  inputFormat?: SerpFormat | "auto";
+  /** URL normalisation steps, or false to compare raw URLs. */
+  urlNormalization?: UrlNormalizationOptions | false;
+  /** Compare results by URL, domain or path prefix (default "url"). */
+  granularity?: OverlapGranularity;
+  /** Path segments kept for "path" granularity (default 1). */
+  pathDepth?: number;
+  /** Result types counted towards overlap (default ["organic"]; "all"). */
+  includeTypes?: string[];
+  /** Result types never counted towards overlap. */
+  excludeTypes?: string[];
+  /** Language of the built-in intent rules (default "en"). */
+  intentLanguage?: string;
+  /** Extra intent modifiers, URL patterns and brand terms. */
+  intentRules?: Partial<IntentRules>;
+  /** Drop pairs below the clustering thresholds from the overlap matrix. */
+  pruneOverlap?: boolean;
+  /** Our own site, to map clusters to the pages that already rank. */
+  site?: SiteOptions;
+  /** Competitor domains reported per cluster and in the gap report. */
+  competitors?: string[];
+  /** Locale for slug transliteration and stopwords (default "en"). */
+  slugLocale?: string;
+  /** Drop the slug locale's stopwords from slugs (default false). */
+  slugStopwords?: boolean;
+  /** Maximum slug length, cut on a word boundary (default 60). */
+  slugMaxLength?: number;
+  /**
+   * Clusters CSV of a previous run. Its clusters keep their IDs and slugs;
+   * new keywords join them where they meet the threshold.
+   */
+  previousClusters?: string;
+  /**
+   * Format of the output files (csv, json, xlsx, md). By default it is
+   * taken from each file's extension, falling back to CSV.
+   */
+  outputFormat?: OutputFormat;
+  /**
+   * Only cluster SERP rows of this market (location, language, device,
+   * date). Required when the input covers several markets.
+   */
+  market?: Market;
+  /** Keep the finished run in the run store; the result gets a run_id. */
+  recordRun?: boolean;
+  /** Called whenever the run enters a new stage. */
+  onProgress?: (progress: ClusteringProgress) => void;
+  /**
+   * Called with the cluster output and the SERP data it was built from,
+   * so callers can compare runs without loading them again.
+   */
+  onClusters?: (clusters: ClusterOutput[], serpData: SerpData) => void;
+  /** Aborts the run between stages and while reading input. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Pipeline stages, in order.
+ */
+export type ClusteringStage = "loading" | "overlap" | "clustering" | "writing";
+
+export const CLUSTERING_STAGES: ClusteringStage[] = [
+  "loading",
+  "overlap",
+  "clustering",
+  "writing",
+];
+
+/**
+ * Progress report for a running clustering pipeline. progress counts the
+ * stages completed so far out of total.
+ */
+export interface ClusteringProgress {
+  stage: ClusteringStage;
+  progress: number;
+  total: number;
+  message: string;
+}
+
+/**
+ * Parameters a run actually used, echoed back in the result.
+ */
+export interface ClusteringParameters {
+  max_position: number;
+  min_overlap: number;
+  min_overlap_score: number | null;
+  mode: ClusteringMode;
+  edge_weight: EdgeWeight;
+  resolution: number;
+  distance_cutoff: number;
+  similarity: SimilarityMeasure;
+  primary_keyword_rule: PrimaryKeywordRule;
+  url_normalization: Required<UrlNormalizationOptions> | false;
+  granularity: OverlapGranularity;
+  path_depth: number;
+  include_types: string[];
+  exclude_types: string[];
+  intent_language: string;
+  prune_overlap: boolean;
+  site_domain: string | null;
+  competitors: string[];
+  slug_locale: string;
+  slug_stopwords: boolean;
+  slug_max_length: number;
+  market: Market | null;
+}
+
+/**
+ * A keyword pair with overlapping SERPs, as returned inline.
+ */
+export interface OverlapPair {
+  keyword1: string;
+  keyword2: string;
+  shared_urls: string[];
+  overlap_count: number;
+  overlap_score: number;
 }
 
 export interface ClusteringResult {
   success: boolean;
   message: string;
   clusters_created: number;
+  /** ID in the run store, present when the run was recorded. */
+  run_id?: string;
+  parameters: ClusteringParameters;
+  quality: ClusteringQuality;
   output_files: {
-    clusters: string;
-    overlap: string;
+    clusters?: string;
+    overlap?: string;
   };
+  clusters: ClusterOutput[];
+  /** Present when the overlap matrix is not written to a file. */
+  overlap?: OverlapPair[];
+  /** Present when a site was given. */
+  cannibalisation?: Cannibalisation;
+  /** Present when both a site and competitors were given. */
+  content_gaps?: ContentGap[];
 }
 
-type SerpData = Map<string, string[]>;
-type OverlapMatrix = Map<string, OverlapData>;
+/**
+ * A SERP row supplied inline. Position defaults to the row's order within
+ * its keyword; metric fields are optional.
+ */
+export interface SerpRow {
+  keyword: string;
+  url: string;
+  position?: number | string;
+  volume?: number | string;
+  difficulty?: number | string;
+  cpc?: number | string;
+  intent?: string;
+  /** Result type, e.g. organic, featured_snippet, video (default organic). */
+  type?: string;
+  /** Market dimensions; rows differing in any are separate SERPs. */
+  location?: string;
+  language?: string;
+  device?: string;
+  date?: string;
+}
 
 /**
- * Load SERP data from CSV file.
- * Expected columns: keyword, position, url
+ * Inline SERP data: keyword -> ranked URL list, or row objects.
  */
-export function loadSerpData(filepath: string): SerpData {
-  const content = readFileSync(filepath, "utf-8");
-  const records = parse(content, {
-    columns: true,
-    skip_empty_lines: true,
-    trim: true,
-  }) as Array<{ keyword: string; position: string; url: string }>;
+export type SerpInput = Record<string, string[]> | SerpRow[];
 
-  const serpData: SerpData = new Map();
+/**
+ * A single organic result for a keyword.
+ */
+export interface SerpResult {
+  url: string;
+  position: number;
+  /** Result type when known; absent means organic. */
+  type?: string;
+}
 
-  for (const row of records) {
-    const keyword = row.keyword.trim();
-    const url = row.url.trim();
-    const position = parseInt(row.position, 10) || 0;
+export type SerpData = Map<string, SerpResult[]>;
 
-    // Only consider top 10 positions
-    if (position <= 10) {
-      if (!serpData.has(keyword)) {
-        serpData.set(keyword, []);
-      }
-      serpData.get(keyword)!.push(url);
+/**
+ * Available clustering strategies:
+ * - soft: greedy merge, keywords may chain together through intermediaries
+ * - hard: a keyword joins only if it meets the threshold with every member
+ * - pivot: a keyword joins only if it meets the threshold with the pivot
+ * - components: connected components of the keyword graph
+ * - louvain: modularity communities of the keyword graph
+ * - agglomerative: average-linkage merging up to a distance cutoff
+ */
+export type ClusteringMode =
+  | "soft"
+  | "hard"
+  | "pivot"
+  | "components"
+  | "louvain"
+  | "agglomerative";
+
+/**
+ * Thresholds passed to every clustering strategy. Graph strategies also
+ * read the optional tuning fields.
+ */
+export interface StrategyOptions {
+  minOverlap: number;
+  minOverlapScore: number;
+  edgeWeight?: EdgeWeight;
+  resolution?: number;
+  distanceCutoff?: number;
+}
+
+/**
+ * Common interface implemented by all clustering strategies.
+ * Every keyword in serpData must end up in exactly one cluster.
+ */
+export type ClusteringStrategy = (
+  serpData: SerpData,
+  overlapMatrix: OverlapMatrix,
+  options: StrategyOptions
+) => Set<string>[];
+
+export const DEFAULT_MAX_POSITION = 10;
+export const DEFAULT_MIN_OVERLAP = 3;
+export const DEFAULT_MODE: ClusteringMode = "soft";
+export const DEFAULT_EDGE_WEIGHT: EdgeWeight = "count";
+export const DEFAULT_RESOLUTION = 1;
+export const DEFAULT_DISTANCE_CUTOFF = 0.7;
+export const DEFAULT_SIMILARITY: SimilarityMeasure = "min";
+export const DEFAULT_PRIMARY_KEYWORD_RULE: PrimaryKeywordRule = "volume";
+export const DEFAULT_GRANULARITY: OverlapGranularity = "url";
+export const DEFAULT_PATH_DEPTH = 1;
+
+/**
+ * Validate clustering options and fill in defaults.
+ * Throws on out-of-range values so bad tool arguments fail early.
+ */
+export function resolveClusteringOptions(
+  options: ClusteringOptions = {}
+): ClusteringParameters {
+  const {
+    maxPosition = DEFAULT_MAX_POSITION,
+    minOverlap = DEFAULT_MIN_OVERLAP,
+    minOverlapScore,
+    mode = DEFAULT_MODE,
+    edgeWeight = DEFAULT_EDGE_WEIGHT,
+    resolution = DEFAULT_RESOLUTION,
+    distanceCutoff = DEFAULT_DISTANCE_CUTOFF,
+    similarity = DEFAULT_SIMILARITY,
+    primaryKeywordRule = DEFAULT_PRIMARY_KEYWORD_RULE,
+    urlNormalization = {},
+    granularity = DEFAULT_GRANULARITY,
+    pathDepth = DEFAULT_PATH_DEPTH,
+    includeTypes = [ORGANIC],
+    excludeTypes = [],
+    intentLanguage = DEFAULT_INTENT_LANGUAGE,
+    intentRules,
+    pruneOverlap = false,
+    site,
+    competitors = [],
+    slugLocale,
+    slugStopwords,
+    slugMaxLength,
+    market,
+  } = options;
+
+  if (!Number.isInteger(maxPosition) || maxPosition < 1) {
+    throw new Error(
+      `maxPosition must be a positive integer, got ${maxPosition}`
+    );
+  }
+  if (!Number.isInteger(minOverlap) || minOverlap < 1) {
+    throw new Error(`minOverlap must be a positive integer, got ${minOverlap}`);
+  }
+  if (minOverlap > maxPosition) {
+    throw new Error(
+      `minOverlap (${minOverlap}) cannot exceed maxPosition (${maxPosition})`
+    );
+  }
+  if (
+    minOverlapScore !== undefined &&
+    (typeof minOverlapScore !== "number" ||
+      Number.isNaN(minOverlapScore) ||
+      minOverlapScore < 0 ||
+      minOverlapScore > 1)
+  ) {
+    throw new Error(
+      `minOverlapScore must be a number between 0 and 1, got ${minOverlapScore}`
+    );
+  }
+
+  if (!Object.hasOwn(clusteringStrategies, mode)) {
+    throw new Error(
+      `mode must be one of ${Object.keys(clusteringStrategies).join(
+        ", "
+      )}, got ${mode}`
+    );
+  }
+
+  if (edgeWeight !== "count" && edgeWeight !== "score") {
+    throw new Error(`edgeWeight must be "count" or "score", got ${edgeWeight}`);
+  }
+  if (
+    typeof resolution !== "number" ||
+    !Number.isFinite(resolution) ||
+    resolution <= 0
+  ) {
+    throw new Error(`resolution must be a positive number, got ${resolution}`);
+  }
+  if (
+    typeof distanceCutoff !== "number" ||
+    Number.isNaN(distanceCutoff) ||
+    distanceCutoff < 0 ||
+    distanceCutoff > 1
+  ) {
+    throw new Error(
+      `distanceCutoff must be a number between 0 and 1, got ${distanceCutoff}`
+    );
+  }
+
+  if (!Object.hasOwn(similarityMeasures, similarity)) {
+    throw new Error(
+      `similarity must be one of ${Object.keys(similarityMeasures).join(
+        ", "
+      )}, got ${similarity}`
+    );
+  }
+
+  if (!PRIMARY_KEYWORD_RULES.includes(primaryKeywordRule)) {
+    throw new Error(
+      `primaryKeywordRule must be one of ${PRIMARY_KEYWORD_RULES.join(
+        ", "
+      )}, got ${primaryKeywordRule}`
+    );
+  }
+
+  if (!OVERLAP_GRANULARITIES.includes(granularity)) {
+    throw new Error(
+      `granularity must be one of ${OVERLAP_GRANULARITIES.join(
+        ", "
+      )}, got ${granularity}`
+    );
+  }
+  if (!Number.isInteger(pathDepth) || pathDepth < 1) {
+    throw new Error(`pathDepth must be a positive integer, got ${pathDepth}`);
+  }
+
+  for (const [name, types] of [
+    ["includeTypes", includeTypes],
+    ["excludeTypes", excludeTypes],
+  ] as const) {
+    if (!Array.isArray(types) || types.some((t) => typeof t !== "string")) {
+      throw new Error(`${name} must be a list of result types`);
     }
   }
+  if (includeTypes.length === 0) {
+    throw new Error("includeTypes must name at least one result type");
+  }
+
+  resolveIntentRules(intentLanguage, intentRules);
+
+  if (typeof pruneOverlap !== "boolean") {
+    throw new Error(`pruneOverlap must be a boolean, got ${pruneOverlap}`);
+  }
+  const slug = resolveSlugOptions({
+    locale: slugLocale,
+    removeStopwords: slugStopwords,
+    maxLength: slugMaxLength,
+  });
 
+  if (site?.domain !== undefined && typeof site.domain !== "string") {
+    throw new Error(`site domain must be a string, got ${site.domain}`);
+  }
+
+  return {
+    max_position: maxPosition,
+    min_overlap: minOverlap,
+    min_overlap_score: minOverlapScore ?? null,
+    mode,
+    edge_weight: edgeWeight,
+    resolution,
+    distance_cutoff: distanceCutoff,
+    similarity,
+    primary_keyword_rule: primaryKeywordRule,
+    url_normalization:
+      urlNormalization === false
+        ? false
+        : { ...DEFAULT_URL_NORMALIZATION, ...urlNormalization },
+    granularity,
+    path_depth: pathDepth,
+    include_types: includeTypes.map((t) =>
+      t === "all" ? t : normalizeResultType(t)
+    ),
+    exclude_types: excludeTypes.map(normalizeResultType),
+    intent_language: intentLanguage,
+    prune_overlap: pruneOverlap,
+    site_domain: site?.domain ?? null,
+    competitors: resolveCompetitors(competitors),
+    slug_locale: slug.locale,
+    slug_stopwords: slug.removeStopwords,
+    slug_max_length: slug.maxLength,
+    market: market ? resolveMarket(market) : null,
+  };
+}
+
+/**
+ * Load SERP data from a file.
+ * Expected columns for plain CSV: keyword, position, url. Other formats
+ * (tool exports, JSON, JSONL) are detected automatically or given explicitly.
+ */
+export async function loadSerpData(
+  filepath: string,
+  maxPosition = DEFAULT_MAX_POSITION,
+  format: SerpFormat | "auto" = "auto",
+  normalizeUrl: (url: string) => string = createUrlNormalizer()
+): Promise<SerpData> {
+  return (await streamSerpData(filepath, maxPosition, format, normalizeUrl))
+    .serpData;
+}
+
+/**
+ * Build SERP data from ranked URL lists (position = list index + 1).
+ */
+export function serpDataFromRankings(
+  rankings: Record<string, string[]>
+): SerpData {
+  const serpData: SerpData = new Map();
+  for (const [keyword, urls] of Object.entries(rankings)) {
+    serpData.set(
+      keyword,
+      urls.map((url, i) => ({ url, position: i + 1 }))
+    );
+  }
   return serpData;
 }
 
 /**
- * Generate all unique pairs from an array (combinations of 2).
+ * Build SERP data from inline input, applying the position cutoff and
+ * URL normaliser. Throws if the input has neither supported shape.
  */
-function* combinations<T>(items: T[]): Generator<[T, T]> {
-  for (let i = 0; i < items.length; i++) {
-    for (let j = i + 1; j < items.length; j++) {
-      yield [items[i], items[j]];
+export function serpDataFromInput(
+  input: SerpInput,
+  maxPosition = DEFAULT_MAX_POSITION,
+  normalizeUrl: (url: string) => string = createUrlNormalizer(),
+  market?: Market
+): SerpData {
+  const serpData: SerpData = new Map();
+
+  if (!Array.isArray(input)) {
+    if (typeof input !== "object" || input === null) {
+      throw new Error(
+        "SERP data must be a keyword -> URL list object or an array of rows"
+      );
     }
+    for (const [keyword, urls] of Object.entries(input)) {
+      if (!Array.isArray(urls) || urls.some((u) => typeof u !== "string")) {
+        throw new Error(`SERP data for "${keyword}" must be a list of URLs`);
+      }
+    }
+    for (const [keyword, results] of serpDataFromRankings(input)) {
+      serpData.set(
+        keyword.trim(),
+        results
+          .filter((r) => r.position <= maxPosition)
+          .map((r) => ({ ...r, url: normalizeUrl(r.url) }))
+      );
+    }
+    return serpData;
   }
+
+  const builder = createSerpDataBuilder(maxPosition, normalizeUrl, market);
+  input.forEach((row) => builder.add(row));
+  assertSingleMarket(builder.markets);
+  return builder.serpData;
 }
 
 /**
- * Calculate URL overlap between all keyword pairs.
+ * Incremental SerpData construction from rows, so files can be loaded
+ * while they are streamed. Rows are validated as they are added; with a
+ * market, rows of other markets are skipped (add returns false). markets
+ * holds the markets of the kept rows by label.
  */
-export function calculateUrlOverlap(serpData: SerpData): OverlapMatrix {
-  const overlapMatrix: OverlapMatrix = new Map();
-  const keywords = Array.from(serpData.keys());
+export function createSerpDataBuilder(
+  maxPosition = DEFAULT_MAX_POSITION,
+  normalizeUrl: (url: string) => string = createUrlNormalizer(),
+  market?: Market
+) {
+  const serpData: SerpData = new Map();
+  const markets = new Map<string, Market>();
+  const rowCounts = new Map<string, number>();
+  let rowNumber = 0;
 
-  for (const [kw1, kw2] of combinations(keywords)) {
-    const urls1 = new Set(serpData.get(kw1)!);
-    const urls2 = new Set(serpData.get(kw2)!);
+  return {
+    serpData,
+    markets,
+    add(row: SerpRow): boolean {
+      rowNumber++;
+      if (
+        typeof row !== "object" ||
+        row === null ||
+        typeof row.keyword !== "string" ||
+        typeof row.url !== "string"
+      ) {
+        throw new Error(
+          `SERP row ${rowNumber} must have string keyword and url`
+        );
+      }
+      if (market && !matchesMarket(row, market)) {
+        return false;
+      }
+      const rowMarket = marketOf(row);
+      markets.set(marketLabel(rowMarket), rowMarket);
+      const keyword = row.keyword.trim();
+      const url = normalizeUrl(row.url);
+      const rank = (rowCounts.get(keyword) ?? 0) + 1;
+      rowCounts.set(keyword, rank);
+      const position =
+        row.position === undefined || row.position === ""
+          ? rank
+          : parseInt(String(row.position), 10);
+
+      // Garbled positions and positions below 1 are not ranked results
+      if (position >= 1 && position <= maxPosition) {
+        if (!serpData.has(keyword)) {
+          serpData.set(keyword, []);
+        }
+        const result: SerpResult = { url, position };
+        if (row.type) {
+          result.type = normalizeResultType(row.type);
+        }
+        serpData.get(keyword)!.push(result);
+      }
+      return true;
+    },
+  };
+}
 
-    const shared = [...urls1].filter((url) => urls2.has(url));
-    const sharedCount = shared.length;
+/**
+ * Load a SERP file incrementally: rows are parsed and added one at a time.
+ * Returns the detected format, the SERP data and any inline metrics.
+ */
+export async function streamSerpData(
+  filepath: string,
+  maxPosition = DEFAULT_MAX_POSITION,
+  format: SerpFormat | "auto" = "auto",
+  normalizeUrl: (url: string) => string = createUrlNormalizer(),
+  signal?: AbortSignal,
+  market?: Market
+): Promise<{ format: SerpFormat; serpData: SerpData; metrics: MetricsData }> {
+  const imported = await streamSerpFile(filepath, format);
+  const builder = createSerpDataBuilder(maxPosition, normalizeUrl, market);
+  const metrics: MetricsData = new Map();
 
-    if (sharedCount > 0) {
-      const key = `${kw1}|${kw2}`;
-      overlapMatrix.set(key, {
-        sharedUrls: shared,
-        count: sharedCount,
-        overlapScore: sharedCount / Math.min(urls1.size, urls2.size),
+  for await (const row of imported.rows) {
+    signal?.throwIfAborted();
+    if (!builder.add(row)) {
+      continue;
+    }
+    const { volume, difficulty, cpc, intent } = row;
+    if (
+      volume !== undefined ||
+      difficulty !== undefined ||
+      cpc !== undefined ||
+      intent !== undefined
+    ) {
+      addKeywordMetrics(metrics, row.keyword.trim(), {
+        volume,
+        difficulty,
+        cpc,
+        intent,
       });
     }
   }
 
-  return overlapMatrix;
+  assertSingleMarket(builder.markets);
+  return { format: imported.format, serpData: builder.serpData, metrics };
+}
+
+/**
+ * Keyword metrics carried by inline SERP rows (of the market, if given).
+ */
+export function metricsFromInput(
+  input: SerpInput,
+  market?: Market
+): MetricsData {
+  return Array.isArray(input)
+    ? extractKeywordMetrics(
+        (market
+          ? input.filter((row) => matchesMarket(row, market))
+          : input) as unknown as Array<Record<string, unknown>>
+      )
+    : new Map();
+}
+
+/**
+ * URLs for a keyword in SERP order.
+ */
+export function serpUrls(results: SerpResult[]): string[] {
+  return results.map((r) => r.url);
+}
+
+/**
+ * Calculate URL overlap between all keyword pairs that share a URL.
+ * overlapScore is computed with the selected similarity measure. Pairs
+ * below the optional pruning thresholds are not stored.
+ */
+export function calculateUrlOverlap(
+  serpData: SerpData,
+  similarity: SimilarityMeasure = DEFAULT_SIMILARITY,
+  pruning?: OverlapPruning
+): OverlapMatrix {
+  return buildOverlapMatrix(serpData, similarityMeasures[similarity], pruning);
 }
 
 /**
  * Cluster keywords by SERP overlap.
  *
  * Keywords with >= minOverlap shared URLs should be in the same cluster.
- * Uses greedy clustering: largest overlap pairs first.
+ * Pairs below minOverlapScore are skipped even if they share enough URLs.
+ * Uses greedy clustering: largest overlap pairs first, by shared URL count
+ * and then overlap score (see sortedPairs). This is the "soft"
+ * strategy: keywords can chain into one cluster through intermediaries.
+ * A pair linking two clusters leaves both keywords where they are, so
+ * clusters stay disjoint. onMerge is called for every pair taken, in
+ * order, with the index of the cluster it went into.
  */
 export function clusterKeywords(
   serpData: SerpData,
   overlapMatrix: OverlapMatrix,
-  minOverlap = 3
+  minOverlap = DEFAULT_MIN_OVERLAP,
+  minOverlapScore = 0,
+  onMerge?: (pair: number, cluster: number, action: MergeAction) => void
 ): Set<string>[] {
   const clusters: Set<string>[] = [];
   const assigned = new Set<string>();
   const keywords = Array.from(serpData.keys());
+  // Index of the cluster each keyword is in
+  const clusterOf = new Map<string, number>();
 
-  // Sort pairs by overlap count (descending)
-  const sortedPairs = Array.from(overlapMatrix.entries()).sort(
-    (a, b) => b[1].count - a[1].count
-  );
-
-  // Build clusters greedily
-  for (const [key, data] of sortedPairs) {
-    if (data.count < minOverlap) {
+  // Build clusters greedily, largest overlap first
+  for (const pair of sortedPairs(overlapMatrix)) {
+    if (overlapMatrix.counts[pair] < minOverlap) {
       break;
     }
+    if (overlapMatrix.scores[pair] < minOverlapScore) {
+      continue;
+    }
 
-    const [kw1, kw2] = key.split("|");
+    const kw1 = overlapMatrix.keywords[overlapMatrix.first[pair]];
+    const kw2 = overlapMatrix.keywords[overlapMatrix.second[pair]];
 
     // Find if either keyword is already in a cluster
-    let clusterIdx = -1;
-    for (let i = 0; i < clusters.length; i++) {
-      if (clusters[i].has(kw1) || clusters[i].has(kw2)) {
-        clusterIdx = i;
-        break;
-      }
-    }
+    const clusterIdx = Math.min(
+      clusterOf.get(kw1) ?? Infinity,
+      clusterOf.get(kw2) ?? Infinity
+    );
 
-    if (clusterIdx !== -1) {
-      // Add to existing cluster
-      clusters[clusterIdx].add(kw1);
-      clusters[clusterIdx].add(kw2);
+    if (clusterIdx !== Infinity) {
+      // Add the unclustered keyword, if any, to the existing cluster
+      for (const kw of [kw1, kw2]) {
+        if (!clusterOf.has(kw)) {
+          clusters[clusterIdx].add(kw);
+        }
+      }
     } else {
       // Create new cluster
       clusters.push(new Set([kw1, kw2]));
     }
 
+    const idx = clusterIdx !== Infinity ? clusterIdx : clusters.length - 1;
+    onMerge?.(
+      pair,
+      idx,
+      clusterIdx === Infinity
+        ? "created"
+        : clusterOf.has(kw1) && clusterOf.has(kw2)
+        ? "linked"
+        : "joined"
+    );
+    for (const kw of [kw1, kw2]) {
+      if (!clusterOf.has(kw)) {
+        clusterOf.set(kw, idx);
+      }
+    }
+
     assigned.add(kw1);
     assigned.add(kw2);
   }
@@ -167,17 +886,264 @@ export function clusterKeywords(
 }
 
 /**
- * Generate URL slug from text.
+ * Keyword -> index lookups per overlap matrix, built on first use.
+ */
+const keywordIndexes = new WeakMap<OverlapMatrix, Map<string, number>>();
+
+/**
+ * Index of the stored pair for two keywords regardless of order, or -1.
+ */
+function pairIndex(
+  overlapMatrix: OverlapMatrix,
+  kw1: string,
+  kw2: string
+): number {
+  let index = keywordIndexes.get(overlapMatrix);
+  if (!index) {
+    index = new Map(overlapMatrix.keywords.map((kw, i) => [kw, i]));
+    keywordIndexes.set(overlapMatrix, index);
+  }
+  const i = index.get(kw1);
+  const j = index.get(kw2);
+  if (i === undefined || j === undefined || i === j) {
+    return -1;
+  }
+  return findPair(overlapMatrix, i, j);
+}
+
+/**
+ * Look up the overlap entry for a keyword pair regardless of order.
+ */
+export function getPairOverlap(
+  overlapMatrix: OverlapMatrix,
+  kw1: string,
+  kw2: string
+): OverlapData | undefined {
+  const pair = pairIndex(overlapMatrix, kw1, kw2);
+  return pair === -1 ? undefined : pairOverlap(overlapMatrix, pair);
+}
+
+/**
+ * Check whether a keyword pair meets both clustering thresholds.
+ */
+function meetsThreshold(
+  overlapMatrix: OverlapMatrix,
+  kw1: string,
+  kw2: string,
+  options: StrategyOptions
+): boolean {
+  const pair = pairIndex(overlapMatrix, kw1, kw2);
+  return (
+    pair !== -1 &&
+    overlapMatrix.counts[pair] >= options.minOverlap &&
+    overlapMatrix.scores[pair] >= options.minOverlapScore
+  );
+}
+
+/**
+ * Pairs that meet both thresholds, strongest first.
+ */
+function qualifyingPairs(
+  overlapMatrix: OverlapMatrix,
+  options: StrategyOptions
+): [string, string][] {
+  const { keywords, first, second, counts, scores } = overlapMatrix;
+  return Array.from(sortedPairs(overlapMatrix))
+    .filter(
+      (pair) =>
+        counts[pair] >= options.minOverlap &&
+        scores[pair] >= options.minOverlapScore
+    )
+    .map((pair) => [keywords[first[pair]], keywords[second[pair]]]);
+}
+
+/**
+ * Add unassigned keywords as single-keyword clusters.
+ */
+function addSingletons(
+  clusters: Set<string>[],
+  serpData: SerpData,
+  assigned: Set<string>
+): Set<string>[] {
+  for (const kw of serpData.keys()) {
+    if (!assigned.has(kw)) {
+      clusters.push(new Set([kw]));
+    }
+  }
+  return clusters;
+}
+
+/**
+ * Hard clustering.
+ *
+ * Walks pairs largest overlap first like the soft strategy, but a keyword
+ * only joins an existing cluster if it meets the threshold with every
+ * current member. Clusters are never merged with each other.
+ */
+export function clusterKeywordsHard(
+  serpData: SerpData,
+  overlapMatrix: OverlapMatrix,
+  options: StrategyOptions
+): Set<string>[] {
+  const clusters: Set<string>[] = [];
+  const clusterOf = new Map<string, Set<string>>();
+
+  for (const [kw1, kw2] of qualifyingPairs(overlapMatrix, options)) {
+    const c1 = clusterOf.get(kw1);
+    const c2 = clusterOf.get(kw2);
+
+    if (!c1 && !c2) {
+      const cluster = new Set([kw1, kw2]);
+      clusters.push(cluster);
+      clusterOf.set(kw1, cluster);
+      clusterOf.set(kw2, cluster);
+      continue;
+    }
+    if (c1 && c2) {
+      continue;
+    }
+
+    const [cluster, candidate] = c1 ? [c1, kw2] : [c2!, kw1];
+    const fitsAll = Array.from(cluster).every((member) =>
+      meetsThreshold(overlapMatrix, member, candidate, options)
+    );
+    if (fitsAll) {
+      cluster.add(candidate);
+      clusterOf.set(candidate, cluster);
+    }
+  }
+
+  return addSingletons(clusters, serpData, new Set(clusterOf.keys()));
+}
+
+/**
+ * Pivot clustering.
+ *
+ * Keywords are ranked by how many other keywords they meet the threshold
+ * with. The best-connected unassigned keyword becomes a pivot and takes
+ * every unassigned keyword that meets the threshold with it.
+ */
+export function clusterKeywordsPivot(
+  serpData: SerpData,
+  overlapMatrix: OverlapMatrix,
+  options: StrategyOptions
+): Set<string>[] {
+  const neighbours = new Map<string, string[]>();
+  for (const kw of serpData.keys()) {
+    neighbours.set(kw, []);
+  }
+  for (const [kw1, kw2] of qualifyingPairs(overlapMatrix, options)) {
+    neighbours.get(kw1)?.push(kw2);
+    neighbours.get(kw2)?.push(kw1);
+  }
+
+  const pivots = Array.from(neighbours.keys()).sort(
+    (a, b) => neighbours.get(b)!.length - neighbours.get(a)!.length
+  );
+
+  const clusters: Set<string>[] = [];
+  const assigned = new Set<string>();
+
+  for (const pivot of pivots) {
+    if (assigned.has(pivot)) {
+      continue;
+    }
+    const members = neighbours.get(pivot)!.filter((kw) => !assigned.has(kw));
+    if (members.length === 0) {
+      continue;
+    }
+    const cluster = new Set([pivot, ...members]);
+    for (const kw of cluster) {
+      assigned.add(kw);
+    }
+    clusters.push(cluster);
+  }
+
+  return addSingletons(clusters, serpData, assigned);
+}
+
+/**
+ * Registry of clustering strategies keyed by mode.
+ */
+export const clusteringStrategies: Record<ClusteringMode, ClusteringStrategy> =
+  {
+    soft: (serpData, overlapMatrix, options) =>
+      clusterKeywords(
+        serpData,
+        overlapMatrix,
+        options.minOverlap,
+        options.minOverlapScore
+      ),
+    hard: clusterKeywordsHard,
+    pivot: clusterKeywordsPivot,
+    components: (serpData, overlapMatrix, options) =>
+      connectedComponents(buildKeywordGraph(serpData, overlapMatrix, options)),
+    louvain: (serpData, overlapMatrix, options) =>
+      louvainCommunities(
+        buildKeywordGraph(
+          serpData,
+          overlapMatrix,
+          options,
+          options.edgeWeight ?? DEFAULT_EDGE_WEIGHT
+        ),
+        options.resolution ?? DEFAULT_RESOLUTION
+      ),
+    // Distances are derived from overlap scores, so edges are always scores
+    agglomerative: (serpData, overlapMatrix, options) =>
+      agglomerativeClusters(
+        buildKeywordGraph(serpData, overlapMatrix, options, "score"),
+        options.distanceCutoff ?? DEFAULT_DISTANCE_CUTOFF
+      ),
+  };
+
+/**
+ * Optional inputs for createClusterOutput.
+ */
+export interface ClusterOutputOptions {
+  /** Per-keyword metrics; without them the primary keyword is alphabetical. */
+  metrics?: MetricsData;
+  primaryKeywordRule?: PrimaryKeywordRule;
+  /** Unfiltered SERP data used for the SERP feature summary. */
+  featureData?: SerpData;
+  /** Rules for intent classification (default: English built-ins). */
+  intentRules?: IntentRules;
+  /**
+   * Previous cluster continued by each cluster (parallel to clusters).
+   * These keep their cluster_id, primary keyword and slug; new clusters
+   * are numbered after the highest previous ID.
+   */
+  previousClusters?: (PreviousCluster | null)[];
+  /** Whether a ranking URL is one of our pages; enables site mapping. */
+  isSitePage?: (url: string) => boolean;
+  /** Competitor domains (host names) to report coverage for. */
+  competitors?: string[];
+  /** Slug generation; slugs are unique across the clusters. */
+  slugOptions?: SlugOptions;
+  /** Overlap matrix of the run; enables per-cluster cohesion. */
+  overlapMatrix?: OverlapMatrix;
+  /** Granularity of the URLs in serpData (default url). */
+  granularity?: OverlapGranularity;
+}
+
+/**
+ * Site mapping fields of a cluster: our ranking pages, the best of them
+ * as the existing page, or a new page when none ranks.
  */
-export function generateSlug(text: string): string {
-  let slug = text.toLowerCase();
-  slug = slug.replace(/ /g, "-");
-  slug = slug.replace(/[^a-z0-9-]/g, "");
-  slug = slug
-    .split("-")
-    .filter((s) => s)
-    .join("-"); // Remove multiple dashes
-  return slug.slice(0, 60); // Limit length
+function siteMapping(
+  keywords: string[],
+  serpData: SerpData,
+  isSitePage: (url: string) => boolean
+): Pick<
+  ClusterOutput,
+  "existing_page" | "site_urls" | "site_pages" | "needs_new_page"
+> {
+  const pages = findSitePages(keywords, serpData, isSitePage);
+  return {
+    existing_page: pages[0]?.url ?? null,
+    site_urls: pages.map((page) => page.url).join(", "),
+    site_pages: pages,
+    needs_new_page: pages.length === 0,
+  };
 }
 
 /**
@@ -185,32 +1151,133 @@ export function generateSlug(text: string): string {
  */
 export function createClusterOutput(
   clusters: Set<string>[],
-  serpData: SerpData
+  serpData: SerpData,
+  options: ClusterOutputOptions = {}
 ): ClusterOutput[] {
+  const {
+    metrics = new Map(),
+    primaryKeywordRule = DEFAULT_PRIMARY_KEYWORD_RULE,
+    featureData = serpData,
+    intentRules = resolveIntentRules(),
+    previousClusters = [],
+    isSitePage,
+    competitors = [],
+    slugOptions,
+    overlapMatrix,
+    granularity = DEFAULT_GRANULARITY,
+  } = options;
   const clusterOutput: ClusterOutput[] = [];
+  // Slugs kept from a previous run are not handed out again
+  const slugFor = createSlugger(
+    slugOptions,
+    previousClusters.flatMap((c) => (c ? [c.recommended_slug] : []))
+  );
+  const cohesion = overlapMatrix && clusterCohesion(clusters, overlapMatrix);
+  let nextId =
+    Math.max(0, ...previousClusters.map((c) => c?.cluster_id ?? 0)) + 1;
 
   for (let i = 0; i < clusters.length; i++) {
     const cluster = clusters[i];
     const clusterList = Array.from(cluster).sort();
 
-    // Primary keyword = first alphabetically
-    const primaryKw = clusterList[0];
+    const previous = previousClusters[i] ?? null;
+    const primaryKw =
+      previous?.primary_keyword ??
+      selectPrimaryKeyword(clusterList, metrics, primaryKeywordRule);
 
-    // Get shared URLs for this cluster
-    let sharedUrls = new Set(serpData.get(primaryKw)!);
-    for (const kw of clusterList.slice(1)) {
-      const kwUrls = new Set(serpData.get(kw)!);
+    const keywords: KeywordBreakdown[] = clusterList.map((kw) => {
+      const m = metrics.get(kw);
+      return {
+        keyword: kw,
+        volume: m?.volume ?? null,
+        difficulty: m?.difficulty ?? null,
+        cpc: m?.cpc ?? null,
+        intent: m?.intent ?? null,
+      };
+    });
+    const difficulties = keywords
+      .map((k) => k.difficulty)
+      .filter((d): d is number => d !== null);
+
+    // Get shared URLs for this cluster, in the primary keyword's SERP order
+    // Members without SERP data (kept from a previous run) are skipped
+    const startKw = serpData.has(primaryKw)
+      ? primaryKw
+      : clusterList.find((kw) => serpData.has(kw));
+    let sharedUrls = new Set(startKw ? serpUrls(serpData.get(startKw)!) : []);
+    for (const kw of clusterList) {
+      const results = serpData.get(kw);
+      if (!results || kw === startKw) {
+        continue;
+      }
+      const kwUrls = new Set(serpUrls(results));
       sharedUrls = new Set([...sharedUrls].filter((url) => kwUrls.has(url)));
     }
 
+    const serpFeatures = summarizeSerpFeatures(clusterList, featureData);
+
+    // Page types come from the shared URLs, or every ranking URL when the
+    // cluster shares none (e.g. soft clusters chained through intermediaries)
+    const intentUrls =
+      sharedUrls.size > 0
+        ? Array.from(sharedUrls)
+        : Array.from(
+            new Set(
+              clusterList.flatMap((kw) => serpUrls(serpData.get(kw) ?? []))
+            )
+          );
+    const { intent, confidence } = classifyIntent(
+      clusterList,
+      intentUrls.flatMap((url) => overlapKeyUrl(url, granularity) ?? []),
+      intentRules,
+      keywords.map((k) => k.intent)
+    );
+
+    // Coverage and site mapping count every result type, like the SERP
+    // feature summary; result type filters only shape the overlap
+    const domains = domainCoverage(clusterList, featureData);
+
     clusterOutput.push({
-      cluster_id: i + 1,
+      cluster_id: previous?.cluster_id ?? nextId++,
       primary_keyword: primaryKw,
       cluster_keywords: clusterList.join(", "),
       keyword_count: clusterList.length,
       shared_urls: Array.from(sharedUrls).slice(0, 3).join(", "), // Top 3
+      shared_url_list: Array.from(sharedUrls),
       shared_url_count: sharedUrls.size,
-      recommended_slug: generateSlug(primaryKw),
+      recommended_slug: previous?.recommended_slug || slugFor(primaryKw),
+      total_volume: keywords.reduce((sum, k) => sum + (k.volume ?? 0), 0),
+      avg_difficulty:
+        difficulties.length > 0
+          ? Math.round(
+              (difficulties.reduce((sum, d) => sum + d, 0) /
+                difficulties.length) *
+                10
+            ) / 10
+          : null,
+      keywords,
+      // Features shown for at least half of the cluster's keywords
+      dominant_features: serpFeatures
+        .filter((f) => f.share >= 0.5)
+        .map((f) => f.type)
+        .join(", "),
+      serp_features: serpFeatures,
+      intent,
+      intent_confidence: confidence,
+      ...(cohesion && { cohesion: cohesion[i] }),
+      top_domains: domains
+        .slice(0, 3)
+        .map((d) => d.domain)
+        .join(", "),
+      domain_coverage: domains.slice(0, MAX_CLUSTER_DOMAINS),
+      ...(competitors.length > 0 && {
+        competitor_coverage: competitorCoverage(
+          clusterList,
+          featureData,
+          competitors
+        ),
+      }),
+      ...(isSitePage && siteMapping(clusterList, featureData, isSitePage)),
     });
   }
 
@@ -218,105 +1285,303 @@ export function createClusterOutput(
 }
 
 /**
- * Escape a value for CSV output.
+ * SERP data and metrics loaded for a clustering run.
  */
-function escapeCSV(value: string | number): string {
-  const str = String(value);
-  if (str.includes(",") || str.includes('"') || str.includes("\n")) {
-    return `"${str.replace(/"/g, '""')}"`;
-  }
-  return str;
+export interface ClusteringInput {
+  /** Detected or given file format; undefined for inline data. */
+  format?: SerpFormat;
+  /** All results, used for the SERP feature summary. */
+  featureData: SerpData;
+  /** Results of the selected types, used for overlap. */
+  serpData: SerpData;
+  metrics: MetricsData;
 }
 
 /**
- * Save cluster data to CSV.
+ * Load SERP data (from a file or inline) and keyword metrics the way a
+ * clustering run with these parameters sees them.
  */
-export function saveClusters(
-  clustersData: ClusterOutput[],
-  filepath: string
-): void {
-  const fieldnames = [
-    "cluster_id",
-    "primary_keyword",
-    "cluster_keywords",
-    "keyword_count",
-    "shared_urls",
-    "shared_url_count",
-    "recommended_slug",
-  ] as const;
-
-  const header = fieldnames.join(",");
-  const rows = clustersData.map((row) =>
-    fieldnames.map((field) => escapeCSV(row[field])).join(",")
+export async function loadClusteringInput(
+  input: string | SerpInput,
+  parameters: ClusteringParameters,
+  options: Pick<ClusteringOptions, "inputFormat" | "metricsFile" | "signal">
+): Promise<ClusteringInput> {
+  const normalizeUrl = createUrlNormalizer(
+    parameters.url_normalization,
+    parameters.granularity,
+    parameters.path_depth
   );
+  let format: SerpFormat | undefined;
+  let featureData: SerpData;
+  const metricsSources: MetricsData[] = [];
+  if (typeof input === "string") {
+    const loaded = await streamSerpData(
+      input,
+      parameters.max_position,
+      options.inputFormat,
+      normalizeUrl,
+      options.signal,
+      parameters.market ?? undefined
+    );
+    format = loaded.format;
+    featureData = loaded.serpData;
+    metricsSources.push(loaded.metrics);
+  } else {
+    featureData = serpDataFromInput(
+      input,
+      parameters.max_position,
+      normalizeUrl,
+      parameters.market ?? undefined
+    );
+    metricsSources.push(
+      metricsFromInput(input, parameters.market ?? undefined)
+    );
+  }
+
+  if (options.metricsFile) {
+    metricsSources.push(loadKeywordMetrics(options.metricsFile));
+  }
 
-  writeFileSync(filepath, [header, ...rows].join("\n"), "utf-8");
+  return {
+    format,
+    featureData,
+    // Only the selected result types count towards overlap
+    serpData: filterResultTypes(
+      featureData,
+      parameters.include_types,
+      parameters.exclude_types
+    ),
+    metrics: mergeMetrics(...metricsSources),
+  };
 }
 
 /**
- * Save overlap matrix to CSV.
+ * Strategy options for resolved clustering parameters.
  */
-export function saveOverlapMatrix(
-  overlapMatrix: OverlapMatrix,
-  filepath: string
-): void {
-  const fieldnames = [
-    "keyword1",
-    "keyword2",
-    "shared_urls",
-    "overlap_count",
-    "overlap_score",
-  ];
-
-  const header = fieldnames.join(",");
-  const rows: string[] = [];
-
-  for (const [key, data] of overlapMatrix.entries()) {
-    const [kw1, kw2] = key.split("|");
-    rows.push(
-      [
-        escapeCSV(kw1),
-        escapeCSV(kw2),
-        escapeCSV(data.sharedUrls.slice(0, 3).join(", ")),
-        data.count,
-        data.overlapScore.toFixed(3),
-      ].join(",")
-    );
-  }
-
-  writeFileSync(filepath, [header, ...rows].join("\n"), "utf-8");
+export function strategyOptionsFrom(
+  parameters: ClusteringParameters
+): StrategyOptions {
+  return {
+    minOverlap: parameters.min_overlap,
+    minOverlapScore: parameters.min_overlap_score ?? 0,
+    edgeWeight: parameters.edge_weight,
+    resolution: parameters.resolution,
+    distanceCutoff: parameters.distance_cutoff,
+  };
 }
 
 /**
  * Run the complete clustering pipeline.
+ *
+ * input is either a CSV file path or inline SERP data. Output files are
+ * optional: clusters are always returned inline, and the overlap pairs are
+ * returned inline when no overlap file is given. Files are read and
+ * written as streams, so large jobs do not block the event loop for the
+ * whole run.
  */
-export function runClustering(
-  inputFile: string,
-  outputClusters: string,
-  outputOverlap: string
-): ClusteringResult {
+export async function runClustering(
+  input: string | SerpInput,
+  outputClusters?: string,
+  outputOverlap?: string,
+  options: ClusteringOptions = {}
+): Promise<ClusteringResult> {
+  const parameters = resolveClusteringOptions(options);
   const messages: string[] = [];
+  const { onProgress, signal } = options;
+
+  // Checked up front so an unsupported output format fails before any work
+  const clustersFormat =
+    outputClusters && outputFormatFor(outputClusters, options.outputFormat);
+  const overlapFormat =
+    outputOverlap && outputFormatFor(outputOverlap, options.outputFormat);
+  if (overlapFormat) {
+    overlapWriter(overlapFormat);
+  }
+
+  // Read up front so a bad previous clusters file fails before any work
+  const previous =
+    options.previousClusters && loadPreviousClusters(options.previousClusters);
+
+  // Built up front so a bad site or sitemap fails before any work
+  const isSitePage =
+    options.site &&
+    createSiteMatcher(
+      options.site,
+      createUrlNormalizer(
+        parameters.url_normalization,
+        parameters.granularity,
+        parameters.path_depth
+      )
+    );
+
+  // Report a stage once pending I/O (e.g. other requests) has had a chance
+  // to run, and stop here if the run was cancelled
+  const enterStage = async (stage: ClusteringStage, message: string) => {
+    await yieldToEventLoop();
+    signal?.throwIfAborted();
+    messages.push(message);
+    onProgress?.({
+      stage,
+      progress: CLUSTERING_STAGES.indexOf(stage),
+      total: CLUSTERING_STAGES.length,
+      message,
+    });
+  };
 
-  messages.push(`Loading SERP data from ${inputFile}...`);
-  const serpData = loadSerpData(inputFile);
-  messages.push(`  Loaded ${serpData.size} keywords`);
+  await enterStage(
+    "loading",
+    typeof input === "string"
+      ? `Loading SERP data from ${input}...`
+      : "Loading inline SERP data..."
+  );
+  const { format, featureData, serpData, metrics } = await loadClusteringInput(
+    input,
+    parameters,
+    options
+  );
+  if (format) {
+    messages.push(`  Read ${format} format`);
+  }
+  messages.push(`  Loaded ${featureData.size} keywords`);
+  if (options.metricsFile) {
+    messages.push(`Loaded keyword metrics from ${options.metricsFile}`);
+  }
+  if (metrics.size > 0) {
+    messages.push(`  Found metrics for ${metrics.size} keywords`);
+  }
+  // Every keyword may end up in a cluster of its own
+  if (clustersFormat) {
+    checkOutputRows(clustersFormat, serpData.size, "Clusters");
+  }
 
-  messages.push("Calculating URL overlap...");
-  const overlapMatrix = calculateUrlOverlap(serpData);
-  messages.push(`  Found ${overlapMatrix.size} keyword pairs with overlap`);
+  await enterStage(
+    "overlap",
+    `Calculating URL overlap (${parameters.similarity} similarity)...`
+  );
+  const strategyOptions = strategyOptionsFrom(parameters);
+  const overlapMatrix = calculateUrlOverlap(
+    serpData,
+    parameters.similarity,
+    parameters.prune_overlap ? strategyOptions : undefined
+  );
+  if (overlapFormat) {
+    checkOutputRows(overlapFormat, overlapMatrix.size, "Overlap pairs");
+  }
+  messages.push(
+    `  Found ${overlapMatrix.size} keyword pairs with ${
+      parameters.prune_overlap ? "qualifying " : ""
+    }overlap`
+  );
 
-  messages.push("Clustering keywords (min 3 shared URLs)...");
-  const clusters = clusterKeywords(serpData, overlapMatrix, 3);
-  messages.push(`  Created ${clusters.length} clusters`);
+  await enterStage(
+    "clustering",
+    `Clustering keywords (${parameters.mode} mode, min ${parameters.min_overlap} shared URLs in top ${parameters.max_position})...`
+  );
+  const strategy = clusteringStrategies[parameters.mode];
+  let clusters: Set<string>[];
+  let previousClusters: (PreviousCluster | null)[] | undefined;
+  if (previous) {
+    const incremental = clusterIncrementally(
+      previous,
+      serpData,
+      overlapMatrix,
+      parameters.mode,
+      strategyOptions,
+      (rest) =>
+        strategy(
+          rest,
+          calculateUrlOverlap(rest, parameters.similarity),
+          strategyOptions
+        )
+    );
+    clusters = incremental.clusters;
+    previousClusters = incremental.previous;
+    messages.push(
+      `  Kept ${previous.length} clusters from ${options.previousClusters}`
+    );
+    messages.push(
+      `  Added ${incremental.assigned} new keywords to existing clusters`
+    );
+    messages.push(
+      `  Created ${clusters.length - previous.length} new clusters`
+    );
+  } else {
+    clusters = strategy(serpData, overlapMatrix, strategyOptions);
+    messages.push(`  Created ${clusters.length} clusters`);
+  }
 
-  messages.push("Generating cluster output...");
-  const clustersData = createClusterOutput(clusters, serpData);
+  await enterStage("writing", "Generating cluster output...");
+  const clustersData = createClusterOutput(clusters, serpData, {
+    metrics,
+    primaryKeywordRule: parameters.primary_keyword_rule,
+    featureData,
+    intentRules: resolveIntentRules(
+      parameters.intent_language,
+      options.intentRules
+    ),
+    previousClusters,
+    isSitePage,
+    competitors: parameters.competitors,
+    slugOptions: {
+      locale: parameters.slug_locale,
+      removeStopwords: parameters.slug_stopwords,
+      maxLength: parameters.slug_max_length,
+    },
+    overlapMatrix,
+    granularity: parameters.granularity,
+  });
+  const quality = clusteringQuality(
+    clusters,
+    overlapMatrix,
+    clustersData.map((c) => c.cohesion ?? null)
+  );
+
+  let cannibalisation: Cannibalisation | undefined;
+  if (isSitePage) {
+    cannibalisation = findCannibalisation(clustersData);
+    const mapped = clustersData.filter((c) => !c.needs_new_page).length;
+    messages.push(`  Existing pages rank in ${mapped} clusters`);
+    messages.push(
+      `  Clusters needing a new page: ${clustersData.length - mapped}`
+    );
+    messages.push(
+      `  Cannibalisation: ${cannibalisation.clusters.length} clusters with competing URLs, ${cannibalisation.urls.length} URLs in several clusters`
+    );
+  }
+
+  let contentGaps: ContentGap[] | undefined;
+  if (isSitePage && parameters.competitors.length > 0) {
+    contentGaps = findContentGaps(clustersData);
+    messages.push(
+      `  Content gaps: ${contentGaps.length} clusters where competitors rank and we do not`
+    );
+  }
+
+  if (outputClusters) {
+    messages.push(
+      `Saving clusters to ${outputClusters} (${clustersFormat})...`
+    );
+    await writeClusters(
+      clustersData,
+      overlapMatrix,
+      outputClusters,
+      clustersFormat || undefined
+    );
+  }
 
-  messages.push(`Saving clusters to ${outputClusters}...`);
-  saveClusters(clustersData, outputClusters);
+  if (outputOverlap) {
+    signal?.throwIfAborted();
+    messages.push(
+      `Saving overlap matrix to ${outputOverlap} (${overlapFormat})...`
+    );
+    await writeOverlap(
+      overlapMatrix,
+      outputOverlap,
+      overlapFormat || undefined
+    );
+  }
 
-  messages.push(`Saving overlap matrix to ${outputOverlap}...`);
-  saveOverlapMatrix(overlapMatrix, outputOverlap);
+  options.onClusters?.(clustersData, serpData);
 
   const multiKeywordClusters = clustersData.filter(
     (c) => c.keyword_count > 1
@@ -330,14 +1595,27 @@ export function runClustering(
   messages.push(`  Clusters created: ${clusters.length}`);
   messages.push(`  Multi-keyword clusters: ${multiKeywordClusters}`);
   messages.push(`  Single-keyword clusters: ${singleKeywordClusters}`);
+  messages.push(
+    `  Quality: silhouette ${quality.silhouette}, modularity ${quality.modularity}, singleton ratio ${quality.singleton_ratio}`
+  );
 
-  return {
+  const result: ClusteringResult = {
     success: true,
     message: messages.join("\n"),
     clusters_created: clusters.length,
+    parameters,
+    quality,
     output_files: {
       clusters: outputClusters,
       overlap: outputOverlap,
     },
+    clusters: clustersData,
+    overlap: outputOverlap ? undefined : overlapPairs(overlapMatrix),
+    cannibalisation,
+    content_gaps: contentGaps,
   };
+  if (options.recordRun) {
+    result.run_id = storeRun(input, result, overlapMatrix);
+  }
+  return result;
 }
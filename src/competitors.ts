@@ -0,0 +1,155 @@
+/**
+ * Competitor Coverage Module
+ *
+ * Aggregates a cluster's SERPs by domain: which domains rank for the most
+ * of its keywords, at which positions, and with what share of the SERP
+ * slots. With a list of competitors, clusters where they rank but our own
+ * site does not are reported as content gaps.
+ */
+
+import type { SerpData } from "./cluster.js";
+import { isOnDomain, urlHost } from "./urls.js";
+
+/**
+ * How strongly one domain ranks across a cluster's keywords.
+ */
+export interface DomainCoverage {
+  domain: string;
+  /** Cluster keywords the domain ranks for. */
+  keywords: number;
+  /** Mean of the domain's best position per keyword it ranks for. */
+  avg_position: number;
+  /** Share of all result slots of the cluster's SERPs held by the domain. */
+  slot_share: number;
+}
+
+/**
+ * A cluster where competitors rank but our site does not.
+ */
+export interface ContentGap {
+  cluster_id: number;
+  primary_keyword: string;
+  keyword_count: number;
+  total_volume: number;
+  competitors: DomainCoverage[];
+}
+
+/** Domains listed per cluster in domain_coverage. */
+export const MAX_CLUSTER_DOMAINS = 10;
+
+/**
+ * Validate competitor domains and reduce them to host names.
+ */
+export function resolveCompetitors(competitors: unknown): string[] {
+  if (
+    !Array.isArray(competitors) ||
+    competitors.some((d) => typeof d !== "string")
+  ) {
+    throw new Error("competitors must be a list of domains");
+  }
+  return competitors.map((domain: string) => {
+    const host = urlHost(domain);
+    if (!host) {
+      throw new Error(`Invalid competitor domain: ${domain}`);
+    }
+    return host;
+  });
+}
+
+/**
+ * Coverage of the cluster's SERPs by domain, strongest first: most
+ * keywords, then largest slot share, then best average position.
+ * domainOf maps a ranking URL to the domain it counts for, or null to
+ * skip it; by default every host counts on its own.
+ */
+export function domainCoverage(
+  keywords: Iterable<string>,
+  serpData: SerpData,
+  domainOf: (url: string) => string | null = urlHost
+): DomainCoverage[] {
+  const slots = new Map<string, number>();
+  const positions = new Map<string, number[]>();
+  let totalSlots = 0;
+
+  for (const keyword of keywords) {
+    const results = serpData.get(keyword) ?? [];
+    totalSlots += results.length;
+    const best = new Map<string, number>();
+    for (const { url, position } of results) {
+      const domain = domainOf(url);
+      if (domain === null) {
+        continue;
+      }
+      slots.set(domain, (slots.get(domain) ?? 0) + 1);
+      best.set(domain, Math.min(best.get(domain) ?? Infinity, position));
+    }
+    for (const [domain, position] of best) {
+      const list = positions.get(domain) ?? [];
+      list.push(position);
+      positions.set(domain, list);
+    }
+  }
+
+  return Array.from(positions, ([domain, list]) => ({
+    domain,
+    keywords: list.length,
+    avg_position:
+      Math.round((list.reduce((sum, p) => sum + p, 0) / list.length) * 10) / 10,
+    slot_share: Number((slots.get(domain)! / totalSlots).toFixed(3)),
+  })).sort(
+    (a, b) =>
+      b.keywords - a.keywords ||
+      b.slot_share - a.slot_share ||
+      a.avg_position - b.avg_position ||
+      a.domain.localeCompare(b.domain)
+  );
+}
+
+/**
+ * Coverage of the listed competitors only; subdomains count towards
+ * their competitor.
+ */
+export function competitorCoverage(
+  keywords: Iterable<string>,
+  serpData: SerpData,
+  competitors: string[]
+): DomainCoverage[] {
+  return domainCoverage(
+    keywords,
+    serpData,
+    (url) => competitors.find((domain) => isOnDomain(url, domain)) ?? null
+  );
+}
+
+/**
+ * Clusters where competitors rank and none of our pages do, those with
+ * the most competitors first, then by volume.
+ */
+export function findContentGaps(
+  clusters: {
+    cluster_id: number;
+    primary_keyword: string;
+    keyword_count: number;
+    total_volume: number;
+    needs_new_page?: boolean;
+    competitor_coverage?: DomainCoverage[];
+  }[]
+): ContentGap[] {
+  return clusters
+    .filter(
+      (cluster) =>
+        cluster.needs_new_page && (cluster.competitor_coverage?.length ?? 0) > 0
+    )
+    .map((cluster) => ({
+      cluster_id: cluster.cluster_id,
+      primary_keyword: cluster.primary_keyword,
+      keyword_count: cluster.keyword_count,
+      total_volume: cluster.total_volume,
+      competitors: cluster.competitor_coverage!,
+    }))
+    .sort(
+      (a, b) =>
+        b.competitors.length - a.competitors.length ||
+        b.total_volume - a.total_volume
+    );
+}
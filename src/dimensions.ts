@@ -0,0 +1,117 @@
+/**
+ * Market Dimensions Module
+ *
+ * SERP rows may carry a location, language, device and date. Together
+ * they identify the market a SERP was taken in, so the same keyword in
+ * two markets is two SERPs rather than one merged URL list.
+ */
+
+export type MarketDimension = "location" | "language" | "device" | "date";
+
+export const MARKET_DIMENSIONS: MarketDimension[] = [
+  "location",
+  "language",
+  "device",
+  "date",
+];
+
+/**
+ * Column names each dimension is read from, compared case-insensitively.
+ */
+export const MARKET_COLUMNS: Record<MarketDimension, string[]> = {
+  location: ["location", "country", "market"],
+  language: ["language", "lang"],
+  device: ["device"],
+  date: ["date"],
+};
+
+/**
+ * A market: the dimension values of its SERPs. Omitted dimensions are
+ * unset (or, when selecting a market, not filtered on).
+ */
+export type Market = Partial<Record<MarketDimension, string>>;
+
+/**
+ * Normalised dimension value: trimmed and lower-cased, empty when unset.
+ */
+export function dimensionValue(value: unknown): string {
+  return value === undefined || value === null
+    ? ""
+    : String(value).trim().toLowerCase();
+}
+
+/**
+ * The market of a SERP row, with only the dimensions it sets.
+ */
+export function marketOf(row: Market): Market {
+  const market: Market = {};
+  for (const dimension of MARKET_DIMENSIONS) {
+    const value = dimensionValue(row[dimension]);
+    if (value !== "") {
+      market[dimension] = value;
+    }
+  }
+  return market;
+}
+
+/**
+ * Readable, unique name of a market, e.g. "location=us, device=mobile";
+ * "all" for rows without dimensions.
+ */
+export function marketLabel(market: Market): string {
+  const parts = MARKET_DIMENSIONS.filter(
+    (dimension) => market[dimension] !== undefined
+  ).map((dimension) => `${dimension}=${market[dimension]}`);
+  return parts.length > 0 ? parts.join(", ") : "all";
+}
+
+/**
+ * Whether a row belongs to a selected market: it matches every dimension
+ * the selection sets.
+ */
+export function matchesMarket(row: Market, selection: Market): boolean {
+  return MARKET_DIMENSIONS.every(
+    (dimension) =>
+      selection[dimension] === undefined ||
+      dimensionValue(row[dimension]) === selection[dimension]
+  );
+}
+
+/**
+ * Validate a market selection and normalise its values.
+ */
+export function resolveMarket(market: Market): Market {
+  if (typeof market !== "object" || market === null) {
+    throw new Error("market must be an object of dimension values");
+  }
+  for (const [dimension, value] of Object.entries(market)) {
+    if (!MARKET_DIMENSIONS.includes(dimension as MarketDimension)) {
+      throw new Error(
+        `market dimensions must be ${MARKET_DIMENSIONS.join(
+          ", "
+        )}, got ${dimension}`
+      );
+    }
+    if (typeof value !== "string") {
+      throw new Error(`market ${dimension} must be a string, got ${value}`);
+    }
+  }
+  return marketOf(market);
+}
+
+/**
+ * Throw if SERP data spans several markets, since their URL lists would
+ * be merged per keyword.
+ */
+export function assertSingleMarket(markets: Map<string, Market>): void {
+  if (markets.size > 1) {
+    const labels = Array.from(markets.keys());
+    throw new Error(
+      `SERP data covers ${labels.length} markets (${labels
+        .slice(0, 5)
+        .join("; ")}${
+        labels.length > 5 ? "; ..." : ""
+      }). Select one with market, or cluster each with cluster_markets`
+    );
+  }
+}
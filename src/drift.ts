@@ -0,0 +1,419 @@
+/**
+ * SERP Drift Module
+ *
+ * Compares two SERP snapshots of the same keywords, e.g. quarterly
+ * re-fetches. Both are clustered with the same parameters; the report
+ * lists keywords that moved clusters, clusters that split or merged, and
+ * per-keyword URL churn and rank volatility.
+ */
+
+import {
+  calculateUrlOverlap,
+  clusteringStrategies,
+  createClusterOutput,
+  loadClusteringInput,
+  resolveClusteringOptions,
+  strategyOptionsFrom,
+  type ClusterOutput,
+  type ClusteringOptions,
+  type ClusteringParameters,
+  type SerpData,
+  type SerpInput,
+  type SerpResult,
+} from "./cluster.js";
+import { rankUrls } from "./similarity.js";
+import { escapeCSV, writeLines } from "./writers.js";
+
+/**
+ * How one keyword changed between the snapshots.
+ */
+export interface KeywordDrift {
+  keyword: string;
+  cluster_before: number;
+  cluster_after: number;
+  /** Not in the cluster that took over most of its previous cluster. */
+  moved: boolean;
+  /** Its previous cluster was split across several clusters. */
+  cluster_split: boolean;
+  /** Its new cluster merged several previous clusters. */
+  cluster_merged: boolean;
+  urls_added: string[];
+  urls_removed: string[];
+  /** Share of the URLs of both snapshots that entered or left the SERP. */
+  url_churn: number;
+  /** Mean absolute position change; missing URLs rank max_position + 1. */
+  rank_volatility: number;
+}
+
+/**
+ * A previous cluster whose keywords ended up in several clusters.
+ */
+export interface ClusterSplit {
+  cluster_id: number;
+  primary_keyword: string;
+  into: number[];
+}
+
+/**
+ * A new cluster holding keywords of several previous clusters.
+ */
+export interface ClusterMerge {
+  cluster_id: number;
+  primary_keyword: string;
+  from: number[];
+}
+
+export interface DriftReport {
+  success: boolean;
+  message: string;
+  parameters: ClusteringParameters;
+  output_file?: string;
+  keywords_compared: number;
+  keywords_only_before: string[];
+  keywords_only_after: string[];
+  clusters_before: number;
+  clusters_after: number;
+  moved_keywords: string[];
+  split_clusters: ClusterSplit[];
+  merged_clusters: ClusterMerge[];
+  avg_url_churn: number;
+  avg_rank_volatility: number;
+  keywords: KeywordDrift[];
+}
+
+/**
+ * How two clustered snapshots differ: the report without the run details.
+ */
+export type SnapshotComparison = Omit<
+  DriftReport,
+  "success" | "message" | "parameters" | "output_file"
+>;
+
+/**
+ * A clustered snapshot. Cluster IDs are those of the cluster output.
+ */
+export interface ClusteredSnapshot {
+  serpData: SerpData;
+  /** Cluster ID per keyword. */
+  clusterOf: Map<string, number>;
+  primaryKeywords: Map<number, string>;
+}
+
+/**
+ * Snapshot of a cluster output and the SERP data it was built from.
+ */
+export function clusteredSnapshot(
+  serpData: SerpData,
+  clusters: ClusterOutput[]
+): ClusteredSnapshot {
+  const clusterOf = new Map<string, number>();
+  const primaryKeywords = new Map<number, string>();
+  for (const cluster of clusters) {
+    primaryKeywords.set(cluster.cluster_id, cluster.primary_keyword);
+    for (const { keyword } of cluster.keywords) {
+      clusterOf.set(keyword, cluster.cluster_id);
+    }
+  }
+  return { serpData, clusterOf, primaryKeywords };
+}
+
+/**
+ * Load and cluster one snapshot.
+ */
+async function clusterSnapshot(
+  input: string | SerpInput,
+  parameters: ClusteringParameters,
+  options: ClusteringOptions
+): Promise<ClusteredSnapshot> {
+  const { serpData, featureData, metrics } = await loadClusteringInput(
+    input,
+    parameters,
+    options
+  );
+  const strategyOptions = strategyOptionsFrom(parameters);
+  const overlapMatrix = calculateUrlOverlap(
+    serpData,
+    parameters.similarity,
+    parameters.prune_overlap ? strategyOptions : undefined
+  );
+  const clusters = clusteringStrategies[parameters.mode](
+    serpData,
+    overlapMatrix,
+    strategyOptions
+  );
+  return clusteredSnapshot(
+    serpData,
+    createClusterOutput(clusters, serpData, {
+      metrics,
+      primaryKeywordRule: parameters.primary_keyword_rule,
+      featureData,
+    })
+  );
+}
+
+/**
+ * For each previous cluster, the new cluster that holds most of its
+ * keywords (ties go to the lower ID).
+ */
+function clusterSuccessors(
+  keywords: string[],
+  before: Map<string, number>,
+  after: Map<string, number>
+): Map<number, number> {
+  const counts = new Map<number, Map<number, number>>();
+  for (const kw of keywords) {
+    const from = before.get(kw)!;
+    const to = after.get(kw)!;
+    const targets = counts.get(from) ?? new Map<number, number>();
+    targets.set(to, (targets.get(to) ?? 0) + 1);
+    counts.set(from, targets);
+  }
+
+  const successors = new Map<number, number>();
+  for (const [from, targets] of counts) {
+    const [best] = Array.from(targets).sort(
+      (a, b) => b[1] - a[1] || a[0] - b[0]
+    );
+    successors.set(from, best[0]);
+  }
+  return successors;
+}
+
+/**
+ * Group keywords' cluster IDs on one side by their cluster on the other,
+ * keeping only groups spanning several clusters.
+ */
+function spreadClusters(
+  keywords: string[],
+  by: Map<string, number>,
+  other: Map<string, number>
+): Map<number, number[]> {
+  const groups = new Map<number, Set<number>>();
+  for (const kw of keywords) {
+    const id = by.get(kw)!;
+    const group = groups.get(id) ?? new Set<number>();
+    group.add(other.get(kw)!);
+    groups.set(id, group);
+  }
+  return new Map(
+    Array.from(groups)
+      .filter(([, group]) => group.size > 1)
+      .map(([id, group]) => [id, Array.from(group).sort((a, b) => a - b)])
+  );
+}
+
+/**
+ * URL churn and rank volatility of one keyword.
+ */
+export function keywordChurn(
+  before: SerpResult[],
+  after: SerpResult[],
+  maxPosition: number
+): Pick<
+  KeywordDrift,
+  "urls_added" | "urls_removed" | "url_churn" | "rank_volatility"
+> {
+  const positionsBefore = new Map(
+    rankUrls(before).map(({ url, position }) => [url, position])
+  );
+  const positionsAfter = new Map(
+    rankUrls(after).map(({ url, position }) => [url, position])
+  );
+  const urls = new Set([...positionsBefore.keys(), ...positionsAfter.keys()]);
+
+  const missing = maxPosition + 1;
+  let change = 0;
+  for (const url of urls) {
+    change += Math.abs(
+      (positionsBefore.get(url) ?? missing) -
+        (positionsAfter.get(url) ?? missing)
+    );
+  }
+
+  const urlsAdded = Array.from(positionsAfter.keys()).filter(
+    (url) => !positionsBefore.has(url)
+  );
+  const urlsRemoved = Array.from(positionsBefore.keys()).filter(
+    (url) => !positionsAfter.has(url)
+  );
+  return {
+    urls_added: urlsAdded,
+    urls_removed: urlsRemoved,
+    url_churn:
+      urls.size > 0
+        ? Number(
+            ((urlsAdded.length + urlsRemoved.length) / urls.size).toFixed(3)
+          )
+        : 0,
+    rank_volatility:
+      urls.size > 0 ? Number((change / urls.size).toFixed(2)) : 0,
+  };
+}
+
+/**
+ * Mean of a field over the compared keywords.
+ */
+function average(
+  keywords: KeywordDrift[],
+  field: "url_churn" | "rank_volatility"
+): number {
+  if (keywords.length === 0) {
+    return 0;
+  }
+  const total = keywords.reduce((sum, kw) => sum + kw[field], 0);
+  return Number((total / keywords.length).toFixed(3));
+}
+
+/**
+ * Save the per-keyword drift to CSV.
+ */
+export async function saveDriftReport(
+  report: DriftReport,
+  filepath: string
+): Promise<void> {
+  const fieldnames = [
+    "keyword",
+    "cluster_before",
+    "cluster_after",
+    "moved",
+    "cluster_split",
+    "cluster_merged",
+    "url_churn",
+    "rank_volatility",
+    "urls_added",
+    "urls_removed",
+  ] as const;
+
+  function* lines(): Generator<string> {
+    yield fieldnames.join(",");
+    for (const row of report.keywords) {
+      yield fieldnames
+        .map((field) => {
+          const value = row[field];
+          return escapeCSV(Array.isArray(value) ? value.join(", ") : value);
+        })
+        .join(",");
+    }
+  }
+
+  await writeLines(filepath, lines());
+}
+
+/**
+ * Compare two clustered snapshots. Only keywords present in both are
+ * compared; the others are listed separately. A keyword has moved when it
+ * is not in the cluster that took over most of its previous cluster, so
+ * keywords of merged clusters do not count as moved.
+ */
+export function compareClusteredSnapshots(
+  before: ClusteredSnapshot,
+  after: ClusteredSnapshot,
+  maxPosition: number
+): SnapshotComparison {
+  const keywords = Array.from(before.serpData.keys()).filter((kw) =>
+    after.serpData.has(kw)
+  );
+  const { clusterOf: clusterBefore } = before;
+  const { clusterOf: clusterAfter } = after;
+  const successors = clusterSuccessors(keywords, clusterBefore, clusterAfter);
+  const splits = spreadClusters(keywords, clusterBefore, clusterAfter);
+  const merges = spreadClusters(keywords, clusterAfter, clusterBefore);
+
+  const keywordDrift: KeywordDrift[] = keywords.map((keyword) => {
+    const idBefore = clusterBefore.get(keyword)!;
+    const idAfter = clusterAfter.get(keyword)!;
+    return {
+      keyword,
+      cluster_before: idBefore,
+      cluster_after: idAfter,
+      moved: successors.get(idBefore) !== idAfter,
+      cluster_split: splits.has(idBefore),
+      cluster_merged: merges.has(idAfter),
+      ...keywordChurn(
+        before.serpData.get(keyword)!,
+        after.serpData.get(keyword)!,
+        maxPosition
+      ),
+    };
+  });
+
+  return {
+    keywords_compared: keywords.length,
+    keywords_only_before: Array.from(before.serpData.keys()).filter(
+      (kw) => !after.serpData.has(kw)
+    ),
+    keywords_only_after: Array.from(after.serpData.keys()).filter(
+      (kw) => !before.serpData.has(kw)
+    ),
+    clusters_before: before.primaryKeywords.size,
+    clusters_after: after.primaryKeywords.size,
+    moved_keywords: keywordDrift
+      .filter((kw) => kw.moved)
+      .map((kw) => kw.keyword),
+    split_clusters: Array.from(splits, ([id, into]) => ({
+      cluster_id: id,
+      primary_keyword: before.primaryKeywords.get(id)!,
+      into,
+    })),
+    merged_clusters: Array.from(merges, ([id, from]) => ({
+      cluster_id: id,
+      primary_keyword: after.primaryKeywords.get(id)!,
+      from,
+    })),
+    avg_url_churn: average(keywordDrift, "url_churn"),
+    avg_rank_volatility: average(keywordDrift, "rank_volatility"),
+    keywords: keywordDrift,
+  };
+}
+
+/**
+ * Compare two SERP snapshots, clustering both with the same options (see
+ * compareClusteredSnapshots).
+ */
+export async function compareSerpSnapshots(
+  before: string | SerpInput,
+  after: string | SerpInput,
+  outputFile?: string,
+  options: ClusteringOptions = {}
+): Promise<DriftReport> {
+  const parameters = resolveClusteringOptions(options);
+  const messages: string[] = [];
+
+  const snapshotBefore = await clusterSnapshot(before, parameters, options);
+  const snapshotAfter = await clusterSnapshot(after, parameters, options);
+  messages.push(
+    `Before: ${snapshotBefore.serpData.size} keywords in ${snapshotBefore.primaryKeywords.size} clusters`
+  );
+  messages.push(
+    `After: ${snapshotAfter.serpData.size} keywords in ${snapshotAfter.primaryKeywords.size} clusters`
+  );
+
+  const report: DriftReport = {
+    success: true,
+    message: "",
+    parameters,
+    output_file: outputFile,
+    ...compareClusteredSnapshots(
+      snapshotBefore,
+      snapshotAfter,
+      parameters.max_position
+    ),
+  };
+
+  messages.push(
+    `Compared ${report.keywords_compared} keywords in both snapshots`
+  );
+  messages.push(`  Moved keywords: ${report.moved_keywords.length}`);
+  messages.push(`  Split clusters: ${report.split_clusters.length}`);
+  messages.push(`  Merged clusters: ${report.merged_clusters.length}`);
+  messages.push(`  Average URL churn: ${report.avg_url_churn}`);
+  messages.push(`  Average rank volatility: ${report.avg_rank_volatility}`);
+
+  if (outputFile) {
+    messages.push(`Saving drift report to ${outputFile}...`);
+    await saveDriftReport(report, outputFile);
+  }
+
+  report.message = messages.join("\n");
+  return report;
+}
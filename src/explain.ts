@@ -0,0 +1,299 @@
+/**
+ * Cluster Explanation Module
+ *
+ * Answers "why is X grouped with Y?" for one keyword or one cluster of a
+ * run: the overlap edges that hold a keyword in its cluster, its nearest
+ * keywords below the threshold, and for the soft strategy the greedy
+ * merge path that built a cluster.
+ */
+
+import {
+  calculateUrlOverlap,
+  clusterKeywords,
+  clusteringStrategies,
+  createClusterOutput,
+  loadClusteringInput,
+  resolveClusteringOptions,
+  strategyOptionsFrom,
+  type ClusteringOptions,
+  type ClusteringParameters,
+  type MergeAction,
+  type OverlapPair,
+  type SerpInput,
+  type StrategyOptions,
+} from "./cluster.js";
+import { comparePairs, pairSharedUrls, type OverlapMatrix } from "./overlap.js";
+import type { ClusterCohesion } from "./quality.js";
+
+export interface ExplainOptions extends ClusteringOptions {
+  /** Keyword to explain; use this or clusterId. */
+  keyword?: string;
+  /** Cluster to explain, by the cluster_id of the run; use this or keyword. */
+  clusterId?: number;
+  /** Near misses listed for a keyword (default 5). */
+  limit?: number;
+}
+
+/**
+ * Overlap of the explained keyword with another keyword.
+ */
+export interface KeywordEdge {
+  keyword: string;
+  cluster_id: number;
+  shared_urls: string[];
+  overlap_count: number;
+  overlap_score: number;
+}
+
+/**
+ * One pair taken by the soft strategy, in the order it was taken.
+ */
+export interface MergeStep extends OverlapPair {
+  /** Position in the run's overall merge order, from 1. */
+  step: number;
+  action: MergeAction;
+}
+
+export interface KeywordExplanation {
+  keyword: string;
+  cluster_id: number;
+  primary_keyword: string;
+  cluster_keywords: string[];
+  /** Pairs with other cluster members that meet the thresholds. */
+  edges: KeywordEdge[];
+  /** Strongest overlaps with any keyword that fell below the thresholds. */
+  near_misses: KeywordEdge[];
+  /** Merge steps involving the keyword; soft mode only. */
+  merge_steps?: MergeStep[];
+}
+
+export interface ClusterExplanation {
+  cluster_id: number;
+  primary_keyword: string;
+  cluster_keywords: string[];
+  cohesion: ClusterCohesion | null;
+  /** Pairs of members that meet the thresholds, strongest first. */
+  edges: OverlapPair[];
+  /** Merge steps that built the cluster; null for modes other than soft. */
+  merge_path: MergeStep[] | null;
+}
+
+export interface Explanation {
+  success: boolean;
+  message: string;
+  parameters: ClusteringParameters;
+  keyword?: KeywordExplanation;
+  cluster?: ClusterExplanation;
+}
+
+export const DEFAULT_EXPLAIN_LIMIT = 5;
+
+/**
+ * Pair record of a stored pair.
+ */
+function pairRecord(overlapMatrix: OverlapMatrix, pair: number): OverlapPair {
+  const { keywords, first, second, counts, scores } = overlapMatrix;
+  return {
+    keyword1: keywords[first[pair]],
+    keyword2: keywords[second[pair]],
+    shared_urls: pairSharedUrls(overlapMatrix, pair),
+    overlap_count: counts[pair],
+    overlap_score: Number(scores[pair].toFixed(3)),
+  };
+}
+
+function meetsThresholds(
+  overlapMatrix: OverlapMatrix,
+  pair: number,
+  options: StrategyOptions
+): boolean {
+  return (
+    overlapMatrix.counts[pair] >= options.minOverlap &&
+    overlapMatrix.scores[pair] >= options.minOverlapScore
+  );
+}
+
+/**
+ * Explain one keyword or one cluster of a clustering run.
+ *
+ * The input is clustered with the given options, so cluster IDs match a
+ * cluster_keywords run with the same input and parameters (without
+ * previous clusters). Overlap pruning is ignored, since near misses are
+ * the pairs it would drop.
+ */
+export async function explainClustering(
+  input: string | SerpInput,
+  options: ExplainOptions = {}
+): Promise<Explanation> {
+  const {
+    keyword,
+    clusterId,
+    limit = DEFAULT_EXPLAIN_LIMIT,
+    ...clusteringOptions
+  } = options;
+  if ((keyword === undefined) === (clusterId === undefined)) {
+    throw new Error("Provide exactly one of keyword or cluster_id");
+  }
+  if (!Number.isInteger(limit) || limit < 0) {
+    throw new Error(`limit must be a non-negative integer, got ${limit}`);
+  }
+  const parameters = resolveClusteringOptions(clusteringOptions);
+  const { serpData, featureData, metrics } = await loadClusteringInput(
+    input,
+    parameters,
+    clusteringOptions
+  );
+  if (keyword !== undefined && !serpData.has(keyword)) {
+    throw new Error(`Keyword not found in SERP data: ${keyword}`);
+  }
+
+  const strategyOptions = strategyOptionsFrom(parameters);
+  const overlapMatrix = calculateUrlOverlap(serpData, parameters.similarity);
+
+  // The soft strategy records its merges; other modes only expose edges
+  const steps: { pair: number; cluster: number; action: MergeAction }[] = [];
+  const clusters =
+    parameters.mode === "soft"
+      ? clusterKeywords(
+          serpData,
+          overlapMatrix,
+          strategyOptions.minOverlap,
+          strategyOptions.minOverlapScore,
+          (pair, cluster, action) => steps.push({ pair, cluster, action })
+        )
+      : clusteringStrategies[parameters.mode](
+          serpData,
+          overlapMatrix,
+          strategyOptions
+        );
+  const output = createClusterOutput(clusters, serpData, {
+    metrics,
+    primaryKeywordRule: parameters.primary_keyword_rule,
+    featureData,
+    overlapMatrix,
+  });
+
+  // Cluster index per keyword index
+  const clusterOf = new Int32Array(overlapMatrix.keywords.length).fill(-1);
+  const keywordIndex = new Map(overlapMatrix.keywords.map((kw, i) => [kw, i]));
+  clusters.forEach((cluster, c) => {
+    for (const kw of cluster) {
+      clusterOf[keywordIndex.get(kw)!] = c;
+    }
+  });
+
+  const mergeStep = (
+    { pair, action }: (typeof steps)[number],
+    index: number
+  ): MergeStep => ({
+    step: index + 1,
+    action,
+    ...pairRecord(overlapMatrix, pair),
+  });
+  const messages: string[] = [];
+  const explanation: Explanation = {
+    success: true,
+    message: "",
+    parameters,
+  };
+
+  if (keyword !== undefined) {
+    const i = keywordIndex.get(keyword)!;
+    const c = clusterOf[i];
+    const { first, second } = overlapMatrix;
+    const pairs: number[] = [];
+    for (let pair = 0; pair < overlapMatrix.size; pair++) {
+      if (first[pair] === i || second[pair] === i) {
+        pairs.push(pair);
+      }
+    }
+    pairs.sort(comparePairs(overlapMatrix));
+
+    const edge = (pair: number): KeywordEdge => {
+      const other = first[pair] === i ? second[pair] : first[pair];
+      return {
+        keyword: overlapMatrix.keywords[other],
+        cluster_id: output[clusterOf[other]].cluster_id,
+        shared_urls: pairSharedUrls(overlapMatrix, pair),
+        overlap_count: overlapMatrix.counts[pair],
+        overlap_score: Number(overlapMatrix.scores[pair].toFixed(3)),
+      };
+    };
+    const edges = pairs
+      .filter((pair) => meetsThresholds(overlapMatrix, pair, strategyOptions))
+      .map(edge)
+      .filter((e) => clusters[c].has(e.keyword));
+    const nearMisses = pairs
+      .filter((pair) => !meetsThresholds(overlapMatrix, pair, strategyOptions))
+      .slice(0, limit)
+      .map(edge);
+
+    explanation.keyword = {
+      keyword,
+      cluster_id: output[c].cluster_id,
+      primary_keyword: output[c].primary_keyword,
+      cluster_keywords: output[c].keywords.map((k) => k.keyword),
+      edges,
+      near_misses: nearMisses,
+      ...(parameters.mode === "soft" && {
+        merge_steps: steps
+          .map(mergeStep)
+          .filter(
+            (step) => step.keyword1 === keyword || step.keyword2 === keyword
+          ),
+      }),
+    };
+    messages.push(
+      `"${keyword}" is in cluster ${output[c].cluster_id} (${output[c].primary_keyword}) with ${output[c].keyword_count} keywords`
+    );
+    messages.push(
+      `  ${edges.length} edges to cluster members meet the thresholds`
+    );
+    messages.push(`  ${nearMisses.length} near misses below the thresholds`);
+  } else {
+    const c = output.findIndex((cluster) => cluster.cluster_id === clusterId);
+    if (c === -1) {
+      throw new Error(`Cluster not found: ${clusterId}`);
+    }
+    const members = clusters[c];
+    const edges: number[] = [];
+    for (let pair = 0; pair < overlapMatrix.size; pair++) {
+      if (
+        members.has(overlapMatrix.keywords[overlapMatrix.first[pair]]) &&
+        members.has(overlapMatrix.keywords[overlapMatrix.second[pair]]) &&
+        meetsThresholds(overlapMatrix, pair, strategyOptions)
+      ) {
+        edges.push(pair);
+      }
+    }
+    edges.sort(comparePairs(overlapMatrix));
+
+    const mergePath =
+      parameters.mode === "soft"
+        ? steps
+            .map((step, index) => ({ step, index }))
+            .filter(({ step }) => step.cluster === c)
+            .map(({ step, index }) => mergeStep(step, index))
+        : null;
+
+    explanation.cluster = {
+      cluster_id: output[c].cluster_id,
+      primary_keyword: output[c].primary_keyword,
+      cluster_keywords: output[c].keywords.map((k) => k.keyword),
+      cohesion: output[c].cohesion ?? null,
+      edges: edges.map((pair) => pairRecord(overlapMatrix, pair)),
+      merge_path: mergePath,
+    };
+    messages.push(
+      `Cluster ${output[c].cluster_id} (${output[c].primary_keyword}) has ${output[c].keyword_count} keywords and ${edges.length} edges meeting the thresholds`
+    );
+    messages.push(
+      mergePath
+        ? `  Built in ${mergePath.length} merge steps`
+        : `  Merge paths are only recorded in soft mode (mode: ${parameters.mode})`
+    );
+  }
+
+  explanation.message = messages.join("\n");
+  return explanation;
+}
@@ -0,0 +1,107 @@
+/**
+ * SERP Features Module
+ *
+ * Result-type handling: normalising type labels, choosing which result
+ * types count towards overlap, and summarising SERP features per cluster.
+ */
+
+import type { SerpData } from "./cluster.js";
+
+export const ORGANIC = "organic";
+
+/**
+ * Summary of one SERP feature across a cluster's keywords.
+ */
+export interface SerpFeatureSummary {
+  type: string;
+  keyword_count: number;
+  share: number;
+}
+
+/**
+ * Common spellings of result types in tool exports.
+ */
+const TYPE_ALIASES: Record<string, string> = {
+  answer_box: "featured_snippet",
+  snippet: "featured_snippet",
+  paa: "people_also_ask",
+  related_questions: "people_also_ask",
+  videos: "video",
+  local: "local_pack",
+  map_pack: "local_pack",
+  places: "local_pack",
+  maps: "local_pack",
+  shopping_results: "shopping",
+  shopping_ads: "shopping",
+  popular_products: "shopping",
+  images: "image",
+  image_pack: "image",
+  news: "top_stories",
+};
+
+/**
+ * Normalise a result type label, e.g. "Featured Snippet" -> "featured_snippet".
+ * Empty values are treated as organic.
+ */
+export function normalizeResultType(type: string | undefined): string {
+  const key = (type ?? "")
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, "_");
+  if (key === "") {
+    return ORGANIC;
+  }
+  return TYPE_ALIASES[key] ?? key;
+}
+
+/**
+ * Keep only results whose type counts towards overlap.
+ * includeTypes containing "all" keeps every type not excluded.
+ */
+export function filterResultTypes(
+  serpData: SerpData,
+  includeTypes: string[],
+  excludeTypes: string[] = []
+): SerpData {
+  const includeAll = includeTypes.includes("all");
+  const include = new Set(includeTypes.map(normalizeResultType));
+  const exclude = new Set(excludeTypes.map(normalizeResultType));
+
+  const filtered: SerpData = new Map();
+  for (const [keyword, results] of serpData) {
+    filtered.set(
+      keyword,
+      results.filter((r) => {
+        const type = r.type ?? ORGANIC;
+        return !exclude.has(type) && (includeAll || include.has(type));
+      })
+    );
+  }
+  return filtered;
+}
+
+/**
+ * Non-organic result types across a cluster, most common first.
+ * share is the fraction of cluster keywords whose SERP shows the feature.
+ */
+export function summarizeSerpFeatures(
+  keywords: string[],
+  serpData: SerpData
+): SerpFeatureSummary[] {
+  const counts = new Map<string, number>();
+  for (const kw of keywords) {
+    const types = new Set(
+      (serpData.get(kw) ?? []).map((r) => r.type ?? ORGANIC)
+    );
+    types.delete(ORGANIC);
+    for (const type of types) {
+      counts.set(type, (counts.get(type) ?? 0) + 1);
+    }
+  }
+
+  return Array.from(counts, ([type, count]) => ({
+    type,
+    keyword_count: count,
+    share: Math.round((count / keywords.length) * 100) / 100,
+  })).sort((a, b) => b.keyword_count - a.keyword_count);
+}
@@ -0,0 +1,613 @@
+/**
+ * SERP Fetcher Module
+ *
+ * Fetches SERPs for a keyword list from a provider API (Serper, DataForSEO
+ * or any HTTP endpoint returning JSON), so clustering can start from
+ * keywords instead of a SERP export. Responses are cached on disk per
+ * keyword, locale and device, requests are rate limited, and failed
+ * requests are retried with backoff.
+ */
+
+import { createHash } from "crypto";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { homedir } from "os";
+import { dirname, extname, join } from "path";
+import { setTimeout as delay } from "timers/promises";
+import type { SerpRow } from "./cluster.js";
+import { MARKET_DIMENSIONS } from "./dimensions.js";
+import { importSerpContent, type SerpFormat } from "./importers.js";
+import { escapeCSV, writeLines } from "./writers.js";
+
+export type SerpProviderName = "serper" | "dataforseo" | "http";
+
+export type SerpDevice = "desktop" | "mobile";
+
+export const SERP_DEVICES: SerpDevice[] = ["desktop", "mobile"];
+
+/**
+ * Provider settings and fetch tuning. Omitted fields fall back to the
+ * defaults.
+ */
+export interface SerpFetchOptions {
+  provider: SerpProviderName;
+  /**
+   * Serper API key, or DataForSEO "login:password". Defaults to the
+   * SERPER_API_KEY or DATAFORSEO_LOGIN / DATAFORSEO_PASSWORD variables.
+   */
+  apiKey?: string;
+  /**
+   * URL of the http provider. {keyword}, {locale}, {language}, {country},
+   * {device}, {depth} and {location} are replaced by the URL-encoded values.
+   */
+  endpoint?: string;
+  /** Extra request headers (http provider). */
+  headers?: Record<string, string>;
+  /** Response format of the http provider (default "auto"). */
+  responseFormat?: SerpFormat | "auto";
+  /** Language and country, e.g. "en-US" (default "en-US"). */
+  locale?: string;
+  /** Provider location name, e.g. "United States"; DataForSEO needs one. */
+  location?: string;
+  /** Device the SERPs are fetched for (default "desktop"). */
+  device?: SerpDevice;
+  /** Results requested per keyword (default 10). */
+  depth?: number;
+  /** Cache directory (default ~/.cache/serp-clustering). */
+  cacheDir?: string;
+  /** Age after which cached SERPs are fetched again (default 168, a week). */
+  cacheTtlHours?: number;
+  /** Most requests started per second (default 5). */
+  requestsPerSecond?: number;
+  /** Retries of a request after network errors, HTTP 429 and 5xx (default 3). */
+  maxRetries?: number;
+  /** Delay before the first retry, doubled for each further one (default 1000). */
+  retryDelayMs?: number;
+  /** Aborts the fetch between and during requests. */
+  signal?: AbortSignal;
+}
+
+/**
+ * One SERP to fetch.
+ */
+export interface SerpQuery {
+  keyword: string;
+  locale: string;
+  language: string;
+  country: string;
+  device: SerpDevice;
+  depth: number;
+  location?: string;
+}
+
+/**
+ * Builds requests for one provider and turns its responses into rows.
+ */
+export interface SerpProvider {
+  /** Devices the provider can fetch SERPs for; all when omitted. */
+  devices?: SerpDevice[];
+  request(
+    query: SerpQuery,
+    options: SerpFetchOptions
+  ): { url: string; init: RequestInit };
+  parse(body: string, query: SerpQuery, options: SerpFetchOptions): SerpRow[];
+}
+
+export interface FailedKeyword {
+  keyword: string;
+  error: string;
+}
+
+export interface SerpFetchResult {
+  success: boolean;
+  message: string;
+  provider: SerpProviderName;
+  locale: string;
+  device: SerpDevice;
+  keywords: number;
+  /** Keywords fetched from the provider. */
+  fetched: number;
+  /** Keywords served from the cache. */
+  from_cache: number;
+  failed: FailedKeyword[];
+  output_file?: string;
+  /** Present when the rows are not written to a file. */
+  rows?: SerpRow[];
+}
+
+export const DEFAULT_LOCALE = "en-US";
+export const DEFAULT_DEVICE: SerpDevice = "desktop";
+export const DEFAULT_FETCH_DEPTH = 10;
+export const DEFAULT_CACHE_DIR = join(homedir(), ".cache", "serp-clustering");
+export const DEFAULT_CACHE_TTL_HOURS = 168;
+export const DEFAULT_REQUESTS_PER_SECOND = 5;
+export const DEFAULT_MAX_RETRIES = 3;
+export const DEFAULT_RETRY_DELAY_MS = 1000;
+
+/** HTTP statuses worth retrying: rate limits and server errors. */
+const RETRY_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * Rows of a response, attributed to the fetched keyword and cut to the
+ * requested depth. Rows without a usable position count by their order.
+ */
+function rowsFor(rows: SerpRow[], query: SerpQuery): SerpRow[] {
+  return rows
+    .filter((row, i) => {
+      const position = Number(row.position ?? NaN);
+      return (Number.isFinite(position) ? position : i + 1) <= query.depth;
+    })
+    .map((row) => ({ ...row, keyword: query.keyword }));
+}
+
+/**
+ * Providers. serper and dataforseo reuse the importers of their API
+ * responses; http accepts any importable format or a plain URL list.
+ */
+export const serpProviders: Record<SerpProviderName, SerpProvider> = {
+  serper: {
+    // The search endpoint has no device parameter and returns desktop SERPs
+    devices: ["desktop"],
+    request: (query, options) => {
+      const apiKey = options.apiKey ?? process.env.SERPER_API_KEY;
+      if (!apiKey) {
+        throw new Error("serper needs an API key (api_key or SERPER_API_KEY)");
+      }
+      return {
+        url: "https://google.serper.dev/search",
+        init: {
+          method: "POST",
+          headers: { "X-API-KEY": apiKey, "Content-Type": "application/json" },
+          body: JSON.stringify({
+            q: query.keyword,
+            gl: query.country,
+            hl: query.language,
+            num: query.depth,
+            ...(query.location && { location: query.location }),
+          }),
+        },
+      };
+    },
+    parse: (body, query) =>
+      rowsFor(importSerpContent(body, "serper").rows, query),
+  },
+
+  dataforseo: {
+    request: (query, options) => {
+      const login = process.env.DATAFORSEO_LOGIN;
+      const password = process.env.DATAFORSEO_PASSWORD;
+      const apiKey =
+        options.apiKey ?? (login && password ? `${login}:${password}` : "");
+      if (!apiKey.includes(":")) {
+        throw new Error(
+          'dataforseo needs "login:password" credentials (api_key or DATAFORSEO_LOGIN and DATAFORSEO_PASSWORD)'
+        );
+      }
+      if (!query.location) {
+        throw new Error('dataforseo needs a location, e.g. "United States"');
+      }
+      return {
+        url: "https://api.dataforseo.com/v3/serp/google/organic/live/advanced",
+        init: {
+          method: "POST",
+          headers: {
+            Authorization: `Basic ${Buffer.from(apiKey).toString("base64")}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify([
+            {
+              keyword: query.keyword,
+              language_code: query.language,
+              location_name: query.location,
+              device: query.device,
+              depth: query.depth,
+            },
+          ]),
+        },
+      };
+    },
+    parse: (body, query) => {
+      // Task errors come back with HTTP 200 and their own status code
+      const tasks = (JSON.parse(body) as { tasks?: unknown[] }).tasks ?? [];
+      for (const task of tasks as Array<{
+        status_code?: number;
+        status_message?: string;
+      }>) {
+        if (task.status_code !== undefined && task.status_code !== 20000) {
+          throw new Error(
+            `dataforseo task failed (${task.status_code}): ${task.status_message}`
+          );
+        }
+      }
+      return rowsFor(importSerpContent(body, "dataforseo").rows, query);
+    },
+  },
+
+  http: {
+    request: (query, options) => {
+      if (!options.endpoint) {
+        throw new Error("The http provider needs an endpoint");
+      }
+      const values: Record<string, string> = {
+        keyword: query.keyword,
+        locale: query.locale,
+        language: query.language,
+        country: query.country,
+        device: query.device,
+        depth: String(query.depth),
+        location: query.location ?? "",
+      };
+      return {
+        url: options.endpoint.replace(/\{(\w+)\}/g, (placeholder, name) =>
+          Object.hasOwn(values, name)
+            ? encodeURIComponent(values[name])
+            : placeholder
+        ),
+        init: { headers: options.headers },
+      };
+    },
+    parse: (body, query, options) => {
+      let json: unknown;
+      try {
+        json = JSON.parse(body);
+      } catch {
+        // Left to the importers, e.g. CSV or JSON Lines
+      }
+      if (Array.isArray(json) && json.every((u) => typeof u === "string")) {
+        return rowsFor(
+          json.map((url: string, i) => ({
+            keyword: query.keyword,
+            url,
+            position: i + 1,
+          })),
+          query
+        );
+      }
+      return rowsFor(
+        importSerpContent(body, options.responseFormat ?? "auto").rows,
+        query
+      );
+    },
+  },
+};
+
+/**
+ * Resolve a locale such as "en-US" into its language and country codes.
+ */
+function parseLocale(locale: string): { language: string; country: string } {
+  const match = /^([a-z]{2,3})(?:[-_]([a-z]{2}))?$/i.exec(locale);
+  if (!match) {
+    throw new Error(`locale must look like "en" or "en-US", got ${locale}`);
+  }
+  const language = match[1].toLowerCase();
+  return { language, country: (match[2] ?? language).toLowerCase() };
+}
+
+/**
+ * A cached SERP.
+ */
+interface CacheEntry {
+  keyword: string;
+  locale: string;
+  device: SerpDevice;
+  location?: string;
+  depth: number;
+  provider: SerpProviderName;
+  fetched_at: string;
+  rows: SerpRow[];
+}
+
+/**
+ * Cache file of a query, keyed by everything that changes the SERP:
+ * keyword, locale, device and location. Keywords, locales and locations
+ * are compared case-insensitively; the provider is not part of the key,
+ * so a SERP is fetched once whichever provider delivered it.
+ */
+function cachePath(cacheDir: string, query: SerpQuery): string {
+  const key = [
+    query.keyword.toLowerCase(),
+    query.locale.toLowerCase(),
+    query.device,
+    (query.location ?? "").trim().toLowerCase(),
+  ].join("\n");
+  return join(
+    cacheDir,
+    `${createHash("sha256").update(key).digest("hex")}.json`
+  );
+}
+
+/**
+ * Cached rows of a query, unless missing, expired, shallower than the
+ * requested depth or unreadable.
+ */
+async function readCache(
+  filepath: string,
+  query: SerpQuery,
+  ttlHours: number
+): Promise<SerpRow[] | undefined> {
+  let entry: CacheEntry;
+  try {
+    entry = JSON.parse(await readFile(filepath, "utf-8")) as CacheEntry;
+  } catch {
+    return undefined;
+  }
+  const age = Date.now() - Date.parse(entry.fetched_at);
+  if (!(age <= ttlHours * 3600_000) || entry.depth < query.depth) {
+    return undefined;
+  }
+  return rowsFor(entry.rows, query);
+}
+
+/**
+ * Store rows in the cache. The file is renamed into place, so readers
+ * never see a partial entry.
+ */
+async function writeCache(filepath: string, entry: CacheEntry): Promise<void> {
+  await mkdir(dirname(filepath), { recursive: true });
+  const tmpPath = `${filepath}.${process.pid}.tmp`;
+  await writeFile(tmpPath, JSON.stringify(entry));
+  await rename(tmpPath, filepath);
+}
+
+/**
+ * Returns a function that waits until the next request may start, so at
+ * most requestsPerSecond requests start per second.
+ */
+function rateLimiter(
+  requestsPerSecond: number,
+  signal?: AbortSignal
+): () => Promise<void> {
+  const interval = 1000 / requestsPerSecond;
+  let next = 0;
+  return async () => {
+    const now = Date.now();
+    const wait = next - now;
+    next = Math.max(now, next) + interval;
+    if (wait > 0) {
+      await delay(wait, undefined, { signal });
+    }
+  };
+}
+
+/**
+ * Delay requested by a Retry-After header given in seconds, if any.
+ */
+function retryAfterMs(response: Response): number | undefined {
+  const seconds = Number(response.headers.get("retry-after") ?? NaN);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : undefined;
+}
+
+/**
+ * Fetch one SERP, retrying network errors and retryable HTTP statuses.
+ */
+async function requestSerp(
+  { url, init }: { url: string; init: RequestInit },
+  query: SerpQuery,
+  options: SerpFetchOptions,
+  throttle: () => Promise<void>,
+  retries: { maxRetries: number; retryDelayMs: number }
+): Promise<SerpRow[]> {
+  const provider = serpProviders[options.provider];
+  const { signal } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    await throttle();
+    const backoff = retries.retryDelayMs * 2 ** attempt;
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, signal });
+    } catch (error) {
+      signal?.throwIfAborted();
+      if (attempt >= retries.maxRetries) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Request failed: ${message}`);
+      }
+      await delay(backoff, undefined, { signal });
+      continue;
+    }
+
+    const body = await response.text();
+    if (response.ok) {
+      return provider.parse(body, query, options);
+    }
+    if (!RETRY_STATUSES.has(response.status) || attempt >= retries.maxRetries) {
+      throw new Error(
+        `${options.provider} returned HTTP ${response.status}: ${body.slice(
+          0,
+          200
+        )}`
+      );
+    }
+    await delay(retryAfterMs(response) ?? backoff, undefined, { signal });
+  }
+}
+
+/**
+ * Save fetched rows as CSV (keyword, position, url, type and the market
+ * dimensions) when the file ends in .csv, and as JSON Lines otherwise.
+ * Both are valid input files.
+ */
+export async function saveSerpRows(
+  rows: SerpRow[],
+  filepath: string
+): Promise<void> {
+  const csv = extname(filepath).toLowerCase() === ".csv";
+  const fieldnames = [
+    "keyword",
+    "position",
+    "url",
+    "type",
+    ...MARKET_DIMENSIONS,
+  ] as const;
+
+  function* lines(): Generator<string> {
+    if (csv) {
+      yield fieldnames.join(",");
+    }
+    for (const row of rows) {
+      yield csv
+        ? fieldnames.map((field) => escapeCSV(row[field] ?? "")).join(",")
+        : JSON.stringify(row);
+    }
+  }
+
+  await writeLines(filepath, lines());
+}
+
+/**
+ * Fetch the SERPs of a keyword list, from the cache where possible.
+ * Keywords that still fail after the retries are reported in failed and
+ * skipped; they are fetched again on the next run.
+ */
+export async function fetchSerps(
+  keywords: string[],
+  outputFile: string | undefined,
+  options: SerpFetchOptions
+): Promise<SerpFetchResult> {
+  const {
+    provider,
+    locale = DEFAULT_LOCALE,
+    device = DEFAULT_DEVICE,
+    depth = DEFAULT_FETCH_DEPTH,
+    cacheDir = DEFAULT_CACHE_DIR,
+    cacheTtlHours = DEFAULT_CACHE_TTL_HOURS,
+    requestsPerSecond = DEFAULT_REQUESTS_PER_SECOND,
+    maxRetries = DEFAULT_MAX_RETRIES,
+    retryDelayMs = DEFAULT_RETRY_DELAY_MS,
+    signal,
+  } = options;
+
+  if (!Object.hasOwn(serpProviders, provider)) {
+    throw new Error(
+      `provider must be one of ${Object.keys(serpProviders).join(
+        ", "
+      )}, got ${provider}`
+    );
+  }
+  if (!SERP_DEVICES.includes(device)) {
+    throw new Error(
+      `device must be one of ${SERP_DEVICES.join(", ")}, got ${device}`
+    );
+  }
+  const { devices = SERP_DEVICES } = serpProviders[provider];
+  if (!devices.includes(device)) {
+    throw new Error(
+      `${provider} only fetches ${devices.join(", ")} SERPs, got ${device}`
+    );
+  }
+  if (!Number.isInteger(depth) || depth < 1) {
+    throw new Error(`depth must be a positive integer, got ${depth}`);
+  }
+  if (!(cacheTtlHours >= 0)) {
+    throw new Error(
+      `cacheTtlHours must be zero or positive, got ${cacheTtlHours}`
+    );
+  }
+  if (!(requestsPerSecond > 0)) {
+    throw new Error(
+      `requestsPerSecond must be positive, got ${requestsPerSecond}`
+    );
+  }
+  if (!Number.isInteger(maxRetries) || maxRetries < 0) {
+    throw new Error(
+      `maxRetries must be a non-negative integer, got ${maxRetries}`
+    );
+  }
+  if (
+    !Array.isArray(keywords) ||
+    keywords.some((kw) => typeof kw !== "string")
+  ) {
+    throw new Error("keywords must be a list of strings");
+  }
+  const { language, country } = parseLocale(locale);
+  const unique = Array.from(
+    new Set(keywords.map((kw) => kw.trim()).filter((kw) => kw !== ""))
+  );
+  if (unique.length === 0) {
+    throw new Error("keywords must contain at least one keyword");
+  }
+
+  const throttle = rateLimiter(requestsPerSecond, signal);
+  const rows: SerpRow[] = [];
+  const failed: FailedKeyword[] = [];
+  let fetched = 0;
+  let fromCache = 0;
+
+  for (const keyword of unique) {
+    signal?.throwIfAborted();
+    const query: SerpQuery = {
+      keyword,
+      locale,
+      language,
+      country,
+      device,
+      depth,
+      location: options.location,
+    };
+    const filepath = cachePath(cacheDir, query);
+    const cached = await readCache(filepath, query, cacheTtlHours);
+    if (cached) {
+      rows.push(...cached);
+      fromCache++;
+      continue;
+    }
+
+    // Provider settings errors (e.g. a missing API key) fail the whole fetch
+    const request = serpProviders[provider].request(query, options);
+    let keywordRows: SerpRow[];
+    try {
+      keywordRows = await requestSerp(request, query, options, throttle, {
+        maxRetries,
+        retryDelayMs,
+      });
+    } catch (error) {
+      signal?.throwIfAborted();
+      failed.push({
+        keyword,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      continue;
+    }
+    await writeCache(filepath, {
+      keyword,
+      locale,
+      device,
+      location: options.location,
+      depth,
+      provider,
+      fetched_at: new Date().toISOString(),
+      rows: keywordRows,
+    });
+    rows.push(...keywordRows);
+    fetched++;
+  }
+
+  const messages = [
+    `Fetched ${fetched} SERPs from ${provider} (${locale}, ${device}), ${fromCache} from the cache`,
+  ];
+  if (failed.length > 0) {
+    messages.push(
+      `  ${failed.length} keywords failed, e.g. "${failed[0].keyword}": ${failed[0].error}`
+    );
+  }
+
+  const result: SerpFetchResult = {
+    success: failed.length === 0,
+    message: "",
+    provider,
+    locale,
+    device,
+    keywords: unique.length,
+    fetched,
+    from_cache: fromCache,
+    failed,
+  };
+  if (outputFile) {
+    messages.push(`Saving ${rows.length} SERP rows to ${outputFile}...`);
+    await saveSerpRows(rows, outputFile);
+    result.output_file = outputFile;
+  } else {
+    result.rows = rows;
+  }
+  result.message = messages.join("\n");
+  return result;
+}
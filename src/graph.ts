@@ -0,0 +1,286 @@
+/**
+ * Keyword Graph Module
+ *
+ * Builds a weighted keyword graph from the overlap matrix and provides
+ * graph-based clustering algorithms on top of it.
+ */
+
+import type { SerpData, StrategyOptions } from "./cluster.js";
+import type { OverlapMatrix } from "./overlap.js";
+
+/**
+ * Which overlap value becomes the edge weight.
+ */
+export type EdgeWeight = "count" | "score";
+
+/**
+ * Undirected weighted graph. adjacency[i] maps neighbour index -> weight.
+ */
+export interface KeywordGraph {
+  nodes: string[];
+  adjacency: Map<number, number>[];
+}
+
+/**
+ * Build a keyword graph. Every keyword becomes a node; an edge is added for
+ * each pair that meets the clustering thresholds.
+ */
+export function buildKeywordGraph(
+  serpData: SerpData,
+  overlapMatrix: OverlapMatrix,
+  options: StrategyOptions,
+  edgeWeight: EdgeWeight = "count"
+): KeywordGraph {
+  const nodes = Array.from(serpData.keys());
+  const index = new Map(nodes.map((kw, i) => [kw, i]));
+  const adjacency = nodes.map(() => new Map<number, number>());
+
+  const { keywords, first, second, counts, scores } = overlapMatrix;
+  for (let pair = 0; pair < overlapMatrix.size; pair++) {
+    if (
+      counts[pair] < options.minOverlap ||
+      scores[pair] < options.minOverlapScore
+    ) {
+      continue;
+    }
+
+    const i = index.get(keywords[first[pair]]);
+    const j = index.get(keywords[second[pair]]);
+    if (i === undefined || j === undefined) {
+      continue;
+    }
+
+    const weight = edgeWeight === "count" ? counts[pair] : scores[pair];
+    adjacency[i].set(j, weight);
+    adjacency[j].set(i, weight);
+  }
+
+  return { nodes, adjacency };
+}
+
+/**
+ * Convert a community assignment (node index -> label) into clusters,
+ * ordered by first appearance of each label.
+ */
+function toClusters(graph: KeywordGraph, labels: number[]): Set<string>[] {
+  const byLabel = new Map<number, Set<string>>();
+  labels.forEach((label, i) => {
+    if (!byLabel.has(label)) {
+      byLabel.set(label, new Set());
+    }
+    byLabel.get(label)!.add(graph.nodes[i]);
+  });
+  return Array.from(byLabel.values());
+}
+
+/**
+ * Connected components: every keyword reachable through qualifying edges
+ * ends up in the same cluster.
+ */
+export function connectedComponents(graph: KeywordGraph): Set<string>[] {
+  const labels = new Array<number>(graph.nodes.length).fill(-1);
+  let next = 0;
+
+  for (let start = 0; start < graph.nodes.length; start++) {
+    if (labels[start] !== -1) {
+      continue;
+    }
+    const stack = [start];
+    labels[start] = next;
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      for (const neighbour of graph.adjacency[node].keys()) {
+        if (labels[neighbour] === -1) {
+          labels[neighbour] = next;
+          stack.push(neighbour);
+        }
+      }
+    }
+    next++;
+  }
+
+  return toClusters(graph, labels);
+}
+
+/**
+ * One Louvain local-moving pass over a (possibly aggregated) graph.
+ * Returns the community of each node and whether anything moved.
+ */
+function louvainLocalMoving(
+  adjacency: Map<number, number>[],
+  resolution: number
+): { communities: number[]; moved: boolean } {
+  const n = adjacency.length;
+  const degree = adjacency.map((row) =>
+    Array.from(row.values()).reduce((sum, w) => sum + w, 0)
+  );
+  const totalWeight = degree.reduce((sum, d) => sum + d, 0);
+  const communities = Array.from({ length: n }, (_, i) => i);
+  const communityDegree = [...degree];
+
+  if (totalWeight === 0) {
+    return { communities, moved: false };
+  }
+
+  let moved = false;
+  let improved = true;
+
+  while (improved) {
+    improved = false;
+
+    for (let node = 0; node < n; node++) {
+      const current = communities[node];
+      communityDegree[current] -= degree[node];
+
+      // Weight from this node into each neighbouring community
+      const links = new Map<number, number>();
+      for (const [neighbour, weight] of adjacency[node]) {
+        if (neighbour === node) {
+          continue;
+        }
+        const c = communities[neighbour];
+        links.set(c, (links.get(c) ?? 0) + weight);
+      }
+
+      const gain = (c: number) =>
+        (links.get(c) ?? 0) -
+        (resolution * communityDegree[c] * degree[node]) / totalWeight;
+
+      let best = current;
+      let bestGain = gain(current);
+      for (const c of links.keys()) {
+        const g = gain(c);
+        if (g > bestGain) {
+          best = c;
+          bestGain = g;
+        }
+      }
+
+      communityDegree[best] += degree[node];
+      if (best !== current) {
+        communities[node] = best;
+        improved = true;
+        moved = true;
+      }
+    }
+  }
+
+  return { communities, moved };
+}
+
+/**
+ * Louvain modularity community detection.
+ *
+ * Alternates local moving and graph aggregation until modularity stops
+ * improving. Nodes are visited in input order so results are reproducible.
+ * Higher resolution yields smaller communities.
+ */
+export function louvainCommunities(
+  graph: KeywordGraph,
+  resolution = 1
+): Set<string>[] {
+  // membership[i] = community of original node i in the current level
+  let membership = graph.nodes.map((_, i) => i);
+  let adjacency = graph.adjacency;
+
+  for (;;) {
+    const { communities, moved } = louvainLocalMoving(adjacency, resolution);
+    if (!moved) {
+      break;
+    }
+
+    // Renumber communities densely
+    const renumber = new Map<number, number>();
+    for (const c of communities) {
+      if (!renumber.has(c)) {
+        renumber.set(c, renumber.size);
+      }
+    }
+    const level = communities.map((c) => renumber.get(c)!);
+    membership = membership.map((node) => level[node]);
+
+    // Aggregate: one node per community, internal weight becomes a self-loop
+    const aggregated = Array.from(
+      { length: renumber.size },
+      () => new Map<number, number>()
+    );
+    adjacency.forEach((row, i) => {
+      for (const [j, weight] of row) {
+        const ci = level[i];
+        const cj = level[j];
+        aggregated[ci].set(cj, (aggregated[ci].get(cj) ?? 0) + weight);
+      }
+    });
+    adjacency = aggregated;
+  }
+
+  return toClusters(graph, membership);
+}
+
+/**
+ * Average-linkage agglomerative clustering.
+ *
+ * Edge weights are treated as similarities in [0, 1] and distance is
+ * 1 - similarity; pairs without an edge are at distance 1. The closest
+ * clusters are merged until no pair is within distanceCutoff.
+ */
+export function agglomerativeClusters(
+  graph: KeywordGraph,
+  distanceCutoff: number
+): Set<string>[] {
+  const members = new Map<number, number[]>(
+    graph.nodes.map((_, i) => [i, [i]])
+  );
+  // links[a][b] = summed similarity between members of clusters a and b
+  const links = graph.adjacency.map((row) => new Map(row));
+
+  for (;;) {
+    let bestPair: [number, number] | null = null;
+    let bestDistance = Infinity;
+
+    for (const [a, row] of links.entries()) {
+      if (!members.has(a)) {
+        continue;
+      }
+      for (const [b, similarity] of row) {
+        if (b <= a) {
+          continue;
+        }
+        const size = members.get(a)!.length * members.get(b)!.length;
+        const distance = 1 - similarity / size;
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          bestPair = [a, b];
+        }
+      }
+    }
+
+    if (!bestPair || bestDistance > distanceCutoff) {
+      break;
+    }
+
+    // Merge b into a
+    const [a, b] = bestPair;
+    members.get(a)!.push(...members.get(b)!);
+    members.delete(b);
+    links[a].delete(b);
+    for (const [neighbour, similarity] of links[b]) {
+      if (neighbour === a) {
+        continue;
+      }
+      const merged = (links[a].get(neighbour) ?? 0) + similarity;
+      links[a].set(neighbour, merged);
+      links[neighbour].set(a, merged);
+      links[neighbour].delete(b);
+    }
+    links[b].clear();
+  }
+
+  const labels = new Array<number>(graph.nodes.length);
+  for (const [id, nodes] of members) {
+    for (const node of nodes) {
+      labels[node] = id;
+    }
+  }
+  return toClusters(graph, labels);
+}
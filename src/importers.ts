@@ -0,0 +1,663 @@
+/**
+ * SERP Importers Module
+ *
+ * Normalises SERP exports from different tools into SerpRow records.
+ * Each importer can detect its own format, so the format can be given
+ * explicitly or detected automatically.
+ */
+
+import { createReadStream, readFileSync } from "fs";
+import { open, readFile } from "fs/promises";
+import { extname } from "path";
+import { createInterface } from "readline";
+import type { Readable } from "stream";
+import { parse as parseStream, type Options as CsvOptions } from "csv-parse";
+import { parse } from "csv-parse/sync";
+import type { SerpRow } from "./cluster.js";
+import { MARKET_COLUMNS, MARKET_DIMENSIONS } from "./dimensions.js";
+import { METRIC_COLUMNS } from "./metrics.js";
+
+export type SerpFormat =
+  | "csv"
+  | "semrush"
+  | "ahrefs"
+  | "serper"
+  | "dataforseo"
+  | "json"
+  | "jsonl";
+
+/**
+ * File content prepared once and shared by all importers.
+ */
+export interface ImportSource {
+  content: string;
+  /** Parsed JSON document, if the content is valid JSON. */
+  json?: unknown;
+  /** Lower-cased CSV header names, if the content looks like CSV. */
+  headers?: string[];
+  /** Detected CSV delimiter. */
+  delimiter: string;
+}
+
+export interface SerpImporter {
+  /** Whether the source looks like this format. */
+  detect(source: ImportSource): boolean;
+  /** Normalise the source into SERP rows. */
+  parse(source: ImportSource): SerpRow[];
+  /**
+   * Parse rows incrementally from a text stream. source holds only the
+   * header line. Formats without it are read as a whole.
+   */
+  stream?(input: Readable, source: ImportSource): AsyncIterable<SerpRow>;
+}
+
+export interface SerpImport {
+  format: SerpFormat;
+  rows: SerpRow[];
+}
+
+/**
+ * A SERP file being read incrementally.
+ */
+export interface SerpImportStream {
+  format: SerpFormat;
+  rows: AsyncIterable<SerpRow>;
+}
+
+/**
+ * Decode a file buffer, honouring UTF-8 and UTF-16 byte order marks.
+ * Ahrefs exports UTF-16LE by default.
+ */
+export function decodeContent(buffer: Buffer): string {
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return new TextDecoder("utf-16le").decode(buffer.subarray(2));
+  }
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+    return new TextDecoder("utf-16be").decode(buffer.subarray(2));
+  }
+  return buffer.toString("utf-8").replace(/^\uFEFF/, "");
+}
+
+/**
+ * Pick the most frequent delimiter candidate in the header line.
+ */
+export function detectDelimiter(headerLine: string): string {
+  let best = ",";
+  let bestCount = 0;
+  for (const candidate of [",", ";", "\t"]) {
+    const count = headerLine.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Prepare an import source from raw content.
+ */
+export function createImportSource(content: string): ImportSource {
+  const trimmed = content.trimStart();
+  let json: unknown;
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    try {
+      json = JSON.parse(trimmed);
+    } catch {
+      // Not a single JSON document (e.g. JSONL)
+    }
+  }
+
+  const headerLine = trimmed.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter = detectDelimiter(headerLine);
+  const headers =
+    json === undefined && !trimmed.startsWith("{")
+      ? headerLine
+          .split(delimiter)
+          .map((h) => h.trim().replace(/^"|"$/g, "").toLowerCase())
+      : undefined;
+
+  return { content: trimmed, json, headers, delimiter };
+}
+
+/**
+ * Column aliases for CSV-like exports, compared case-insensitively.
+ */
+interface CsvColumns {
+  keyword: string[];
+  position: string[];
+  url: string[];
+}
+
+/** Result type column names shared by all CSV-like exports. */
+const TYPE_COLUMNS = [
+  "type",
+  "result type",
+  "result_type",
+  "serp feature",
+  "serp_feature",
+];
+
+const GENERIC_COLUMNS: CsvColumns = {
+  keyword: ["keyword"],
+  position: ["position"],
+  url: ["url"],
+};
+
+const SEMRUSH_COLUMNS: CsvColumns = {
+  keyword: ["keyword"],
+  position: ["position"],
+  url: ["url", "landing page"],
+};
+
+const AHREFS_COLUMNS: CsvColumns = {
+  keyword: ["keyword"],
+  position: ["current position", "position"],
+  url: ["current url", "url"],
+};
+
+/**
+ * csv-parse options shared by the whole-file and streaming readers.
+ */
+function csvOptions(source: ImportSource): CsvOptions {
+  return {
+    columns: (header: string[]) => header.map((h) => h.trim().toLowerCase()),
+    delimiter: source.delimiter,
+    skip_empty_lines: true,
+    trim: true,
+    relax_column_count: true,
+  };
+}
+
+/**
+ * Build the record -> SerpRow mapping for a CSV export using the given
+ * column aliases. Metric and market dimension columns are picked up under
+ * their usual export names. The mapper returns null for rows without
+ * keyword or URL.
+ */
+function csvRowMapper(
+  source: ImportSource,
+  columns: CsvColumns
+): (record: Record<string, string>) => SerpRow | null {
+  const headers = source.headers ?? [];
+  const find = (aliases: string[]) =>
+    aliases.find((name) => headers.includes(name));
+
+  const keywordCol = find(columns.keyword);
+  const urlCol = find(columns.url);
+  const positionCol = find(columns.position);
+  if (!keywordCol || !urlCol) {
+    throw new Error(
+      `CSV must have ${columns.keyword[0]} and ${columns.url[0]} columns`
+    );
+  }
+  const typeCol = find(TYPE_COLUMNS);
+  const metricCols = {
+    volume: find(METRIC_COLUMNS.volume),
+    difficulty: find(METRIC_COLUMNS.difficulty),
+    cpc: find(METRIC_COLUMNS.cpc),
+    intent: find(METRIC_COLUMNS.intent),
+  };
+  const dimensionCols = MARKET_DIMENSIONS.map(
+    (dimension) => [dimension, find(MARKET_COLUMNS[dimension])] as const
+  );
+
+  return (record) => {
+    const keyword = record[keywordCol];
+    const url = record[urlCol];
+    if (!keyword || !url) {
+      return null;
+    }
+
+    const row: SerpRow = { keyword, url };
+    if (positionCol && record[positionCol]) {
+      row.position = record[positionCol];
+    }
+    if (typeCol && record[typeCol]) {
+      row.type = record[typeCol];
+    }
+    for (const [field, col] of Object.entries(metricCols)) {
+      if (col && record[col]) {
+        row[field as "volume" | "difficulty" | "cpc" | "intent"] = record[col];
+      }
+    }
+    for (const [dimension, col] of dimensionCols) {
+      if (col && record[col]) {
+        row[dimension] = record[col];
+      }
+    }
+    return row;
+  };
+}
+
+/**
+ * Read a CSV export using the given column aliases.
+ */
+function parseCsvRows(source: ImportSource, columns: CsvColumns): SerpRow[] {
+  const toRow = csvRowMapper(source, columns);
+  const records = parse(source.content, csvOptions(source)) as Array<
+    Record<string, string>
+  >;
+  return records.map(toRow).filter((row): row is SerpRow => row !== null);
+}
+
+/**
+ * Read a CSV export row by row from a stream.
+ */
+async function* streamCsvRows(
+  input: Readable,
+  source: ImportSource,
+  columns: CsvColumns
+): AsyncIterable<SerpRow> {
+  const toRow = csvRowMapper(source, columns);
+  for await (const record of input.pipe(parseStream(csvOptions(source)))) {
+    const row = toRow(record as Record<string, string>);
+    if (row) {
+      yield row;
+    }
+  }
+}
+
+/**
+ * Accept a single API response or an array of them.
+ */
+function asList(json: unknown): Record<string, unknown>[] {
+  const items = Array.isArray(json) ? json : [json];
+  return items.filter(
+    (item): item is Record<string, unknown> =>
+      typeof item === "object" && item !== null
+  );
+}
+
+/**
+ * Serper.dev response sections and the result type they map to.
+ */
+const SERPER_SECTIONS: Record<string, string> = {
+  organic: "organic",
+  peopleAlsoAsk: "people_also_ask",
+  videos: "video",
+  shopping: "shopping",
+  places: "local_pack",
+  topStories: "top_stories",
+  images: "image",
+};
+
+/**
+ * Serper.dev search responses: { searchParameters: { q }, organic: [...] }.
+ * Feature sections become typed rows; results without a position are
+ * ranked by their order within the section. The country (gl) and
+ * language (hl) of the search become the rows' market.
+ */
+function parseSerper(source: ImportSource): SerpRow[] {
+  const rows: SerpRow[] = [];
+  for (const response of asList(source.json)) {
+    const params = response.searchParameters as
+      | { q?: string; gl?: string; hl?: string }
+      | undefined;
+    const keyword = params?.q;
+    if (!keyword) {
+      throw new Error("Serper response is missing searchParameters.q");
+    }
+    const market: Pick<SerpRow, "location" | "language"> = {
+      ...(params.gl && { location: params.gl }),
+      ...(params.hl && { language: params.hl }),
+    };
+
+    const answerBox = response.answerBox as { link?: string } | undefined;
+    if (answerBox?.link) {
+      rows.push({
+        keyword,
+        url: answerBox.link,
+        position: 1,
+        type: "featured_snippet",
+        ...market,
+      });
+    }
+
+    for (const [section, type] of Object.entries(SERPER_SECTIONS)) {
+      const results = (response[section] ?? []) as Array<{
+        link?: string;
+        website?: string;
+        position?: number;
+      }>;
+      results.forEach((result, i) => {
+        const url = result.link ?? result.website;
+        if (url) {
+          rows.push({
+            keyword,
+            url,
+            position: result.position ?? i + 1,
+            type,
+            ...market,
+          });
+        }
+      });
+    }
+  }
+  return rows;
+}
+
+interface DataForSeoItem {
+  type?: string;
+  url?: string;
+  rank_group?: number;
+  rank_absolute?: number;
+  items?: DataForSeoItem[] | null;
+  expanded_element?: DataForSeoItem[] | null;
+}
+
+/**
+ * URLs of a DataForSEO item. Feature blocks (video, people also ask)
+ * carry their URLs on nested elements.
+ */
+function dataForSeoUrls(item: DataForSeoItem): string[] {
+  if (item.url) {
+    return [item.url];
+  }
+  return [...(item.items ?? []), ...(item.expanded_element ?? [])].flatMap(
+    dataForSeoUrls
+  );
+}
+
+/**
+ * DataForSEO SERP API responses: tasks[].result[].items[].
+ * Organic results use their organic rank; SERP features use their
+ * absolute position on the page. The location, language and device of
+ * the task become the rows' market.
+ */
+function parseDataForSeo(source: ImportSource): SerpRow[] {
+  const rows: SerpRow[] = [];
+  for (const response of asList(source.json)) {
+    const tasks = (response.tasks ?? []) as Array<{
+      data?: { device?: string } | null;
+      result?: Array<{
+        keyword?: string;
+        location_code?: number;
+        language_code?: string;
+        items?: DataForSeoItem[];
+      }> | null;
+    }>;
+    for (const task of tasks) {
+      for (const result of task.result ?? []) {
+        if (!result.keyword) {
+          continue;
+        }
+        const market: Pick<SerpRow, "location" | "language" | "device"> = {
+          ...(result.location_code !== undefined && {
+            location: String(result.location_code),
+          }),
+          ...(result.language_code && { language: result.language_code }),
+          ...(task.data?.device && { device: task.data.device }),
+        };
+        for (const item of result.items ?? []) {
+          const type = item.type ?? "organic";
+          const position =
+            type === "organic" ? item.rank_group : item.rank_absolute;
+          for (const url of dataForSeoUrls(item)) {
+            rows.push({
+              keyword: result.keyword,
+              url,
+              position,
+              type,
+              ...market,
+            });
+          }
+        }
+      }
+    }
+  }
+  return rows;
+}
+
+/**
+ * Plain JSON in the inline serp_data shape: rows or keyword -> URL lists.
+ */
+function parseJson(source: ImportSource): SerpRow[] {
+  const json = source.json;
+  if (Array.isArray(json)) {
+    return json as SerpRow[];
+  }
+  if (typeof json !== "object" || json === null) {
+    throw new Error("JSON SERP data must be an array or object");
+  }
+  return Object.entries(json).flatMap(([keyword, urls]) => {
+    if (!Array.isArray(urls)) {
+      throw new Error(`SERP data for "${keyword}" must be a list of URLs`);
+    }
+    return urls.map((url, i) => ({ keyword, url, position: i + 1 }));
+  });
+}
+
+/**
+ * Parse one JSON Lines row.
+ */
+function parseJsonlLine(line: string, lineNumber: number): SerpRow {
+  try {
+    return JSON.parse(line) as SerpRow;
+  } catch {
+    throw new Error(`Invalid JSON on line ${lineNumber}`);
+  }
+}
+
+/**
+ * JSON Lines, one row object per line.
+ */
+function parseJsonl(source: ImportSource): SerpRow[] {
+  return source.content
+    .split(/\r?\n/)
+    .map((line, i) => ({ line: line.trim(), lineNumber: i + 1 }))
+    .filter(({ line }) => line !== "")
+    .map(({ line, lineNumber }) => parseJsonlLine(line, lineNumber));
+}
+
+/**
+ * JSON Lines read line by line from a stream.
+ */
+async function* streamJsonl(input: Readable): AsyncIterable<SerpRow> {
+  let lineNumber = 0;
+  for await (const line of createInterface({ input, crlfDelay: Infinity })) {
+    lineNumber++;
+    if (line.trim() !== "") {
+      yield parseJsonlLine(line.trim(), lineNumber);
+    }
+  }
+}
+
+const hasHeader = (source: ImportSource, ...names: string[]) =>
+  names.some((name) => source.headers?.includes(name) ?? false);
+
+/**
+ * Registry of importers. Detection runs in this order, so the more
+ * specific formats come before the generic ones.
+ */
+export const serpImporters: Record<SerpFormat, SerpImporter> = {
+  dataforseo: {
+    detect: (source) => asList(source.json).some((r) => Array.isArray(r.tasks)),
+    parse: parseDataForSeo,
+  },
+  serper: {
+    detect: (source) =>
+      asList(source.json).some(
+        (r) => typeof r.searchParameters === "object" && "organic" in r
+      ),
+    parse: parseSerper,
+  },
+  json: {
+    detect: (source) => source.json !== undefined,
+    parse: parseJson,
+  },
+  jsonl: {
+    detect: (source) =>
+      source.json === undefined && source.content.startsWith("{"),
+    parse: parseJsonl,
+    stream: streamJsonl,
+  },
+  ahrefs: {
+    detect: (source) => hasHeader(source, "current position", "current url"),
+    parse: (source) => parseCsvRows(source, AHREFS_COLUMNS),
+    stream: (input, source) => streamCsvRows(input, source, AHREFS_COLUMNS),
+  },
+  semrush: {
+    detect: (source) =>
+      hasHeader(source, "keyword intents", "previous position") ||
+      (hasHeader(source, "search volume") &&
+        hasHeader(source, "keyword difficulty")),
+    parse: (source) => parseCsvRows(source, SEMRUSH_COLUMNS),
+    stream: (input, source) => streamCsvRows(input, source, SEMRUSH_COLUMNS),
+  },
+  csv: {
+    detect: (source) => hasHeader(source, "keyword"),
+    parse: (source) => parseCsvRows(source, GENERIC_COLUMNS),
+    stream: (input, source) => streamCsvRows(input, source, GENERIC_COLUMNS),
+  },
+};
+
+export const SERP_FORMATS = Object.keys(serpImporters) as SerpFormat[];
+
+/**
+ * Detect the format of an import source.
+ */
+export function detectFormat(source: ImportSource): SerpFormat {
+  const format = SERP_FORMATS.find((f) => serpImporters[f].detect(source));
+  if (!format) {
+    throw new Error(
+      `Could not detect SERP data format; pass one of ${SERP_FORMATS.join(
+        ", "
+      )}`
+    );
+  }
+  return format;
+}
+
+/**
+ * Import SERP rows from content in the given (or detected) format.
+ */
+export function importSerpContent(
+  content: string,
+  format: SerpFormat | "auto" = "auto"
+): SerpImport {
+  const source = createImportSource(content);
+  const resolved = format === "auto" ? detectFormat(source) : format;
+  if (!Object.hasOwn(serpImporters, resolved)) {
+    throw new Error(
+      `format must be one of auto, ${SERP_FORMATS.join(", ")}, got ${format}`
+    );
+  }
+  return { format: resolved, rows: serpImporters[resolved].parse(source) };
+}
+
+/** Extensions of files read as JSON Lines without sniffing the content. */
+const JSONL_EXTENSIONS = [".jsonl", ".ndjson"];
+
+/**
+ * The format to read a file in: jsonl for JSON Lines extensions when
+ * detecting, since a single-line file looks like one JSON document.
+ */
+function fileFormat(
+  filepath: string,
+  format: SerpFormat | "auto"
+): SerpFormat | "auto" {
+  return format === "auto" &&
+    JSONL_EXTENSIONS.includes(extname(filepath).toLowerCase())
+    ? "jsonl"
+    : format;
+}
+
+/**
+ * Import SERP rows from a file in the given (or detected) format.
+ */
+export function importSerpFile(
+  filepath: string,
+  format: SerpFormat | "auto" = "auto"
+): SerpImport {
+  return importSerpContent(
+    decodeContent(readFileSync(filepath)),
+    fileFormat(filepath, format)
+  );
+}
+
+/** Bytes read to detect the format and encoding of a streamed file. */
+const HEAD_BYTES = 64 * 1024;
+
+/**
+ * Read a SERP file incrementally. CSV exports and JSON Lines are parsed
+ * row by row; single JSON documents (API responses, json) and UTF-16BE
+ * files are read as a whole.
+ */
+export async function streamSerpFile(
+  filepath: string,
+  requested: SerpFormat | "auto" = "auto"
+): Promise<SerpImportStream> {
+  const format = fileFormat(filepath, requested);
+  const handle = await open(filepath, "r");
+  let head: Buffer;
+  try {
+    const buffer = Buffer.alloc(HEAD_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, HEAD_BYTES, 0);
+    head = buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+
+  const whole = async (): Promise<SerpImportStream> => {
+    const imported = importSerpContent(
+      decodeContent(await readFile(filepath)),
+      format
+    );
+    return { format: imported.format, rows: toAsync(imported.rows) };
+  };
+
+  let encoding: BufferEncoding = "utf-8";
+  let start = 0;
+  if (head[0] === 0xff && head[1] === 0xfe) {
+    encoding = "utf16le";
+    start = 2;
+  } else if (head[0] === 0xfe && head[1] === 0xff) {
+    return whole();
+  } else if (head[0] === 0xef && head[1] === 0xbb && head[2] === 0xbf) {
+    start = 3;
+  }
+
+  const text = head.subarray(start).toString(encoding).trimStart();
+  const lines = text.split(/\r?\n/);
+  const headerSource = createImportSource(lines[0] ?? "");
+
+  let resolved: SerpFormat;
+  if (format !== "auto") {
+    resolved = format;
+  } else if (text.startsWith("[") || text.startsWith("{")) {
+    // JSON Lines when the first line is a complete object and more follow
+    let firstLineIsObject = false;
+    try {
+      firstLineIsObject = typeof JSON.parse(lines[0]) === "object";
+    } catch {
+      // Multi-line JSON document
+    }
+    const moreLines = lines.slice(1).some((line) => line.trim() !== "");
+    if (!text.startsWith("{") || !firstLineIsObject || !moreLines) {
+      return whole();
+    }
+    resolved = "jsonl";
+  } else {
+    resolved = detectFormat(headerSource);
+  }
+
+  const importer = serpImporters[resolved];
+  if (!importer?.stream) {
+    return whole();
+  }
+  return {
+    format: resolved,
+    rows: importer.stream(
+      createReadStream(filepath, { encoding, start }),
+      headerSource
+    ),
+  };
+}
+
+/**
+ * Wrap an array as an async iterable.
+ */
+async function* toAsync<T>(items: T[]): AsyncIterable<T> {
+  yield* items;
+}
@@ -0,0 +1,233 @@
+/**
+ * Incremental Clustering Module
+ *
+ * Re-clusters against a previous run: keywords that were already clustered
+ * keep their cluster, new keywords join an existing cluster where they meet
+ * the threshold, and only the rest form new clusters. Existing cluster IDs,
+ * primary keywords and slugs stay stable between runs.
+ */
+
+import { readFileSync } from "fs";
+import { parse } from "csv-parse/sync";
+import type { ClusteringMode, SerpData, StrategyOptions } from "./cluster.js";
+import { decodeContent } from "./importers.js";
+import { findPair, type OverlapMatrix } from "./overlap.js";
+import { outputFormatFor } from "./writers.js";
+
+/**
+ * A cluster from a previous run, as read from its clusters file.
+ */
+export interface PreviousCluster {
+  cluster_id: number;
+  primary_keyword: string;
+  recommended_slug: string;
+  keywords: string[];
+}
+
+/**
+ * Clusters of an incremental run. previous[i] is the previous cluster that
+ * clusters[i] continues, or null for a new cluster.
+ */
+export interface IncrementalClusters {
+  clusters: Set<string>[];
+  previous: (PreviousCluster | null)[];
+  /** New keywords added to existing clusters. */
+  assigned: number;
+}
+
+/**
+ * Cluster records of a clusters file, with cluster_keywords as a list.
+ * JSON files keep the full keyword lists; CSV files join them with commas,
+ * so keywords containing commas need the JSON output.
+ */
+function readClusterRecords(
+  filepath: string
+): Array<Record<string, unknown> & { cluster_keywords: unknown[] }> {
+  const format = outputFormatFor(filepath);
+  const content = decodeContent(readFileSync(filepath));
+  if (format === "json") {
+    let records: unknown;
+    try {
+      records = JSON.parse(content);
+    } catch (error) {
+      throw new Error(
+        `Previous clusters file ${filepath} is not valid JSON: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+    }
+    if (
+      !Array.isArray(records) ||
+      records.some((r) => typeof r !== "object" || r === null)
+    ) {
+      throw new Error(
+        `Previous clusters file ${filepath} must hold a list of clusters`
+      );
+    }
+    return records.map((record, i) => {
+      const keywords = record.cluster_keywords ?? [];
+      if (!Array.isArray(keywords)) {
+        throw new Error(
+          `Previous clusters row ${i + 1} must list its cluster_keywords`
+        );
+      }
+      return { ...record, cluster_keywords: keywords };
+    });
+  }
+  if (format !== "csv") {
+    throw new Error(
+      `Previous clusters must be a clusters CSV or JSON file, got ${format}: ${filepath}`
+    );
+  }
+  const records = parse(content, {
+    columns: true,
+    skip_empty_lines: true,
+    trim: true,
+  }) as Array<Record<string, string>>;
+  return records.map((record) => ({
+    ...record,
+    cluster_keywords: (record.cluster_keywords ?? "").split(","),
+  }));
+}
+
+/**
+ * Load the clusters file (CSV or JSON) written by an earlier run. Requires
+ * cluster_id and cluster_keywords; primary_keyword and recommended_slug
+ * are kept when present. A keyword listed in several clusters (as older
+ * soft-mode runs wrote) stays in the first; clusters left without
+ * keywords are dropped.
+ */
+export function loadPreviousClusters(filepath: string): PreviousCluster[] {
+  const records = readClusterRecords(filepath);
+
+  const ids = new Set<number>();
+  const seen = new Set<string>();
+  const clusters: PreviousCluster[] = [];
+  records.forEach((record, i) => {
+    const id = Number(record.cluster_id);
+    if (!Number.isInteger(id) || id < 1) {
+      throw new Error(
+        `Previous clusters row ${i + 1} must have a positive integer cluster_id`
+      );
+    }
+    if (ids.has(id)) {
+      throw new Error(`Duplicate cluster_id ${id} in previous clusters`);
+    }
+    ids.add(id);
+
+    const listed = record.cluster_keywords
+      .map((kw) => String(kw).trim())
+      .filter((kw) => kw !== "");
+    if (listed.length === 0) {
+      throw new Error(`Previous cluster ${id} has no cluster_keywords`);
+    }
+    const keywords: string[] = [];
+    for (const kw of listed) {
+      if (!seen.has(kw)) {
+        seen.add(kw);
+        keywords.push(kw);
+      }
+    }
+    if (keywords.length === 0) {
+      return;
+    }
+
+    const primary = String(record.primary_keyword ?? "").trim();
+    clusters.push({
+      cluster_id: id,
+      primary_keyword: keywords.includes(primary) ? primary : keywords[0],
+      recommended_slug: String(record.recommended_slug ?? ""),
+      keywords,
+    });
+  });
+  return clusters;
+}
+
+/**
+ * Re-cluster incrementally.
+ *
+ * Each new keyword joins the existing cluster it overlaps most with, if it
+ * fits the mode's rule: hard needs the threshold with every member that has
+ * SERP data, pivot with the primary keyword, all other modes with any
+ * member. Unassigned new keywords are clustered among themselves with
+ * clusterRest.
+ */
+export function clusterIncrementally(
+  previousClusters: PreviousCluster[],
+  serpData: SerpData,
+  overlapMatrix: OverlapMatrix,
+  mode: ClusteringMode,
+  options: StrategyOptions,
+  clusterRest: (serpData: SerpData) => Set<string>[]
+): IncrementalClusters {
+  const index = new Map(overlapMatrix.keywords.map((kw, i) => [kw, i]));
+  const clusters = previousClusters.map((c) => new Set(c.keywords));
+  const known = new Set(previousClusters.flatMap((c) => c.keywords));
+
+  // Strongest qualifying pair between two keywords as [count, score]
+  const pairStrength = (kw1: string, kw2: string): [number, number] | null => {
+    const i = index.get(kw1);
+    const j = index.get(kw2);
+    if (i === undefined || j === undefined) {
+      return null;
+    }
+    const pair = findPair(overlapMatrix, i, j);
+    if (
+      pair === -1 ||
+      overlapMatrix.counts[pair] < options.minOverlap ||
+      overlapMatrix.scores[pair] < options.minOverlapScore
+    ) {
+      return null;
+    }
+    return [overlapMatrix.counts[pair], overlapMatrix.scores[pair]];
+  };
+
+  let assigned = 0;
+  const rest: SerpData = new Map();
+  for (const [keyword, results] of serpData) {
+    if (known.has(keyword)) {
+      continue;
+    }
+
+    let best = -1;
+    let bestStrength: [number, number] = [0, 0];
+    previousClusters.forEach((cluster, c) => {
+      const members =
+        mode === "pivot"
+          ? [cluster.primary_keyword]
+          : cluster.keywords.filter((kw) => serpData.has(kw));
+      const strengths = members.map((kw) => pairStrength(keyword, kw));
+      const fits =
+        mode === "hard" || mode === "pivot"
+          ? strengths.length > 0 && strengths.every((s) => s !== null)
+          : strengths.some((s) => s !== null);
+      if (!fits) {
+        return;
+      }
+      for (const s of strengths) {
+        if (
+          s &&
+          (s[0] > bestStrength[0] ||
+            (s[0] === bestStrength[0] && s[1] > bestStrength[1]))
+        ) {
+          best = c;
+          bestStrength = s;
+        }
+      }
+    });
+
+    if (best === -1) {
+      rest.set(keyword, results);
+    } else {
+      clusters[best].add(keyword);
+      assigned++;
+    }
+  }
+
+  const newClusters = rest.size > 0 ? clusterRest(rest) : [];
+  return {
+    clusters: [...clusters, ...newClusters],
+    previous: [...previousClusters, ...newClusters.map(() => null)],
+    assigned,
+  };
+}
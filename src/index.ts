@@ -11,10 +11,56 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import { existsSync } from "fs";
-import { runClustering } from "./cluster.js";
+import {
+  clusteringStrategies,
+  runClustering,
+  type ClusteringMode,
+  type ClusteringOptions,
+  type ClusteringProgress,
+  type ClusteringResult,
+  type SerpInput,
+} from "./cluster.js";
+import { MARKET_DIMENSIONS, type Market } from "./dimensions.js";
+import { compareSerpSnapshots } from "./drift.js";
+import { explainClustering } from "./explain.js";
+import {
+  fetchSerps,
+  SERP_DEVICES,
+  serpProviders,
+  type SerpDevice,
+  type SerpFetchOptions,
+  type SerpProviderName,
+} from "./fetcher.js";
+import type { EdgeWeight } from "./graph.js";
+import { cancelJob, getJob, startJob } from "./jobs.js";
+import { SERP_FORMATS, type SerpFormat } from "./importers.js";
+import { INTENT_RULES, SEARCH_INTENTS, type SearchIntent } from "./intent.js";
+import { clusterMarkets } from "./markets.js";
+import { prompts, renderPrompt } from "./prompts.js";
+import {
+  getRunView,
+  listRuns,
+  MAX_STORED_PAIRS,
+  parseRunUri,
+  RUN_VIEWS,
+  RUNS_URI,
+  runUri,
+  type RunView,
+} from "./runs.js";
+import { SLUG_LOCALES } from "./slugs.js";
+import { sweepThresholds } from "./sweep.js";
+import { OVERLAP_GRANULARITIES, type OverlapGranularity } from "./urls.js";
+import { PRIMARY_KEYWORD_RULES, type PrimaryKeywordRule } from "./metrics.js";
+import { similarityMeasures, type SimilarityMeasure } from "./similarity.js";
+import { outputWriters, type OutputFormat } from "./writers.js";
 
 const server = new Server(
   {
@@ -24,99 +70,1285 @@ const server = new Server(
   {
     capabilities: {
       tools: {},
+      resources: { listChanged: true },
+      prompts: {},
+      logging: {},
     },
   }
 );
 
-// List available tools
-server.setRequestHandler(ListToolsRequestSchema, async () => {
+/**
+ * Schema of inline SERP data: keyword -> URL lists or row objects.
+ */
+function serpDataSchema(description: string) {
   return {
-    tools: [
+    description,
+    oneOf: [
       {
-        name: "cluster_keywords",
-        description:
-          "Cluster keywords by SERP overlap. Groups keywords that share 3+ URLs in top 10 results, indicating they should target the same page. Input must be a CSV file with columns: keyword, position, url",
-        inputSchema: {
-          type: "object" as const,
+        type: "object",
+        additionalProperties: {
+          type: "array",
+          items: { type: "string" },
+        },
+      },
+      {
+        type: "array",
+        items: {
+          type: "object",
           properties: {
-            input_file: {
+            keyword: { type: "string" },
+            url: { type: "string" },
+            position: { type: "integer" },
+            volume: { type: "number" },
+            difficulty: { type: "number" },
+            cpc: { type: "number" },
+            intent: { type: "string" },
+            type: {
               type: "string",
               description:
-                "Path to input CSV file with SERP data (keyword, position, url columns)",
-            },
-            output_clusters: {
-              type: "string",
-              description: "Path where cluster results will be saved",
-            },
-            output_overlap: {
-              type: "string",
-              description: "Path where URL overlap matrix will be saved",
+                "Result type, e.g. organic, featured_snippet, video (default organic)",
             },
+            ...Object.fromEntries(
+              MARKET_DIMENSIONS.map((dimension) => [
+                dimension,
+                {
+                  type: "string",
+                  description: `Market ${dimension}; rows differing in any market dimension are separate SERPs`,
+                },
+              ])
+            ),
           },
-          required: ["input_file", "output_clusters", "output_overlap"],
+          required: ["keyword", "url"],
         },
       },
     ],
   };
+}
+
+const formatSchema = {
+  type: "string",
+  enum: ["auto", ...SERP_FORMATS],
+  description:
+    "Format of input files (default auto-detect): csv (keyword, position, url), semrush or ahrefs CSV exports, serper or dataforseo JSON API responses, json (same shape as serp_data) or jsonl (one row object per line)",
+};
+
+/**
+ * Provider settings shared by fetch_serps and the fetch argument of the
+ * clustering tools.
+ */
+const fetchSettingsProperties = {
+  provider: {
+    type: "string",
+    enum: Object.keys(serpProviders),
+    description:
+      "SERP provider: serper (Serper.dev), dataforseo (DataForSEO live advanced SERPs) or http (any endpoint returning SERP JSON, e.g. a local mock server)",
+  },
+  api_key: {
+    type: "string",
+    description:
+      'Serper API key or DataForSEO "login:password". Defaults to the SERPER_API_KEY or DATAFORSEO_LOGIN / DATAFORSEO_PASSWORD environment variables',
+  },
+  endpoint: {
+    type: "string",
+    description:
+      "URL of the http provider, fetched with GET per keyword. {keyword}, {locale}, {language}, {country}, {device}, {depth} and {location} are replaced by URL-encoded values",
+  },
+  headers: {
+    type: "object",
+    additionalProperties: { type: "string" },
+    description: "Extra request headers for the http provider",
+  },
+  response_format: {
+    ...formatSchema,
+    description:
+      "Format of http provider responses (default auto-detect). A JSON list of URLs is also accepted",
+  },
+  locale: {
+    type: "string",
+    description: 'Language and country of the SERPs (default "en-US")',
+  },
+  location: {
+    type: "string",
+    description:
+      'Location name passed to the provider, e.g. "United States" (required by dataforseo)',
+  },
+  device: {
+    type: "string",
+    enum: SERP_DEVICES,
+    description:
+      "Device the SERPs are fetched for (default desktop; serper only fetches desktop)",
+  },
+  depth: {
+    type: "integer",
+    minimum: 1,
+    description: "Results requested per keyword (default 10)",
+  },
+  cache_dir: {
+    type: "string",
+    description:
+      "Directory of the SERP cache (default ~/.cache/serp-clustering). SERPs are cached per keyword, locale, device and location",
+  },
+  cache_ttl_hours: {
+    type: "number",
+    minimum: 0,
+    description:
+      "Age in hours after which cached SERPs are fetched again (default 168, one week; 0 always fetches)",
+  },
+  requests_per_second: {
+    type: "number",
+    exclusiveMinimum: 0,
+    description: "Most provider requests started per second (default 5)",
+  },
+  max_retries: {
+    type: "integer",
+    minimum: 0,
+    description:
+      "Retries per keyword after network errors, HTTP 429 and 5xx, with exponential backoff (default 3)",
+  },
+};
+
+/**
+ * Schema of a market: values of the market dimension columns.
+ */
+function marketSchema(description: string) {
+  return {
+    type: "object",
+    description,
+    properties: Object.fromEntries(
+      MARKET_DIMENSIONS.map((dimension) => [dimension, { type: "string" }])
+    ),
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Clustering parameters shared by all tools that cluster SERP data.
+ */
+const clusteringParameterProperties = {
+  market: marketSchema(
+    'Only cluster SERP rows of this market, e.g. { location: "us", device: "mobile" }. Rows carry a market in optional location (or country, market), language, device and date columns; input covering several markets needs a market, or cluster_markets'
+  ),
+  max_position: {
+    type: "integer",
+    minimum: 1,
+    description: "Deepest SERP position to consider (default 10, i.e. top 10)",
+  },
+  min_overlap: {
+    type: "integer",
+    minimum: 1,
+    description:
+      "Minimum shared URLs for two keywords to be clustered (default 3)",
+  },
+  min_overlap_score: {
+    type: "number",
+    minimum: 0,
+    maximum: 1,
+    description:
+      "Optional minimum overlap score (shared URLs / smaller SERP size) a pair must also reach",
+  },
+  mode: {
+    type: "string",
+    enum: Object.keys(clusteringStrategies),
+    description:
+      "Clustering strategy (default soft). soft: greedy, keywords may chain through intermediaries. hard: a keyword joins only if it meets min_overlap with every cluster member. pivot: a keyword joins only if it meets min_overlap with the cluster's pivot keyword. components: connected components of the keyword graph. louvain: modularity communities of the keyword graph, splits large chained clusters. agglomerative: average-linkage merging up to distance_cutoff",
+  },
+  edge_weight: {
+    type: "string",
+    enum: ["count", "score"],
+    description:
+      "Keyword graph edge weight for louvain: shared URL count or overlap score (default count)",
+  },
+  resolution: {
+    type: "number",
+    exclusiveMinimum: 0,
+    description:
+      "Louvain resolution; higher values produce smaller clusters (default 1)",
+  },
+  similarity: {
+    type: "string",
+    enum: Object.keys(similarityMeasures),
+    description:
+      "How overlap_score is computed (default min). min: shared URLs / smaller SERP size. jaccard: shared / union. weighted: reciprocal-rank weighted overlap, top positions count most. rbo: rank-biased overlap",
+  },
+  metrics_file: {
+    type: "string",
+    description:
+      "Optional CSV with keyword metrics (keyword plus volume, difficulty, cpc, intent columns). Metric columns may also be included inline in input_file",
+  },
+  primary_keyword_rule: {
+    type: "string",
+    enum: PRIMARY_KEYWORD_RULES,
+    description:
+      "How each cluster's primary keyword is chosen (default volume): highest volume, lowest difficulty, highest cpc, or alphabetical. Falls back to alphabetical without metrics",
+  },
+  normalize_urls: {
+    type: "boolean",
+    description:
+      "Normalise URLs before comparing (default true): unify http/https, drop www., trailing slashes, fragments and tracking parameters",
+  },
+  strip_query: {
+    type: "boolean",
+    description:
+      "Also drop the whole query string when normalising URLs (default false)",
+  },
+  granularity: {
+    type: "string",
+    enum: OVERLAP_GRANULARITIES,
+    description:
+      "What counts as the same result (default url): url, domain (host only) or path (host plus the first path_depth path segments). Use domain or path for niches where the same sites rank with different pages",
+  },
+  path_depth: {
+    type: "integer",
+    minimum: 1,
+    description: "Path segments kept for path granularity (default 1)",
+  },
+  include_types: {
+    type: "array",
+    items: { type: "string" },
+    description:
+      'Result types counted towards overlap (default ["organic"]). Use ["all"] to count every type, e.g. featured_snippet, people_also_ask, video, local_pack, shopping',
+  },
+  exclude_types: {
+    type: "array",
+    items: { type: "string" },
+    description:
+      "Result types never counted towards overlap, applied after include_types",
+  },
+  distance_cutoff: {
+    type: "number",
+    minimum: 0,
+    maximum: 1,
+    description:
+      "Agglomerative merge cutoff on average distance, where distance = 1 - overlap score (default 0.7)",
+  },
+  prune_overlap: {
+    type: "boolean",
+    description:
+      "Keep only keyword pairs that meet min_overlap and min_overlap_score in the overlap matrix (default false). Clusters are unchanged; saves memory on large keyword sets",
+  },
+  intent_language: {
+    type: "string",
+    enum: Object.keys(INTENT_RULES),
+    description:
+      "Language of the built-in intent rules (keyword modifiers and URL page-type patterns) used to label each cluster's search intent (default en)",
+  },
+  intent_rules: {
+    type: "object",
+    description:
+      "Extra intent rules added to the built-in ones. modifiers and url_patterns map an intent to keyword phrases or URL regular expressions; brands lists brand terms treated as navigational",
+    properties: {
+      modifiers: {
+        type: "object",
+        properties: Object.fromEntries(
+          SEARCH_INTENTS.map((intent) => [
+            intent,
+            { type: "array", items: { type: "string" } },
+          ])
+        ),
+        additionalProperties: false,
+      },
+      url_patterns: {
+        type: "object",
+        properties: Object.fromEntries(
+          SEARCH_INTENTS.map((intent) => [
+            intent,
+            { type: "array", items: { type: "string" } },
+          ])
+        ),
+        additionalProperties: false,
+      },
+      brands: { type: "array", items: { type: "string" } },
+    },
+  },
+};
+
+/**
+ * Input schema shared by cluster_keywords and start_clustering_job.
+ */
+const clusteringInputSchema = {
+  type: "object" as const,
+  properties: {
+    input_file: {
+      type: "string",
+      description:
+        "Path to input CSV file with SERP data (keyword, position, url columns). Use this, serp_data or keywords",
+    },
+    format: formatSchema,
+    serp_data: serpDataSchema(
+      "Inline SERP data, used instead of input_file. Either an object mapping each keyword to its ranked URL list, or an array of rows with keyword, url and optional position, volume, difficulty, cpc, intent"
+    ),
+    keywords: {
+      type: "array",
+      items: { type: "string" },
+      description:
+        "Keywords whose SERPs are fetched with the fetch settings before clustering, used instead of input_file or serp_data",
+    },
+    fetch: {
+      type: "object",
+      description:
+        "How the SERPs of keywords are fetched, as in fetch_serps. depth defaults to max_position",
+      properties: fetchSettingsProperties,
+      required: ["provider"],
+    },
+    output_clusters: {
+      type: "string",
+      description:
+        "Optional path where cluster results will be saved. The format follows the extension (.csv, .json, .xlsx, .md) unless output_format is given; other extensions are written as CSV",
+    },
+    output_overlap: {
+      type: "string",
+      description:
+        "Optional path where URL overlap matrix will be saved (.csv, .json or .xlsx). If omitted, overlap pairs are returned inline",
+    },
+    output_format: {
+      type: "string",
+      enum: Object.keys(outputWriters),
+      description:
+        "Format of the output files, overriding their extensions: csv (flat, top 3 shared URLs), json (nested, full keyword and URL lists), xlsx (workbook with a Clusters and a Pairs sheet) or md (a content brief per cluster; clusters only)",
+    },
+    previous_clusters: {
+      type: "string",
+      description:
+        "Optional clusters CSV or JSON from a previous run (output_clusters; use JSON when keywords contain commas). Its clusters keep their cluster_id, primary keyword and slug; keywords not in it join an existing cluster where they meet the threshold, and only the rest form new clusters",
+    },
+    site_domain: {
+      type: "string",
+      description:
+        "Our own domain (e.g. example.com). Pages on it or its subdomains that rank for a cluster's keywords are reported per cluster (existing_page, site_pages, needs_new_page), along with keyword cannibalisation",
+    },
+    site_urls: {
+      type: "array",
+      items: { type: "string" },
+      description:
+        "Our own page URLs, used with or instead of site_domain for site mapping",
+    },
+    sitemap_file: {
+      type: "string",
+      description:
+        "XML sitemap or text file with one URL per line listing our own pages, used with or instead of site_domain for site mapping",
+    },
+    competitors: {
+      type: "array",
+      items: { type: "string" },
+      description:
+        "Competitor domains. Each cluster reports their keyword coverage, average positions and SERP slot share; with site_domain (or site_urls / sitemap_file), clusters where competitors rank but our site does not are listed in content_gaps",
+    },
+    slug_locale: {
+      type: "string",
+      enum: Object.keys(SLUG_LOCALES),
+      description:
+        "Locale for recommended_slug (default en): transliteration (e.g. German umlauts as ae/oe/ue, Cyrillic to Latin) and the stopword list",
+    },
+    slug_stopwords: {
+      type: "boolean",
+      description:
+        "Drop the slug locale's stopwords (articles, prepositions, conjunctions) from slugs (default false)",
+    },
+    slug_max_length: {
+      type: "integer",
+      minimum: 1,
+      description:
+        "Maximum slug length; slugs are cut between words (default 60)",
+    },
+    ...clusteringParameterProperties,
+  },
+};
+
+const compareSnapshotsSchema = {
+  type: "object" as const,
+  properties: {
+    before_file: {
+      type: "string",
+      description:
+        "SERP file of the earlier snapshot. Use this or before_serp_data",
+    },
+    before_serp_data: serpDataSchema(
+      "Inline SERP data of the earlier snapshot, in the same shape as cluster_keywords serp_data"
+    ),
+    after_file: {
+      type: "string",
+      description:
+        "SERP file of the later snapshot. Use this or after_serp_data",
+    },
+    after_serp_data: serpDataSchema(
+      "Inline SERP data of the later snapshot, in the same shape as cluster_keywords serp_data"
+    ),
+    format: formatSchema,
+    output_drift: {
+      type: "string",
+      description:
+        "Optional path where the per-keyword drift report will be saved as CSV",
+    },
+    ...clusteringParameterProperties,
+  },
+};
+
+const sweepThresholdsSchema = {
+  type: "object" as const,
+  properties: {
+    input_file: {
+      type: "string",
+      description: "Path to the SERP file. Use this or serp_data",
+    },
+    format: formatSchema,
+    serp_data: serpDataSchema(
+      "Inline SERP data, used instead of input_file, in the same shape as cluster_keywords serp_data"
+    ),
+    min_overlap_values: {
+      type: "array",
+      items: { type: "integer", minimum: 1 },
+      description:
+        "min_overlap values to try (default 2, 3, 4, 5 up to max_position)",
+    },
+    min_overlap_score_values: {
+      type: "array",
+      items: { type: "number", minimum: 0, maximum: 1 },
+      description:
+        "min_overlap_score values to try (default: min_overlap_score or none)",
+    },
+    similarities: {
+      type: "array",
+      items: { type: "string", enum: Object.keys(similarityMeasures) },
+      description: "Similarity measures to try (default: similarity or min)",
+    },
+    output_sweep: {
+      type: "string",
+      description:
+        "Optional path where the comparison table will be saved as CSV",
+    },
+    ...clusteringParameterProperties,
+  },
+};
+
+const fetchSerpsSchema = {
+  type: "object" as const,
+  properties: {
+    keywords: {
+      type: "array",
+      items: { type: "string" },
+      description: "Keywords to fetch SERPs for",
+    },
+    output_file: {
+      type: "string",
+      description:
+        "Optional path where the SERP rows will be saved: CSV (keyword, position, url, type, location, language, device, date) for .csv, JSON Lines otherwise. Both can be used as input_file. If omitted, the rows are returned inline",
+    },
+    ...fetchSettingsProperties,
+  },
+  required: ["keywords", "provider"],
+};
+
+/**
+ * Copy of an object without the given keys.
+ */
+function omit<T extends object, K extends keyof T>(
+  object: T,
+  ...keys: K[]
+): Omit<T, K> {
+  const copy = { ...object };
+  for (const key of keys) {
+    delete copy[key];
+  }
+  return copy;
+}
+
+const singleInputProperties = omit(
+  clusteringInputSchema.properties,
+  "keywords",
+  "fetch"
+);
+
+const clusterMarketsSchema = {
+  type: "object" as const,
+  properties: {
+    ...singleInputProperties,
+    output_clusters: {
+      type: "string",
+      description:
+        "Optional path where the clusters of each market will be saved, with the market's dimensions added before the extension (e.g. clusters.location-us.device-mobile.csv)",
+    },
+    output_overlap: {
+      type: "string",
+      description:
+        "Optional path where the overlap matrix of each market will be saved, named like output_clusters",
+    },
+    markets: {
+      type: "array",
+      items: marketSchema("A market to cluster"),
+      description:
+        "Markets to cluster (default: every combination of location, language, device and date in the input)",
+    },
+    baseline: marketSchema(
+      "Market the others are compared with, one of the clustered markets (default: the first market)"
+    ),
+    compare: {
+      type: "boolean",
+      description:
+        "Compare each market's clusters with the baseline (default true)",
+    },
+  },
+};
+
+const explainClusteringSchema = {
+  type: "object" as const,
+  properties: {
+    input_file: {
+      type: "string",
+      description:
+        "Path to the SERP file of the run to explain. Use this or serp_data",
+    },
+    format: formatSchema,
+    serp_data: serpDataSchema(
+      "Inline SERP data of the run to explain, used instead of input_file"
+    ),
+    keyword: {
+      type: "string",
+      description:
+        "Keyword to explain: the edges that hold it in its cluster and its nearest keywords below the threshold. Use this or cluster_id",
+    },
+    cluster_id: {
+      type: "integer",
+      minimum: 1,
+      description:
+        "cluster_id to explain: its edges and, in soft mode, the merge path that built it. Use this or keyword",
+    },
+    limit: {
+      type: "integer",
+      minimum: 0,
+      description: "Near misses listed for a keyword (default 5)",
+    },
+    ...clusteringParameterProperties,
+  },
+};
+
+const RUN_VIEW_DESCRIPTIONS: Record<RunView, string> = {
+  summary: "Summary, quality metrics and log",
+  parameters: "Clustering parameters",
+  clusters: "Clusters",
+  overlap: `The ${MAX_STORED_PAIRS} strongest overlap pairs with their shared URLs`,
+};
+
+const jobIdSchema = {
+  type: "object" as const,
+  properties: {
+    job_id: {
+      type: "string",
+      description: "ID returned by start_clustering_job",
+    },
+  },
+  required: ["job_id"],
+};
+
+const TOOL_NAMES = [
+  "cluster_keywords",
+  "start_clustering_job",
+  "get_clustering_job",
+  "cancel_clustering_job",
+  "compare_serp_snapshots",
+  "sweep_thresholds",
+  "explain_clustering",
+  "fetch_serps",
+  "cluster_markets",
+];
+
+// List available tools
+server.setRequestHandler(ListToolsRequestSchema, async () => {
+  return {
+    tools: [
+      {
+        name: "cluster_keywords",
+        description:
+          "Cluster keywords by SERP overlap. Groups keywords that share 3+ URLs in top 10 results (configurable), indicating they should target the same page. Input is either a CSV file with columns keyword, position, url (input_file) or inline SERP data (serp_data). Clusters are returned inline as JSON and optionally saved to CSV",
+        inputSchema: clusteringInputSchema,
+      },
+      {
+        name: "start_clustering_job",
+        description:
+          "Start cluster_keywords as a background job for large datasets and return its job_id immediately. Each stage (loading, overlap, clustering, writing) is announced as an MCP log message (logger clustering-job) with the job_id and progress. Poll with get_clustering_job for the current stage and the result",
+        inputSchema: clusteringInputSchema,
+      },
+      {
+        name: "get_clustering_job",
+        description:
+          "Get the status of a clustering job: running, completed, failed or cancelled, the current stage and progress, and the full clustering result once completed",
+        inputSchema: jobIdSchema,
+      },
+      {
+        name: "cancel_clustering_job",
+        description:
+          "Cancel a running clustering job. The job stops at its next stage boundary",
+        inputSchema: jobIdSchema,
+      },
+      {
+        name: "compare_serp_snapshots",
+        description:
+          "Compare two SERP snapshots of the same keywords (e.g. quarterly re-fetches). Clusters both with the same parameters and reports keywords that moved clusters, clusters that split or merged, and per-keyword URL churn and rank volatility. Returns JSON and optionally saves a per-keyword CSV",
+        inputSchema: compareSnapshotsSchema,
+      },
+      {
+        name: "sweep_thresholds",
+        description:
+          "Cluster the same SERP data with every combination of the given min_overlap values, min_overlap_score values and similarity measures, and return a comparison table of quality metrics per run: cluster counts, largest cluster, singleton ratio, average cohesion, silhouette and modularity. Use it to pick clustering settings for a dataset; best is the run with the highest silhouette",
+        inputSchema: sweepThresholdsSchema,
+      },
+      {
+        name: "explain_clustering",
+        description:
+          "Explain why keywords are grouped together. Re-clusters the SERP data with the given parameters (cluster IDs match cluster_keywords with the same input and parameters). For a keyword: the overlap edges with its cluster members that meet the thresholds, with shared URLs, counts and scores, plus its nearest keywords below the thresholds. For a cluster_id: the edges between its members and, in soft mode, the greedy merge path that built it",
+        inputSchema: explainClusteringSchema,
+      },
+      {
+        name: "fetch_serps",
+        description:
+          "Fetch the SERPs of a keyword list from a provider (Serper, DataForSEO or a generic HTTP JSON endpoint) and save them as an input file for the clustering tools. SERPs are cached on disk per keyword, locale and device, so re-runs never pay for the same SERP twice; requests are rate limited and retried with backoff. Keywords that still fail are listed in failed",
+        inputSchema: fetchSerpsSchema,
+      },
+      {
+        name: "cluster_markets",
+        description:
+          "Cluster each market of a SERP file separately, where rows carry location, language, device and date columns (e.g. US and UK, or mobile and desktop SERPs). Every market is clustered with the same parameters and stored as a run (read its clusters from the run resources or output files). Each market is compared with a baseline market: keywords grouped differently, clusters that split or merged, and URL churn between the markets",
+        inputSchema: clusterMarketsSchema,
+      },
+    ],
+  };
 });
 
-interface ClusterKeywordsArgs {
-  input_file: string;
-  output_clusters: string;
-  output_overlap: string;
+/**
+ * Clustering parameter arguments shared by all clustering tools.
+ */
+interface ClusteringParameterArgs {
+  market?: Market;
+  format?: SerpFormat | "auto";
+  max_position?: number;
+  min_overlap?: number;
+  min_overlap_score?: number;
+  mode?: ClusteringMode;
+  edge_weight?: EdgeWeight;
+  resolution?: number;
+  distance_cutoff?: number;
+  similarity?: SimilarityMeasure;
+  metrics_file?: string;
+  primary_keyword_rule?: PrimaryKeywordRule;
+  normalize_urls?: boolean;
+  strip_query?: boolean;
+  granularity?: OverlapGranularity;
+  path_depth?: number;
+  include_types?: string[];
+  exclude_types?: string[];
+  prune_overlap?: boolean;
+  intent_language?: string;
+  intent_rules?: {
+    modifiers?: Partial<Record<SearchIntent, string[]>>;
+    url_patterns?: Partial<Record<SearchIntent, string[]>>;
+    brands?: string[];
+  };
 }
 
-// Execute tool
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
+/**
+ * Provider settings arguments, as in fetchSettingsProperties.
+ */
+interface FetchSettingsArgs {
+  provider: SerpProviderName;
+  api_key?: string;
+  endpoint?: string;
+  headers?: Record<string, string>;
+  response_format?: SerpFormat | "auto";
+  locale?: string;
+  location?: string;
+  device?: SerpDevice;
+  depth?: number;
+  cache_dir?: string;
+  cache_ttl_hours?: number;
+  requests_per_second?: number;
+  max_retries?: number;
+}
 
-  if (name !== "cluster_keywords") {
-    throw new Error(`Unknown tool: ${name}`);
+interface FetchSerpsArgs extends FetchSettingsArgs {
+  keywords: string[];
+  output_file?: string;
+}
+
+interface ClusterKeywordsArgs extends ClusteringParameterArgs {
+  input_file?: string;
+  serp_data?: SerpInput;
+  keywords?: string[];
+  fetch?: FetchSettingsArgs;
+  output_clusters?: string;
+  output_overlap?: string;
+  output_format?: OutputFormat;
+  previous_clusters?: string;
+  site_domain?: string;
+  site_urls?: string[];
+  sitemap_file?: string;
+  competitors?: string[];
+  slug_locale?: string;
+  slug_stopwords?: boolean;
+  slug_max_length?: number;
+}
+
+interface ClusterMarketsArgs extends ClusterKeywordsArgs {
+  markets?: Market[];
+  baseline?: Market;
+  compare?: boolean;
+}
+
+interface SweepThresholdsArgs extends ClusteringParameterArgs {
+  input_file?: string;
+  serp_data?: SerpInput;
+  min_overlap_values?: number[];
+  min_overlap_score_values?: number[];
+  similarities?: SimilarityMeasure[];
+  output_sweep?: string;
+}
+
+interface ExplainClusteringArgs extends ClusteringParameterArgs {
+  input_file?: string;
+  serp_data?: SerpInput;
+  keyword?: string;
+  cluster_id?: number;
+  limit?: number;
+}
+
+interface CompareSnapshotsArgs extends ClusteringParameterArgs {
+  before_file?: string;
+  before_serp_data?: SerpInput;
+  after_file?: string;
+  after_serp_data?: SerpInput;
+  output_drift?: string;
+}
+
+/**
+ * Build an error tool result.
+ */
+function errorResponse(message: string) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify({ error: message }, null, 2),
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * A validated clustering request, ready for runClusteringRequest. Its
+ * input is fetched first when it has keywords instead.
+ */
+interface ClusteringRequest {
+  input?: string | SerpInput;
+  fetch?: { keywords: string[]; options: SerpFetchOptions };
+  outputClusters?: string;
+  outputOverlap?: string;
+  options: ClusteringOptions;
+}
+
+/**
+ * Validate clustering parameter arguments and map them to
+ * ClusteringOptions. Throws on invalid input.
+ */
+function clusteringOptions(args: ClusteringParameterArgs): ClusteringOptions {
+  const {
+    market,
+    format,
+    max_position,
+    min_overlap,
+    min_overlap_score,
+    mode,
+    edge_weight,
+    resolution,
+    distance_cutoff,
+    similarity,
+    metrics_file,
+    primary_keyword_rule,
+    normalize_urls,
+    strip_query,
+    granularity,
+    path_depth,
+    include_types,
+    exclude_types,
+    prune_overlap,
+    intent_language,
+    intent_rules,
+  } = args;
+
+  if (metrics_file && !existsSync(metrics_file)) {
+    throw new Error(`Metrics file not found: ${metrics_file}`);
   }
 
-  const { input_file, output_clusters, output_overlap } =
-    args as unknown as ClusterKeywordsArgs;
-
-  // Validate input file exists
-  if (!existsSync(input_file)) {
-    return {
-      content: [
-        {
-          type: "text" as const,
-          text: JSON.stringify(
-            { error: `Input file not found: ${input_file}` },
-            null,
-            2
-          ),
-        },
-      ],
-      isError: true,
+  return {
+    market,
+    maxPosition: max_position,
+    minOverlap: min_overlap,
+    minOverlapScore: min_overlap_score,
+    mode,
+    edgeWeight: edge_weight,
+    resolution,
+    distanceCutoff: distance_cutoff,
+    similarity,
+    metricsFile: metrics_file,
+    primaryKeywordRule: primary_keyword_rule,
+    inputFormat: format,
+    urlNormalization:
+      normalize_urls === false ? false : { stripQuery: strip_query },
+    granularity,
+    pathDepth: path_depth,
+    includeTypes: include_types,
+    excludeTypes: exclude_types,
+    pruneOverlap: prune_overlap,
+    intentLanguage: intent_language,
+    intentRules: intent_rules && {
+      modifiers: intent_rules.modifiers,
+      urlPatterns: intent_rules.url_patterns,
+      brands: intent_rules.brands,
+    },
+  };
+}
+
+/**
+ * Map provider settings arguments to SerpFetchOptions.
+ */
+function fetchOptions(args: FetchSettingsArgs): SerpFetchOptions {
+  return {
+    provider: args.provider,
+    apiKey: args.api_key,
+    endpoint: args.endpoint,
+    headers: args.headers,
+    responseFormat: args.response_format,
+    locale: args.locale,
+    location: args.location,
+    device: args.device,
+    depth: args.depth,
+    cacheDir: args.cache_dir,
+    cacheTtlHours: args.cache_ttl_hours,
+    requestsPerSecond: args.requests_per_second,
+    maxRetries: args.max_retries,
+  };
+}
+
+/**
+ * Resolve a SERP input given as a file or inline data. Throws unless
+ * exactly one exists.
+ */
+function serpInput(
+  file: string | undefined,
+  serpData: SerpInput | undefined,
+  names: [string, string]
+): string | SerpInput {
+  if ((file === undefined) === (serpData === undefined)) {
+    throw new Error(`Provide exactly one of ${names[0]} or ${names[1]}`);
+  }
+  if (file !== undefined && !existsSync(file)) {
+    throw new Error(`Input file not found: ${file}`);
+  }
+  return file ?? serpData!;
+}
+
+/**
+ * Validate cluster_keywords arguments and map them to runClustering
+ * parameters. Throws on invalid input.
+ */
+function clusteringRequest(args: ClusterKeywordsArgs): ClusteringRequest {
+  const {
+    output_clusters,
+    output_overlap,
+    output_format,
+    previous_clusters,
+    site_domain,
+    site_urls,
+    sitemap_file,
+    competitors,
+    slug_locale,
+    slug_stopwords,
+    slug_max_length,
+  } = args;
+  let input: string | SerpInput | undefined;
+  let fetch: ClusteringRequest["fetch"];
+  if (args.keywords === undefined) {
+    input = serpInput(args.input_file, args.serp_data, [
+      "input_file",
+      "serp_data",
+    ]);
+  } else {
+    if (args.input_file !== undefined || args.serp_data !== undefined) {
+      throw new Error(
+        "Provide exactly one of input_file, serp_data or keywords"
+      );
+    }
+    if (!args.fetch) {
+      throw new Error("keywords need fetch settings with a provider");
+    }
+    fetch = {
+      keywords: args.keywords,
+      options: {
+        ...fetchOptions(args.fetch),
+        depth: args.fetch.depth ?? args.max_position,
+      },
     };
   }
 
-  // Execute clustering
+  if (previous_clusters && !existsSync(previous_clusters)) {
+    throw new Error(`Previous clusters file not found: ${previous_clusters}`);
+  }
+
+  if (sitemap_file && !existsSync(sitemap_file)) {
+    throw new Error(`Sitemap file not found: ${sitemap_file}`);
+  }
+
+  return {
+    input,
+    fetch,
+    outputClusters: output_clusters,
+    outputOverlap: output_overlap,
+    options: {
+      ...clusteringOptions(args),
+      previousClusters: previous_clusters,
+      outputFormat: output_format,
+      site:
+        site_domain !== undefined ||
+        site_urls !== undefined ||
+        sitemap_file !== undefined
+          ? { domain: site_domain, urls: site_urls, sitemapFile: sitemap_file }
+          : undefined,
+      competitors,
+      slugLocale: slug_locale,
+      slugStopwords: slug_stopwords,
+      slugMaxLength: slug_max_length,
+      recordRun: true,
+    },
+  };
+}
+
+/**
+ * Build a JSON tool result.
+ */
+function jsonResponse(value: unknown) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(value, null, 2),
+      },
+    ],
+  };
+}
+
+/**
+ * Forward pipeline progress as MCP progress notifications, if the client
+ * asked for them with a progress token.
+ */
+function progressNotifier(
+  progressToken: string | number | undefined
+): ((progress: ClusteringProgress) => void) | undefined {
+  if (progressToken === undefined) {
+    return undefined;
+  }
+  return ({ progress, total, message }) => {
+    server
+      .notification({
+        method: "notifications/progress",
+        params: { progressToken, progress, total, message },
+      })
+      .catch(console.error);
+  };
+}
+
+/**
+ * Forward background job progress as MCP log messages. A job outlives the
+ * request that started it, so its progress token can no longer be used.
+ */
+function jobProgressLogger(
+  { stage, progress, total, message }: ClusteringProgress,
+  jobId: string
+): void {
+  server
+    .sendLoggingMessage({
+      level: "info",
+      logger: "clustering-job",
+      data: { job_id: jobId, stage, progress, total, message },
+    })
+    .catch(console.error);
+}
+
+/**
+ * Tell the client that a recorded run added resources.
+ */
+function announceRun(result: ClusteringResult): ClusteringResult {
+  if (result.run_id) {
+    server.sendResourceListChanged().catch(console.error);
+  }
+  return result;
+}
+
+/**
+ * Run a clustering request, fetching its SERPs first if it has keywords.
+ */
+async function runClusteringRequest(
+  request: ClusteringRequest,
+  options: Pick<ClusteringOptions, "onProgress" | "signal">
+): Promise<ClusteringResult> {
+  let input = request.input!;
+  let fetchMessage: string | undefined;
+  if (request.fetch) {
+    const fetched = await fetchSerps(request.fetch.keywords, undefined, {
+      ...request.fetch.options,
+      signal: options.signal,
+    });
+    if (fetched.rows!.length === 0) {
+      throw new Error(`No SERPs could be fetched\n${fetched.message}`);
+    }
+    input = fetched.rows!;
+    fetchMessage = fetched.message;
+  }
+  const result = await runClustering(
+    input,
+    request.outputClusters,
+    request.outputOverlap,
+    { ...request.options, ...options }
+  );
+  if (fetchMessage) {
+    result.message = `${fetchMessage}\n${result.message}`;
+  }
+  return announceRun(result);
+}
+
+// List stored runs: an index plus one resource per run view
+server.setRequestHandler(ListResourcesRequestSchema, async () => {
+  return {
+    resources: [
+      {
+        uri: RUNS_URI,
+        name: "Clustering runs",
+        description: "Summaries of the stored clustering runs, newest first",
+        mimeType: "application/json",
+      },
+      ...listRuns().flatMap((run) =>
+        RUN_VIEWS.map((view) => ({
+          uri: runUri(run.run_id, view),
+          name: `Run ${run.run_id} ${view}`,
+          description: `${RUN_VIEW_DESCRIPTIONS[view]} of run ${run.run_id} (${run.input}, ${run.created_at})`,
+          mimeType: "application/json",
+        }))
+      ),
+    ],
+  };
+});
+
+server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+  return {
+    resourceTemplates: [
+      {
+        uriTemplate: `${RUNS_URI}/{run_id}/{view}`,
+        name: "Clustering run",
+        description: `A stored clustering run. view is one of ${RUN_VIEWS.join(
+          ", "
+        )}`,
+        mimeType: "application/json",
+      },
+    ],
+  };
+});
+
+// Read the run index or one view of a run
+server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+  const { uri } = request.params;
+  let value: unknown;
+  if (uri === RUNS_URI) {
+    value = listRuns().map((run) => ({
+      ...run,
+      resources: RUN_VIEWS.map((view) => runUri(run.run_id, view)),
+    }));
+  } else {
+    const target = parseRunUri(uri);
+    if (!target) {
+      throw new Error(`Unknown resource: ${uri}`);
+    }
+    value = getRunView(target.runId, target.view);
+    if (value === undefined) {
+      throw new Error(`Unknown run: ${target.runId}`);
+    }
+  }
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: "application/json",
+        text: JSON.stringify(value, null, 2),
+      },
+    ],
+  };
+});
+
+// List workflow prompts
+server.setRequestHandler(ListPromptsRequestSchema, async () => {
+  return {
+    prompts: Object.entries(prompts).map(([name, prompt]) => ({
+      name,
+      description: prompt.description,
+      arguments: prompt.arguments,
+    })),
+  };
+});
+
+// Render a prompt with the clusters of its run embedded
+server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+  const { name, arguments: args = {} } = request.params;
+  const { description, text } = await renderPrompt(name, args);
+  if (args.input_file !== undefined) {
+    // Clustering the input file stored a new run
+    server.sendResourceListChanged().catch(console.error);
+  }
+  return {
+    description,
+    messages: [
+      { role: "user" as const, content: { type: "text" as const, text } },
+    ],
+  };
+});
+
+// Execute tool
+server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  const { name, arguments: args } = request.params;
+  if (!TOOL_NAMES.includes(name)) {
+    throw new Error(`Unknown tool: ${name}`);
+  }
+  const onProgress = progressNotifier(request.params._meta?.progressToken);
+
   try {
-    const result = runClustering(input_file, output_clusters, output_overlap);
+    switch (name) {
+      case "cluster_keywords": {
+        const clustering = clusteringRequest(
+          args as unknown as ClusterKeywordsArgs
+        );
+        return jsonResponse(
+          await runClusteringRequest(clustering, { onProgress })
+        );
+      }
 
-    return {
-      content: [
-        {
-          type: "text" as const,
-          text: JSON.stringify(result, null, 2),
-        },
-      ],
-    };
+      case "start_clustering_job": {
+        const clustering = clusteringRequest(
+          args as unknown as ClusterKeywordsArgs
+        );
+        const job = startJob(
+          (signal, onJobProgress) =>
+            runClusteringRequest(clustering, {
+              signal,
+              onProgress: onJobProgress,
+            }),
+          jobProgressLogger
+        );
+        return jsonResponse(job);
+      }
+
+      case "cluster_markets": {
+        const marketArgs = args as unknown as ClusterMarketsArgs;
+        const { input, fetch, outputClusters, outputOverlap, options } =
+          clusteringRequest(marketArgs);
+        if (fetch) {
+          throw new Error("cluster_markets takes input_file or serp_data");
+        }
+        const report = await clusterMarkets(
+          input!,
+          outputClusters,
+          outputOverlap,
+          {
+            ...options,
+            onProgress,
+            markets: marketArgs.markets,
+            baseline: marketArgs.baseline,
+            compare: marketArgs.compare,
+          }
+        );
+        server.sendResourceListChanged().catch(console.error);
+        return jsonResponse(report);
+      }
+
+      case "get_clustering_job": {
+        const { job_id } = args as { job_id: string };
+        const job = getJob(job_id);
+        if (!job) {
+          return errorResponse(`Unknown job: ${job_id}`);
+        }
+        return jsonResponse(job);
+      }
+
+      case "cancel_clustering_job": {
+        const { job_id } = args as { job_id: string };
+        return jsonResponse(cancelJob(job_id));
+      }
+
+      case "compare_serp_snapshots": {
+        const compareArgs = args as unknown as CompareSnapshotsArgs;
+        const before = serpInput(
+          compareArgs.before_file,
+          compareArgs.before_serp_data,
+          ["before_file", "before_serp_data"]
+        );
+        const after = serpInput(
+          compareArgs.after_file,
+          compareArgs.after_serp_data,
+          ["after_file", "after_serp_data"]
+        );
+        return jsonResponse(
+          await compareSerpSnapshots(
+            before,
+            after,
+            compareArgs.output_drift,
+            clusteringOptions(compareArgs)
+          )
+        );
+      }
+
+      case "sweep_thresholds": {
+        const sweepArgs = args as unknown as SweepThresholdsArgs;
+        const input = serpInput(sweepArgs.input_file, sweepArgs.serp_data, [
+          "input_file",
+          "serp_data",
+        ]);
+        return jsonResponse(
+          await sweepThresholds(input, sweepArgs.output_sweep, {
+            ...clusteringOptions(sweepArgs),
+            minOverlapValues: sweepArgs.min_overlap_values,
+            minOverlapScoreValues: sweepArgs.min_overlap_score_values,
+            similarities: sweepArgs.similarities,
+          })
+        );
+      }
+
+      case "explain_clustering": {
+        const explainArgs = args as unknown as ExplainClusteringArgs;
+        const input = serpInput(explainArgs.input_file, explainArgs.serp_data, [
+          "input_file",
+          "serp_data",
+        ]);
+        return jsonResponse(
+          await explainClustering(input, {
+            ...clusteringOptions(explainArgs),
+            keyword: explainArgs.keyword,
+            clusterId: explainArgs.cluster_id,
+            limit: explainArgs.limit,
+          })
+        );
+      }
+
+      case "fetch_serps": {
+        const fetchArgs = args as unknown as FetchSerpsArgs;
+        return jsonResponse(
+          await fetchSerps(
+            fetchArgs.keywords,
+            fetchArgs.output_file,
+            fetchOptions(fetchArgs)
+          )
+        );
+      }
+
+      default:
+        return errorResponse(`Unknown tool: ${name}`);
+    }
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
-    return {
-      content: [
-        {
-          type: "text" as const,
-          text: JSON.stringify({ error: message }, null, 2),
-        },
-      ],
-      isError: true,
-    };
+    return errorResponse(message);
   }
 });
 
@@ -0,0 +1,398 @@
+/**
+ * Search Intent Module
+ *
+ * Classifies each cluster as informational, commercial, transactional or
+ * navigational from keyword modifiers and the page types of its ranking
+ * URLs. Rule sets are defined per language and can be extended per run.
+ */
+
+export type SearchIntent =
+  | "informational"
+  | "commercial"
+  | "transactional"
+  | "navigational";
+
+export const SEARCH_INTENTS: SearchIntent[] = [
+  "informational",
+  "commercial",
+  "transactional",
+  "navigational",
+];
+
+/**
+ * Intent rules for one language.
+ * modifiers are words or phrases matched on word boundaries in keywords;
+ * urlPatterns are regular expressions matched against ranking URLs.
+ */
+export interface IntentRules {
+  modifiers: Partial<Record<SearchIntent, string[]>>;
+  urlPatterns: Partial<Record<SearchIntent, string[]>>;
+  /** Brand terms; keywords containing them count as navigational. */
+  brands?: string[];
+}
+
+export interface IntentClassification {
+  intent: SearchIntent;
+  /** Share of the combined signal won by the chosen intent (0-1). */
+  confidence: number;
+}
+
+/** Page-type URL patterns shared by all languages. */
+const URL_PATTERNS: Partial<Record<SearchIntent, string[]>> = {
+  informational: [
+    "/blog/",
+    "/guides?/",
+    "/how-to",
+    "/wiki/",
+    "/learn/",
+    "/articles?/",
+    "/faq",
+    "/news/",
+    "/tutorials?/",
+  ],
+  commercial: [
+    "/reviews?/",
+    "-reviews?(/|$)",
+    "/best-",
+    "/top-",
+    "-vs-",
+    "/compare",
+    "/comparison",
+    "/alternatives",
+  ],
+  transactional: [
+    "/products?/",
+    "/p/",
+    "/dp/",
+    "/item/",
+    "/shop/",
+    "/store/",
+    "/cart",
+    "/checkout",
+    "/buy",
+    "/pricing",
+    "/categor(y|ies)/",
+    "/collections/",
+  ],
+  navigational: ["^https?://[^/]+/?$", "/login", "/sign-?in", "/account"],
+};
+
+/**
+ * Built-in rule sets keyed by language code.
+ */
+export const INTENT_RULES: Record<string, IntentRules> = {
+  en: {
+    modifiers: {
+      informational: [
+        "how to",
+        "how do",
+        "what is",
+        "what are",
+        "why",
+        "when",
+        "guide",
+        "tutorial",
+        "ideas",
+        "tips",
+        "examples",
+        "meaning",
+        "definition",
+      ],
+      commercial: [
+        "best",
+        "top",
+        "review",
+        "reviews",
+        "vs",
+        "versus",
+        "compare",
+        "comparison",
+        "alternative",
+        "alternatives",
+      ],
+      transactional: [
+        "buy",
+        "price",
+        "prices",
+        "pricing",
+        "cheap",
+        "deal",
+        "deals",
+        "discount",
+        "coupon",
+        "order",
+        "for sale",
+        "near me",
+        "shop",
+      ],
+      navigational: ["login", "sign in", "official site", "website"],
+    },
+    urlPatterns: URL_PATTERNS,
+  },
+  de: {
+    modifiers: {
+      informational: [
+        "wie",
+        "was ist",
+        "warum",
+        "anleitung",
+        "tipps",
+        "ratgeber",
+        "bedeutung",
+      ],
+      commercial: [
+        "beste",
+        "besten",
+        "test",
+        "testsieger",
+        "vergleich",
+        "erfahrungen",
+        "bewertung",
+        "alternative",
+      ],
+      transactional: [
+        "kaufen",
+        "bestellen",
+        "preis",
+        "preise",
+        "günstig",
+        "angebot",
+        "gutschein",
+        "online shop",
+      ],
+      navigational: ["login", "anmelden", "offizielle seite"],
+    },
+    urlPatterns: URL_PATTERNS,
+  },
+  es: {
+    modifiers: {
+      informational: [
+        "cómo",
+        "como",
+        "qué es",
+        "que es",
+        "por qué",
+        "guía",
+        "consejos",
+        "significado",
+      ],
+      commercial: [
+        "mejor",
+        "mejores",
+        "opiniones",
+        "reseña",
+        "comparativa",
+        "vs",
+        "alternativa",
+      ],
+      transactional: [
+        "comprar",
+        "precio",
+        "precios",
+        "barato",
+        "baratos",
+        "oferta",
+        "ofertas",
+        "descuento",
+        "tienda",
+      ],
+      navigational: ["iniciar sesión", "login", "sitio oficial"],
+    },
+    urlPatterns: URL_PATTERNS,
+  },
+  ru: {
+    modifiers: {
+      informational: [
+        "как",
+        "что такое",
+        "почему",
+        "зачем",
+        "инструкция",
+        "советы",
+        "своими руками",
+      ],
+      commercial: [
+        "лучшие",
+        "лучший",
+        "топ",
+        "рейтинг",
+        "отзывы",
+        "обзор",
+        "сравнение",
+        "или",
+      ],
+      transactional: [
+        "купить",
+        "цена",
+        "цены",
+        "стоимость",
+        "заказать",
+        "недорого",
+        "дешево",
+        "доставка",
+        "интернет магазин",
+      ],
+      navigational: ["вход", "личный кабинет", "официальный сайт"],
+    },
+    urlPatterns: URL_PATTERNS,
+  },
+};
+
+export const DEFAULT_INTENT_LANGUAGE = "en";
+
+/** Relative weight of keyword modifiers vs ranking URL page types. */
+const KEYWORD_WEIGHT = 0.5;
+const URL_WEIGHT = 0.5;
+
+/**
+ * Resolve the rules for a language, merged with per-run custom rules.
+ * Custom modifiers, patterns and brands are added to the built-in ones.
+ * Throws on unknown languages, unknown intents or invalid patterns.
+ */
+export function resolveIntentRules(
+  language: string = DEFAULT_INTENT_LANGUAGE,
+  custom: Partial<IntentRules> = {}
+): IntentRules {
+  const base = INTENT_RULES[language];
+  if (!base) {
+    throw new Error(
+      `intent language must be one of ${Object.keys(INTENT_RULES).join(
+        ", "
+      )}, got ${language}`
+    );
+  }
+
+  for (const [name, lists] of [
+    ["modifiers", custom.modifiers ?? {}],
+    ["urlPatterns", custom.urlPatterns ?? {}],
+    ["brands", { navigational: custom.brands ?? [] }],
+  ] as const) {
+    for (const [intent, list] of Object.entries(lists)) {
+      if (!SEARCH_INTENTS.includes(intent as SearchIntent)) {
+        throw new Error(
+          `intent rules ${name} must be keyed by ${SEARCH_INTENTS.join(
+            ", "
+          )}, got ${intent}`
+        );
+      }
+      if (!Array.isArray(list) || list.some((v) => typeof v !== "string")) {
+        throw new Error(`intent rules ${name} must be lists of strings`);
+      }
+    }
+  }
+  for (const pattern of Object.values(custom.urlPatterns ?? {}).flat()) {
+    try {
+      new RegExp(pattern, "i");
+    } catch {
+      throw new Error(`invalid intent URL pattern: ${pattern}`);
+    }
+  }
+
+  const merge = (
+    a: Partial<Record<SearchIntent, string[]>>,
+    b: Partial<Record<SearchIntent, string[]>> = {}
+  ) =>
+    Object.fromEntries(
+      SEARCH_INTENTS.map((intent) => [
+        intent,
+        [...(a[intent] ?? []), ...(b[intent] ?? [])],
+      ])
+    ) as Record<SearchIntent, string[]>;
+
+  return {
+    modifiers: merge(base.modifiers, custom.modifiers),
+    urlPatterns: merge(base.urlPatterns, custom.urlPatterns),
+    brands: [...(base.brands ?? []), ...(custom.brands ?? [])],
+  };
+}
+
+/**
+ * Whether a phrase occurs in text on word boundaries (Unicode-aware).
+ */
+function containsPhrase(text: string, phrase: string): boolean {
+  const escaped = phrase.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(
+    `(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`,
+    "u"
+  ).test(text);
+}
+
+/**
+ * Classify a cluster's intent.
+ *
+ * Each intent scores the share of keywords carrying one of its modifiers
+ * (or a matching intent label from keyword metrics) plus the share of
+ * ranking URLs matching its page-type patterns. Without any signal the
+ * cluster is informational with zero confidence.
+ */
+export function classifyIntent(
+  keywords: string[],
+  urls: string[],
+  rules: IntentRules,
+  keywordIntents: (string | null | undefined)[] = []
+): IntentClassification {
+  const scores = new Map<SearchIntent, number>(
+    SEARCH_INTENTS.map((intent) => [intent, 0])
+  );
+  const add = (intent: SearchIntent, value: number) =>
+    scores.set(intent, scores.get(intent)! + value);
+
+  if (keywords.length > 0) {
+    keywords.forEach((keyword, i) => {
+      const text = keyword.toLowerCase();
+      const matched = new Set<SearchIntent>();
+      for (const intent of SEARCH_INTENTS) {
+        if (
+          (rules.modifiers[intent] ?? []).some((m) => containsPhrase(text, m))
+        ) {
+          matched.add(intent);
+        }
+      }
+      if ((rules.brands ?? []).some((b) => containsPhrase(text, b))) {
+        matched.add("navigational");
+      }
+      const labelled = keywordIntents[i]?.toLowerCase();
+      for (const intent of SEARCH_INTENTS) {
+        if (labelled?.includes(intent)) {
+          matched.add(intent);
+        }
+      }
+      for (const intent of matched) {
+        add(intent, KEYWORD_WEIGHT / keywords.length);
+      }
+    });
+  }
+
+  if (urls.length > 0) {
+    const patterns = SEARCH_INTENTS.map(
+      (intent) =>
+        [
+          intent,
+          (rules.urlPatterns[intent] ?? []).map((p) => new RegExp(p, "i")),
+        ] as const
+    );
+    for (const url of urls) {
+      for (const [intent, regexes] of patterns) {
+        if (regexes.some((re) => re.test(url))) {
+          add(intent, URL_WEIGHT / urls.length);
+        }
+      }
+    }
+  }
+
+  const total = Array.from(scores.values()).reduce((sum, s) => sum + s, 0);
+  if (total === 0) {
+    return { intent: "informational", confidence: 0 };
+  }
+
+  let best: SearchIntent = SEARCH_INTENTS[0];
+  for (const intent of SEARCH_INTENTS) {
+    if (scores.get(intent)! > scores.get(best)!) {
+      best = intent;
+    }
+  }
+  return {
+    intent: best,
+    confidence: Math.round((scores.get(best)! / total) * 100) / 100,
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * Clustering Jobs Module
+ *
+ * Runs clustering in the background so long runs do not hold a tool call
+ * open. Jobs can be polled and cancelled; finished jobs keep their result
+ * until they are evicted by newer ones.
+ */
+
+import { randomUUID } from "crypto";
+import type {
+  ClusteringProgress,
+  ClusteringResult,
+  ClusteringStage,
+} from "./cluster.js";
+
+export type JobStatus = "running" | "completed" | "failed" | "cancelled";
+
+/**
+ * Job state as reported by the status tool.
+ */
+export interface JobSnapshot {
+  job_id: string;
+  status: JobStatus;
+  stage: ClusteringStage | null;
+  progress: number;
+  total: number;
+  messages: string[];
+  started_at: string;
+  finished_at: string | null;
+  result?: ClusteringResult;
+  error?: string;
+}
+
+interface Job {
+  snapshot: JobSnapshot;
+  controller: AbortController;
+}
+
+/**
+ * Starts the actual work; receives the job's abort signal and a progress
+ * callback to pass on to runClustering.
+ */
+export type JobRunner = (
+  signal: AbortSignal,
+  onProgress: (progress: ClusteringProgress) => void
+) => Promise<ClusteringResult>;
+
+/** Finished jobs kept for retrieval; the oldest are evicted first. */
+export const MAX_FINISHED_JOBS = 100;
+
+const jobs = new Map<string, Job>();
+
+/**
+ * Drop the oldest finished jobs beyond MAX_FINISHED_JOBS.
+ */
+function evictFinishedJobs(): void {
+  const finished = Array.from(jobs.values()).filter(
+    (job) => job.snapshot.status !== "running"
+  );
+  for (const job of finished.slice(
+    0,
+    Math.max(0, finished.length - MAX_FINISHED_JOBS)
+  )) {
+    jobs.delete(job.snapshot.job_id);
+  }
+}
+
+/**
+ * Start a background job and return its initial snapshot. Progress is
+ * recorded in the snapshot, for getJob to report, and onProgress is
+ * called after each stage is recorded.
+ */
+export function startJob(
+  run: JobRunner,
+  onProgress?: (progress: ClusteringProgress, jobId: string) => void
+): JobSnapshot {
+  const snapshot: JobSnapshot = {
+    job_id: randomUUID(),
+    status: "running",
+    stage: null,
+    progress: 0,
+    total: 0,
+    messages: [],
+    started_at: new Date().toISOString(),
+    finished_at: null,
+  };
+  const controller = new AbortController();
+  jobs.set(snapshot.job_id, { snapshot, controller });
+
+  const finish = (status: JobStatus) => {
+    snapshot.status = status;
+    snapshot.finished_at = new Date().toISOString();
+    evictFinishedJobs();
+  };
+
+  run(controller.signal, (progress) => {
+    snapshot.stage = progress.stage;
+    snapshot.progress = progress.progress;
+    snapshot.total = progress.total;
+    snapshot.messages.push(progress.message);
+    onProgress?.(progress, snapshot.job_id);
+  }).then(
+    (result) => {
+      snapshot.result = result;
+      snapshot.progress = snapshot.total;
+      finish("completed");
+    },
+    (error: unknown) => {
+      if (controller.signal.aborted) {
+        finish("cancelled");
+        return;
+      }
+      snapshot.error = error instanceof Error ? error.message : String(error);
+      finish("failed");
+    }
+  );
+
+  return { ...snapshot };
+}
+
+/**
+ * Current state of a job, or undefined for unknown (or evicted) IDs.
+ */
+export function getJob(jobId: string): JobSnapshot | undefined {
+  const job = jobs.get(jobId);
+  return job && { ...job.snapshot, messages: [...job.snapshot.messages] };
+}
+
+/**
+ * Cancel a running job. The job stops at its next stage boundary.
+ * Throws if the job is unknown or has already finished.
+ */
+export function cancelJob(jobId: string): JobSnapshot {
+  const job = jobs.get(jobId);
+  if (!job) {
+    throw new Error(`Unknown job: ${jobId}`);
+  }
+  if (job.snapshot.status !== "running") {
+    throw new Error(`Job ${jobId} is already ${job.snapshot.status}`);
+  }
+  job.controller.abort();
+  return getJob(jobId)!;
+}
@@ -0,0 +1,267 @@
+/**
+ * Per-Market Clustering Module
+ *
+ * Clusters each market (location, language, device, date) of a SERP input
+ * on its own, and compares each market's clusters with a baseline market,
+ * showing which keywords are grouped differently between markets.
+ */
+
+import { extname } from "path";
+import {
+  resolveClusteringOptions,
+  runClustering,
+  type ClusteringOptions,
+  type ClusteringParameters,
+  type ClusteringResult,
+  type SerpInput,
+} from "./cluster.js";
+import {
+  MARKET_DIMENSIONS,
+  marketLabel,
+  marketOf,
+  resolveMarket,
+  type Market,
+} from "./dimensions.js";
+import {
+  clusteredSnapshot,
+  compareClusteredSnapshots,
+  type ClusteredSnapshot,
+  type ClusterMerge,
+  type ClusterSplit,
+} from "./drift.js";
+import { streamSerpFile, type SerpFormat } from "./importers.js";
+
+export interface MarketClusteringOptions extends ClusteringOptions {
+  /** Markets to cluster (default: every market in the input). */
+  markets?: Market[];
+  /** Market the others are compared with (default: the first market). */
+  baseline?: Market;
+  /** Compare each market's clusters with the baseline (default true). */
+  compare?: boolean;
+}
+
+/**
+ * Clustering run of one market.
+ */
+export interface MarketRun {
+  market: Market;
+  label: string;
+  run_id?: string;
+  keywords: number;
+  clusters_created: number;
+  quality: ClusteringResult["quality"];
+  output_files: ClusteringResult["output_files"];
+}
+
+/**
+ * How a market's clusters differ from the baseline's, as in
+ * compare_serp_snapshots with the baseline as the earlier snapshot.
+ */
+export interface MarketComparison {
+  baseline: string;
+  market: string;
+  keywords_compared: number;
+  keywords_only_baseline: string[];
+  keywords_only_market: string[];
+  clusters_baseline: number;
+  clusters_market: number;
+  /** Keywords not in the market cluster that took over their baseline cluster. */
+  moved_keywords: string[];
+  split_clusters: ClusterSplit[];
+  merged_clusters: ClusterMerge[];
+  avg_url_churn: number;
+  avg_rank_volatility: number;
+}
+
+export interface MarketClusteringReport {
+  success: boolean;
+  message: string;
+  /** Parameters shared by all markets. */
+  parameters: ClusteringParameters;
+  markets: MarketRun[];
+  /** One per market other than the baseline; null without comparison. */
+  comparisons: MarketComparison[] | null;
+}
+
+/** Largest number of markets clustered in one call. */
+export const MAX_MARKETS = 50;
+
+/**
+ * Markets of a SERP input, in order of first appearance.
+ */
+export async function listMarkets(
+  input: string | SerpInput,
+  format: SerpFormat | "auto" = "auto",
+  signal?: AbortSignal
+): Promise<Market[]> {
+  const markets = new Map<string, Market>();
+  const add = (row: Market) => {
+    const market = marketOf(row);
+    markets.set(marketLabel(market), market);
+  };
+  if (typeof input === "string") {
+    for await (const row of (await streamSerpFile(input, format)).rows) {
+      signal?.throwIfAborted();
+      add(row);
+    }
+  } else if (Array.isArray(input)) {
+    input.forEach(add);
+  } else {
+    add({});
+  }
+  return Array.from(markets.values());
+}
+
+/**
+ * Output path of a market: its dimensions and values are added before the
+ * extension, e.g. clusters.csv -> clusters.location-us.device-mobile.csv.
+ */
+export function marketOutputPath(filepath: string, market: Market): string {
+  const suffix =
+    MARKET_DIMENSIONS.filter((dimension) => market[dimension] !== undefined)
+      .map(
+        (dimension) =>
+          `${dimension}-${market[dimension]!.replace(
+            /[^a-z0-9]+/g,
+            "-"
+          ).replace(/^-+|-+$/g, "")}`
+      )
+      .join(".") || "all";
+  const extension = extname(filepath);
+  return `${filepath.slice(
+    0,
+    filepath.length - extension.length
+  )}.${suffix}${extension}`;
+}
+
+/**
+ * Cluster every market of the input separately, with the same options,
+ * and compare each market's clusters with the baseline market's. Output
+ * files get one file per market (see marketOutputPath).
+ */
+export async function clusterMarkets(
+  input: string | SerpInput,
+  outputClusters?: string,
+  outputOverlap?: string,
+  options: MarketClusteringOptions = {}
+): Promise<MarketClusteringReport> {
+  const { markets: selected, baseline, compare = true, ...base } = options;
+  if (base.market) {
+    throw new Error("Select the markets to cluster with markets, not market");
+  }
+  const parameters = resolveClusteringOptions(base);
+  if (selected !== undefined && !Array.isArray(selected)) {
+    throw new Error("markets must be a list of markets");
+  }
+  const markets =
+    selected?.map(resolveMarket) ??
+    (await listMarkets(input, base.inputFormat, base.signal));
+  if (markets.length === 0) {
+    throw new Error("markets must name at least one market");
+  }
+  if (markets.length > MAX_MARKETS) {
+    throw new Error(
+      `Input covers ${markets.length} markets; at most ${MAX_MARKETS} can be clustered at once`
+    );
+  }
+  const baselineMarket = baseline ? resolveMarket(baseline) : markets[0];
+  const baselineLabel = marketLabel(baselineMarket);
+  if (compare && !markets.some((m) => marketLabel(m) === baselineLabel)) {
+    throw new Error(
+      `baseline ${baselineLabel} must be one of the clustered markets`
+    );
+  }
+  for (const outputFile of [outputClusters, outputOverlap]) {
+    const paths = new Map<string, string>();
+    for (const market of outputFile ? markets : []) {
+      const path = marketOutputPath(outputFile!, market);
+      const other = paths.get(path);
+      if (other !== undefined) {
+        throw new Error(
+          `Markets ${other} and ${marketLabel(
+            market
+          )} would both be written to ${path}`
+        );
+      }
+      paths.set(path, marketLabel(market));
+    }
+  }
+
+  const messages: string[] = [
+    `Clustering ${markets.length} markets: ${markets
+      .map(marketLabel)
+      .join("; ")}`,
+  ];
+  const runs: MarketRun[] = [];
+  const snapshots = new Map<string, ClusteredSnapshot>();
+  for (const market of markets) {
+    const label = marketLabel(market);
+    const result = await runClustering(
+      input,
+      outputClusters && marketOutputPath(outputClusters, market),
+      outputOverlap && marketOutputPath(outputOverlap, market),
+      {
+        ...base,
+        market,
+        onClusters: compare
+          ? (clusters, serpData) =>
+              snapshots.set(label, clusteredSnapshot(serpData, clusters))
+          : undefined,
+      }
+    );
+    runs.push({
+      market,
+      label,
+      run_id: result.run_id,
+      keywords: result.quality.keywords,
+      clusters_created: result.clusters_created,
+      quality: result.quality,
+      output_files: result.output_files,
+    });
+    messages.push(
+      `  ${label}: ${result.quality.keywords} keywords in ${result.clusters_created} clusters`
+    );
+  }
+
+  let comparisons: MarketComparison[] | null = null;
+  if (compare) {
+    comparisons = [];
+    const baselineSnapshot = snapshots.get(baselineLabel)!;
+    messages.push(`Compared with ${baselineLabel}:`);
+    for (const [label, snapshot] of snapshots) {
+      if (label === baselineLabel) {
+        continue;
+      }
+      const drift = compareClusteredSnapshots(
+        baselineSnapshot,
+        snapshot,
+        parameters.max_position
+      );
+      comparisons.push({
+        baseline: baselineLabel,
+        market: label,
+        keywords_compared: drift.keywords_compared,
+        keywords_only_baseline: drift.keywords_only_before,
+        keywords_only_market: drift.keywords_only_after,
+        clusters_baseline: drift.clusters_before,
+        clusters_market: drift.clusters_after,
+        moved_keywords: drift.moved_keywords,
+        split_clusters: drift.split_clusters,
+        merged_clusters: drift.merged_clusters,
+        avg_url_churn: drift.avg_url_churn,
+        avg_rank_volatility: drift.avg_rank_volatility,
+      });
+      messages.push(
+        `  ${label}: ${drift.moved_keywords.length} of ${drift.keywords_compared} shared keywords moved, ${drift.split_clusters.length} clusters split, ${drift.merged_clusters.length} merged, average URL churn ${drift.avg_url_churn}`
+      );
+    }
+  }
+
+  return {
+    success: true,
+    message: messages.join("\n"),
+    parameters,
+    markets: runs,
+    comparisons,
+  };
+}
@@ -0,0 +1,226 @@
+/**
+ * Keyword Metrics Module
+ *
+ * Loads optional per-keyword metrics (search volume, difficulty, CPC,
+ * intent) and picks each cluster's primary keyword from them.
+ */
+
+import { readFileSync } from "fs";
+import { parse } from "csv-parse/sync";
+import { decodeContent, detectDelimiter } from "./importers.js";
+
+export interface KeywordMetrics {
+  volume?: number;
+  difficulty?: number;
+  cpc?: number;
+  intent?: string;
+}
+
+export type MetricsData = Map<string, KeywordMetrics>;
+
+/**
+ * How a cluster's primary keyword is chosen:
+ * - volume: highest search volume
+ * - difficulty: lowest keyword difficulty
+ * - cpc: highest cost per click
+ * - alphabetical: first keyword alphabetically
+ * Keywords without the metric rank last; ties fall back to alphabetical.
+ */
+export type PrimaryKeywordRule =
+  | "volume"
+  | "difficulty"
+  | "cpc"
+  | "alphabetical";
+
+export const PRIMARY_KEYWORD_RULES: PrimaryKeywordRule[] = [
+  "volume",
+  "difficulty",
+  "cpc",
+  "alphabetical",
+];
+
+/**
+ * Accepted column names per metric, compared case-insensitively.
+ * Covers common keyword tool exports.
+ */
+export const METRIC_COLUMNS: Record<keyof KeywordMetrics, string[]> = {
+  volume: ["volume", "search_volume", "search volume", "avg_monthly_searches"],
+  difficulty: ["difficulty", "keyword_difficulty", "keyword difficulty", "kd"],
+  cpc: ["cpc", "cpc (usd)"],
+  intent: ["intent", "search_intent", "search intent", "keyword intents"],
+};
+
+/**
+ * Parse a numeric metric, tolerating thousands separators, decimal commas
+ * and currency signs. A comma after the last dot is a decimal comma
+ * ("1,50", "1.234,50") unless it groups thousands ("12,000").
+ */
+function parseMetric(value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const cleaned = value.replace(/[\s$€£%]/g, "");
+  if (cleaned === "") {
+    return undefined;
+  }
+  const decimalComma =
+    cleaned.lastIndexOf(",") > cleaned.lastIndexOf(".") &&
+    !/^-?\d{1,3}(,\d{3})+$/.test(cleaned);
+  const parsed = Number(
+    decimalComma
+      ? cleaned.replace(/\./g, "").replace(",", ".")
+      : cleaned.replace(/,/g, "")
+  );
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Load keyword metrics from a CSV file.
+ *
+ * Works both for a dedicated metrics file and for a SERP export carrying
+ * metric columns inline (one row per result). Encodings and delimiters
+ * are detected as for SERP files. Returns an empty map if no metric
+ * columns exist.
+ */
+export function loadKeywordMetrics(filepath: string): MetricsData {
+  const content = decodeContent(readFileSync(filepath));
+  const records = parse(content, {
+    columns: true,
+    delimiter: detectDelimiter(content.split(/\r?\n/, 1)[0]),
+    skip_empty_lines: true,
+    trim: true,
+  }) as Array<Record<string, string>>;
+
+  return extractKeywordMetrics(records);
+}
+
+/**
+ * Extract keyword metrics from row objects (parsed CSV or inline rows).
+ * Column names are matched case-insensitively; the first non-empty value
+ * seen for a keyword wins.
+ */
+export function extractKeywordMetrics(
+  records: Array<Record<string, unknown>>
+): MetricsData {
+  const metrics: MetricsData = new Map();
+  if (records.length === 0) {
+    return metrics;
+  }
+
+  const rows = records.map(
+    (record) =>
+      new Map(
+        Object.entries(record).map(([key, value]) => [
+          key.trim().toLowerCase(),
+          value === undefined || value === null ? "" : String(value).trim(),
+        ])
+      )
+  );
+
+  const headers = new Set(rows.flatMap((row) => Array.from(row.keys())));
+  const columnFor = (field: keyof KeywordMetrics) =>
+    METRIC_COLUMNS[field].find((name) => headers.has(name));
+  const columns = {
+    volume: columnFor("volume"),
+    difficulty: columnFor("difficulty"),
+    cpc: columnFor("cpc"),
+    intent: columnFor("intent"),
+  };
+
+  if (!headers.has("keyword") || !Object.values(columns).some(Boolean)) {
+    return metrics;
+  }
+
+  for (const row of rows) {
+    const keyword = row.get("keyword");
+    if (!keyword) {
+      continue;
+    }
+    addKeywordMetrics(metrics, keyword, {
+      volume: columns.volume && row.get(columns.volume),
+      difficulty: columns.difficulty && row.get(columns.difficulty),
+      cpc: columns.cpc && row.get(columns.cpc),
+      intent: columns.intent && row.get(columns.intent),
+    });
+  }
+
+  return metrics;
+}
+
+/**
+ * Add one row's raw metric values for a keyword. The first non-empty value
+ * seen per field wins, so rows can be fed in one at a time while streaming.
+ */
+export function addKeywordMetrics(
+  metrics: MetricsData,
+  keyword: string,
+  values: Partial<Record<keyof KeywordMetrics, unknown>>
+): void {
+  const text = (value: unknown) =>
+    value === undefined || value === null ? undefined : String(value).trim();
+
+  const volume = parseMetric(text(values.volume));
+  const difficulty = parseMetric(text(values.difficulty));
+  const cpc = parseMetric(text(values.cpc));
+  const intent = text(values.intent);
+  const entry = metrics.get(keyword) ?? {};
+  entry.volume ??= volume;
+  entry.difficulty ??= difficulty;
+  entry.cpc ??= cpc;
+  if (entry.intent === undefined && intent) {
+    entry.intent = intent;
+  }
+  metrics.set(keyword, entry);
+}
+
+/**
+ * Merge metric sources. Later sources override earlier ones per field.
+ */
+export function mergeMetrics(...sources: MetricsData[]): MetricsData {
+  const merged: MetricsData = new Map();
+  for (const source of sources) {
+    for (const [keyword, metrics] of source) {
+      const entry = { ...merged.get(keyword) };
+      for (const [field, value] of Object.entries(metrics)) {
+        if (value !== undefined) {
+          (entry as Record<string, unknown>)[field] = value;
+        }
+      }
+      merged.set(keyword, entry);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Pick the primary keyword of a cluster according to the rule.
+ * keywords must be sorted alphabetically.
+ */
+export function selectPrimaryKeyword(
+  keywords: string[],
+  metrics: MetricsData,
+  rule: PrimaryKeywordRule = "volume"
+): string {
+  if (rule === "alphabetical") {
+    return keywords[0];
+  }
+
+  // Higher is better; missing values rank last
+  const score = (kw: string): number => {
+    const m = metrics.get(kw);
+    const value =
+      rule === "volume" ? m?.volume : rule === "cpc" ? m?.cpc : m?.difficulty;
+    if (value === undefined) {
+      return -Infinity;
+    }
+    return rule === "difficulty" ? -value : value;
+  };
+
+  let best = keywords[0];
+  for (const kw of keywords.slice(1)) {
+    if (score(kw) > score(best)) {
+      best = kw;
+    }
+  }
+  return best;
+}
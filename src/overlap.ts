@@ -0,0 +1,238 @@
+/**
+ * Overlap Matrix Module
+ *
+ * Computes keyword pair overlap through an inverted URL index, so only
+ * pairs that actually share a URL are compared, and stores the result in
+ * typed arrays instead of a Map keyed by "kw1|kw2" strings.
+ */
+
+import type { SerpData, SerpResult } from "./cluster.js";
+import { rankUrls, type SimilarityFunction } from "./similarity.js";
+
+export interface OverlapData {
+  sharedUrls: string[];
+  count: number;
+  overlapScore: number;
+}
+
+/**
+ * Sparse, symmetric overlap matrix.
+ *
+ * Pairs are stored once (first < second, by keyword index) in row order:
+ * the pairs of keyword i are rowStart[i] .. rowStart[i + 1] - 1, sorted by
+ * second. Shared URL lists are rebuilt on demand from the URL rankings.
+ */
+export interface OverlapMatrix {
+  /** Keywords in SERP data order; pairs refer to them by index. */
+  keywords: string[];
+  /** Number of stored pairs. */
+  size: number;
+  rowStart: Uint32Array;
+  first: Uint32Array;
+  second: Uint32Array;
+  counts: Uint32Array;
+  scores: Float64Array;
+  /** URL ids per keyword, deduplicated and ordered by position. */
+  rankings: Uint32Array[];
+  /** URL table indexed by URL id. */
+  urls: string[];
+}
+
+/**
+ * Optional pruning while building: pairs below either threshold are not
+ * stored. Clusters are unaffected, but overlap outputs list fewer pairs.
+ */
+export interface OverlapPruning {
+  minOverlap?: number;
+  minOverlapScore?: number;
+}
+
+/**
+ * Growable typed array used while pairs are collected.
+ */
+function pairBuffer<T extends Uint32Array | Float64Array>(
+  create: (size: number) => T
+) {
+  let data = create(1024);
+  let length = 0;
+  return {
+    push(value: number): void {
+      if (length === data.length) {
+        const grown = create(data.length * 2);
+        grown.set(data);
+        data = grown;
+      }
+      data[length++] = value;
+    },
+    get length(): number {
+      return length;
+    },
+    toArray(): T {
+      return data.slice(0, length) as T;
+    },
+  };
+}
+
+/**
+ * Build the overlap matrix for all keyword pairs sharing at least one URL.
+ *
+ * Each keyword's URLs are looked up in an inverted index (URL -> keywords),
+ * so the work grows with the number of shared URLs rather than with the
+ * square of the keyword count.
+ */
+export function buildOverlapMatrix(
+  serpData: SerpData,
+  measure: SimilarityFunction,
+  pruning: OverlapPruning = {}
+): OverlapMatrix {
+  const { minOverlap = 1, minOverlapScore = 0 } = pruning;
+  const keywords = Array.from(serpData.keys());
+  const n = keywords.length;
+
+  const urlIds = new Map<string, number>();
+  const urls: string[] = [];
+  const ranked: SerpResult[][] = [];
+  const rankings: Uint32Array[] = [];
+  const postings: number[][] = [];
+
+  keywords.forEach((kw, i) => {
+    const ranking = rankUrls(serpData.get(kw)!);
+    ranked.push(ranking);
+    rankings.push(
+      Uint32Array.from(ranking, ({ url }) => {
+        let id = urlIds.get(url);
+        if (id === undefined) {
+          id = urls.length;
+          urlIds.set(url, id);
+          urls.push(url);
+          postings.push([]);
+        }
+        // Keywords are visited in order, so postings stay sorted
+        postings[id].push(i);
+        return id;
+      })
+    );
+  });
+
+  const rowStart = new Uint32Array(n + 1);
+  const first = pairBuffer((size) => new Uint32Array(size));
+  const second = pairBuffer((size) => new Uint32Array(size));
+  const counts = pairBuffer((size) => new Uint32Array(size));
+  const scores = pairBuffer((size) => new Float64Array(size));
+
+  const shared = new Uint32Array(n);
+  const touched: number[] = [];
+
+  for (let i = 0; i < n; i++) {
+    rowStart[i] = first.length;
+
+    for (const id of rankings[i]) {
+      const posting = postings[id];
+      // Only later keywords; postings are sorted, so walk back from the end
+      for (let p = posting.length - 1; p >= 0 && posting[p] > i; p--) {
+        const j = posting[p];
+        if (shared[j] === 0) {
+          touched.push(j);
+        }
+        shared[j]++;
+      }
+    }
+
+    touched.sort((a, b) => a - b);
+    for (const j of touched) {
+      const count = shared[j];
+      shared[j] = 0;
+      if (count < minOverlap) {
+        continue;
+      }
+      const score = measure(ranked[i], ranked[j], count);
+      if (score < minOverlapScore) {
+        continue;
+      }
+      first.push(i);
+      second.push(j);
+      counts.push(count);
+      scores.push(score);
+    }
+    touched.length = 0;
+  }
+  rowStart[n] = first.length;
+
+  return {
+    keywords,
+    size: first.length,
+    rowStart,
+    first: first.toArray(),
+    second: second.toArray(),
+    counts: counts.toArray(),
+    scores: scores.toArray(),
+    rankings,
+    urls,
+  };
+}
+
+/**
+ * Index of the stored pair for two keyword indices, or -1.
+ */
+export function findPair(matrix: OverlapMatrix, i: number, j: number): number {
+  const [a, b] = i < j ? [i, j] : [j, i];
+  let lo = matrix.rowStart[a];
+  let hi = matrix.rowStart[a + 1] - 1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >>> 1;
+    const value = matrix.second[mid];
+    if (value === b) {
+      return mid;
+    }
+    if (value < b) {
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Shared URLs of a stored pair, in the first keyword's SERP order.
+ */
+export function pairSharedUrls(matrix: OverlapMatrix, pair: number): string[] {
+  const urls2 = new Set(matrix.rankings[matrix.second[pair]]);
+  return Array.from(matrix.rankings[matrix.first[pair]])
+    .filter((id) => urls2.has(id))
+    .map((id) => matrix.urls[id]);
+}
+
+/**
+ * Full overlap data of a stored pair.
+ */
+export function pairOverlap(matrix: OverlapMatrix, pair: number): OverlapData {
+  return {
+    sharedUrls: pairSharedUrls(matrix, pair),
+    count: matrix.counts[pair],
+    overlapScore: matrix.scores[pair],
+  };
+}
+
+/**
+ * Comparator of stored pair indices, strongest first: shared URL count,
+ * then overlap score (both descending), then storage order. The count
+ * leads, as in the reference script, so the similarity measure only
+ * orders pairs with equal counts; the reference keeps those in storage
+ * order.
+ */
+export function comparePairs(
+  matrix: OverlapMatrix
+): (a: number, b: number) => number {
+  const { counts, scores } = matrix;
+  return (a, b) => counts[b] - counts[a] || scores[b] - scores[a] || a - b;
+}
+
+/**
+ * Stored pair indices, strongest first (see comparePairs).
+ */
+export function sortedPairs(matrix: OverlapMatrix): Uint32Array {
+  return Uint32Array.from({ length: matrix.size }, (_, p) => p).sort(
+    comparePairs(matrix)
+  );
+}
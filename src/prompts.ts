@@ -0,0 +1,277 @@
+/**
+ * Prompts Module
+ *
+ * Prompt templates for SEO workflows built on a clustering run: a content
+ * calendar, a cannibalisation review and a site architecture proposal.
+ * Each prompt takes a stored run (run_id) or clusters an input file, and
+ * embeds the run's clusters in the instructions.
+ */
+
+import { existsSync } from "fs";
+import {
+  runClustering,
+  type ClusterOutput,
+  type ClusteringResult,
+} from "./cluster.js";
+import { getRunResult } from "./runs.js";
+
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+/**
+ * A prompt template. render gets the run to embed and the prompt
+ * arguments, and returns the prompt text.
+ */
+export interface PromptDefinition {
+  description: string;
+  arguments: PromptArgument[];
+  render: (run: PromptRun, args: Record<string, string>) => string;
+}
+
+/**
+ * The run a prompt is rendered for.
+ */
+export interface PromptRun {
+  runId: string;
+  result: ClusteringResult;
+  /** The clusters to embed: largest volume first, up to max_clusters. */
+  clusters: ClusterOutput[];
+}
+
+export const DEFAULT_PROMPT_MAX_CLUSTERS = 50;
+
+/** Arguments selecting the run, shared by all prompts. */
+const SOURCE_ARGUMENTS: PromptArgument[] = [
+  {
+    name: "run_id",
+    description:
+      "ID of a stored clustering run (from cluster_keywords or a clustering job). Use this or input_file",
+  },
+  {
+    name: "input_file",
+    description:
+      "SERP file to cluster with default parameters instead of using a stored run",
+  },
+  {
+    name: "max_clusters",
+    description: `Clusters embedded in the prompt, largest volume first (default ${DEFAULT_PROMPT_MAX_CLUSTERS})`,
+  },
+];
+
+const SITE_ARGUMENT: PromptArgument = {
+  name: "site_domain",
+  description:
+    "Our own domain, used with input_file to map clusters to existing pages",
+};
+
+/**
+ * The fields of a cluster a prompt needs, without per-keyword detail.
+ */
+function clusterDigest(cluster: ClusterOutput) {
+  return {
+    cluster_id: cluster.cluster_id,
+    primary_keyword: cluster.primary_keyword,
+    keywords: cluster.keywords.map((k) => k.keyword),
+    recommended_slug: cluster.recommended_slug,
+    total_volume: cluster.total_volume,
+    avg_difficulty: cluster.avg_difficulty,
+    intent: cluster.intent,
+    dominant_features: cluster.dominant_features,
+    shared_urls: cluster.shared_url_list.slice(0, 5),
+    ...(cluster.site_pages && {
+      existing_page: cluster.existing_page,
+      needs_new_page: cluster.needs_new_page,
+    }),
+  };
+}
+
+/**
+ * Header shared by all prompts: where the data comes from and how the
+ * clusters were built.
+ */
+function runContext({ runId, result, clusters }: PromptRun): string {
+  const { min_overlap, max_position, mode } = result.parameters;
+  return [
+    `The data below comes from SERP clustering run ${runId} (resource serp-clustering://runs/${runId}/clusters).`,
+    `Keywords were clustered by shared ranking URLs: keywords sharing at least ${min_overlap} URLs in the top ${max_position} results (${mode} mode) can be served by one page.`,
+    `The run has ${result.clusters_created} clusters; ${
+      clusters.length < result.clusters.length
+        ? `the ${clusters.length} with the largest search volume are shown`
+        : "all are shown"
+    }.`,
+  ].join("\n");
+}
+
+function jsonBlock(value: unknown): string {
+  return ["```json", JSON.stringify(value, null, 2), "```"].join("\n");
+}
+
+export const prompts: Record<string, PromptDefinition> = {
+  content_plan: {
+    description:
+      "Turn the clusters of a run into a content calendar prioritised by search volume",
+    arguments: [
+      ...SOURCE_ARGUMENTS,
+      SITE_ARGUMENT,
+      {
+        name: "cadence",
+        description:
+          'How much content is published, e.g. "2 articles per week" (default 2 per week)',
+      },
+    ],
+    render: (run, args) =>
+      [
+        "Turn these keyword clusters into a content calendar.",
+        "",
+        runContext(run),
+        "",
+        "Clusters:",
+        jsonBlock(run.clusters.map(clusterDigest)),
+        "",
+        "Work through these steps:",
+        "1. Treat every cluster as one page targeting its primary_keyword; its other keywords are secondary keywords for the same page.",
+        "2. Prioritise by total_volume, moving clusters with a low avg_difficulty up as quick wins. Skip single-keyword clusters with negligible volume.",
+        "3. Choose the content format from the intent and dominant_features (e.g. a comparison for commercial intent, a how-to with video for informational queries showing video results).",
+        "4. Where existing_page is set, plan an update of that page instead of a new one.",
+        `5. Schedule the pages at a cadence of ${
+          args.cadence ?? "2 articles per week"
+        }.`,
+        "",
+        "Answer with a table: week, cluster_id, working title, URL (/recommended_slug or the existing page), primary keyword, secondary keywords, intent, format, total_volume, avg_difficulty, new or update. Then list the clusters you left out and why.",
+      ].join("\n"),
+  },
+
+  cannibalisation_review: {
+    description:
+      "Review clusters where several of our pages compete, and our pages ranking in several clusters, and recommend fixes",
+    arguments: [...SOURCE_ARGUMENTS, SITE_ARGUMENT],
+    render: (run) => {
+      const { cannibalisation } = run.result;
+      if (!cannibalisation) {
+        throw new Error(
+          "cannibalisation_review needs a run mapped to our site (site_domain, site_urls or sitemap_file)"
+        );
+      }
+      const involved = new Set([
+        ...cannibalisation.clusters.map((c) => c.cluster_id),
+        ...cannibalisation.urls.flatMap((u) => u.cluster_ids),
+      ]);
+      return [
+        "Review keyword cannibalisation on our site and recommend how to fix it.",
+        "",
+        runContext(run),
+        "",
+        "Clusters in which more than one of our URLs ranks:",
+        jsonBlock(cannibalisation.clusters),
+        "",
+        "Our URLs that rank in more than one cluster:",
+        jsonBlock(cannibalisation.urls),
+        "",
+        "Our ranking pages per affected cluster (best_position is the best position of the page for any of the cluster's keywords):",
+        jsonBlock(
+          run.result.clusters
+            .filter((c) => involved.has(c.cluster_id))
+            .map((c) => ({
+              cluster_id: c.cluster_id,
+              primary_keyword: c.primary_keyword,
+              total_volume: c.total_volume,
+              intent: c.intent,
+              site_pages: c.site_pages,
+            }))
+        ),
+        "",
+        "Work through these steps:",
+        "1. For each cluster with competing URLs, pick the page that should own the cluster, usually the one with the best position for the highest-volume keywords.",
+        "2. Decide what happens to the other pages: merge and redirect (301), retarget them to a different cluster, or keep them with a canonical to the owner.",
+        "3. For each URL ranking in several clusters, decide whether one page can serve all those clusters or whether a cluster needs its own page.",
+        "4. Order the fixes by the total_volume at stake.",
+        "",
+        "Answer with a table: cluster_id, primary keyword, competing URLs, page to keep, action for each other URL, rationale. If no cannibalisation was found, say so and point out clusters that look at risk.",
+      ].join("\n");
+    },
+  },
+
+  site_architecture: {
+    description:
+      "Propose a site architecture (sections, hub pages, URL hierarchy and internal links) from the clusters of a run",
+    arguments: [...SOURCE_ARGUMENTS, SITE_ARGUMENT],
+    render: (run) =>
+      [
+        "Propose a site architecture for these keyword clusters.",
+        "",
+        runContext(run),
+        "",
+        "Clusters:",
+        jsonBlock(run.clusters.map(clusterDigest)),
+        "",
+        "Work through these steps:",
+        "1. Group the clusters into topical sections; clusters whose keywords share a head term or whose shared_urls come from the same sites usually belong together.",
+        "2. In each section, choose a hub (pillar) page, typically the broadest cluster with the largest total_volume, and make the other clusters its child pages.",
+        "3. Build the URL hierarchy from the recommended slugs (/section/recommended_slug); keep existing_page URLs where they exist.",
+        "4. Keep transactional and commercial pages close to the top of the hierarchy, and informational pages as supporting content linking to them.",
+        "5. Plan internal links: child pages to their hub, and between clusters of related intent.",
+        "",
+        "Answer with the proposed hierarchy as an indented tree of URLs (with cluster_id and primary keyword), then a table of internal links (from, to, anchor text) and a short rationale per section.",
+      ].join("\n"),
+  },
+};
+
+/**
+ * The run a prompt uses: a stored run, or a new (stored) run on an input
+ * file.
+ */
+async function promptRun(args: Record<string, string>): Promise<PromptRun> {
+  const { run_id: runId, input_file: inputFile, site_domain } = args;
+  if ((runId === undefined) === (inputFile === undefined)) {
+    throw new Error("Provide exactly one of run_id or input_file");
+  }
+  const maxClusters = Number(args.max_clusters ?? DEFAULT_PROMPT_MAX_CLUSTERS);
+  if (!Number.isInteger(maxClusters) || maxClusters < 1) {
+    throw new Error(
+      `max_clusters must be a positive integer, got ${args.max_clusters}`
+    );
+  }
+
+  let result: ClusteringResult;
+  if (runId !== undefined) {
+    const stored = getRunResult(runId);
+    if (!stored) {
+      throw new Error(`Unknown run: ${runId}`);
+    }
+    result = stored;
+  } else {
+    if (!existsSync(inputFile!)) {
+      throw new Error(`Input file not found: ${inputFile}`);
+    }
+    result = await runClustering(inputFile!, undefined, undefined, {
+      site: site_domain ? { domain: site_domain } : undefined,
+      recordRun: true,
+    });
+  }
+
+  return {
+    runId: result.run_id!,
+    result,
+    clusters: [...result.clusters]
+      .sort((a, b) => b.total_volume - a.total_volume)
+      .slice(0, maxClusters),
+  };
+}
+
+/**
+ * Render a prompt by name. Throws on unknown prompts and bad arguments.
+ */
+export async function renderPrompt(
+  name: string,
+  args: Record<string, string> = {}
+): Promise<{ description: string; text: string }> {
+  if (!Object.hasOwn(prompts, name)) {
+    throw new Error(`Unknown prompt: ${name}`);
+  }
+  const prompt = prompts[name];
+  const run = await promptRun(args);
+  return { description: prompt.description, text: prompt.render(run, args) };
+}
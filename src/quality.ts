@@ -0,0 +1,279 @@
+/**
+ * Cluster Quality Module
+ *
+ * Measures how well a clustering fits the overlap matrix: per-cluster
+ * cohesion (pairwise overlap scores of the members) and global metrics
+ * (silhouette, modularity, singleton ratio). All of them are computed
+ * from the overlap scores rather than the clustering thresholds, so runs
+ * with different thresholds can be compared.
+ */
+
+import type { OverlapMatrix } from "./overlap.js";
+
+/**
+ * Pairwise overlap of a cluster's members. Member pairs without shared
+ * URLs (or pruned from the overlap matrix) count as 0.
+ */
+export interface ClusterCohesion {
+  /** Mean overlap score over all member pairs. */
+  avg_overlap: number;
+  /** Lowest overlap score of any member pair. */
+  min_overlap: number;
+  /** Member with the lowest mean overlap score to the others. */
+  weakest_keyword: string;
+  weakest_overlap: number;
+}
+
+/**
+ * Global quality of a clustering.
+ */
+export interface ClusteringQuality {
+  keywords: number;
+  clusters: number;
+  multi_keyword_clusters: number;
+  largest_cluster: number;
+  /** Share of keywords left in single-keyword clusters. */
+  singleton_ratio: number;
+  /** Mean avg_overlap of the multi-keyword clusters. */
+  avg_cohesion: number | null;
+  /**
+   * Mean silhouette over all keywords (-1 to 1), with distance =
+   * 1 - overlap score. Singletons score 0.
+   */
+  silhouette: number;
+  /** Modularity of the clusters on the graph weighted by overlap score. */
+  modularity: number;
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(3));
+}
+
+/**
+ * Cluster index of each matrix keyword (-1 if in none).
+ */
+function clusterAssignment(
+  clusters: Set<string>[],
+  overlapMatrix: OverlapMatrix
+): Int32Array {
+  const index = new Map(overlapMatrix.keywords.map((kw, i) => [kw, i]));
+  const assignment = new Int32Array(overlapMatrix.keywords.length).fill(-1);
+  clusters.forEach((cluster, c) => {
+    for (const kw of cluster) {
+      const i = index.get(kw);
+      if (i !== undefined) {
+        assignment[i] = c;
+      }
+    }
+  });
+  return assignment;
+}
+
+/**
+ * Cohesion of each cluster (parallel to clusters); null for clusters with
+ * a single keyword.
+ */
+export function clusterCohesion(
+  clusters: Set<string>[],
+  overlapMatrix: OverlapMatrix
+): (ClusterCohesion | null)[] {
+  const assignment = clusterAssignment(clusters, overlapMatrix);
+  const { keywords, first, second, scores } = overlapMatrix;
+  const totals = new Float64Array(clusters.length);
+  const pairCounts = new Uint32Array(clusters.length);
+  const minima = new Float64Array(clusters.length).fill(Infinity);
+  const memberTotals = new Float64Array(keywords.length);
+
+  for (let pair = 0; pair < overlapMatrix.size; pair++) {
+    const c = assignment[first[pair]];
+    if (c === -1 || c !== assignment[second[pair]]) {
+      continue;
+    }
+    const score = scores[pair];
+    totals[c] += score;
+    pairCounts[c]++;
+    minima[c] = Math.min(minima[c], score);
+    memberTotals[first[pair]] += score;
+    memberTotals[second[pair]] += score;
+  }
+
+  const index = new Map(keywords.map((kw, i) => [kw, i]));
+  return clusters.map((cluster, c) => {
+    const size = cluster.size;
+    if (size < 2) {
+      return null;
+    }
+    const memberPairs = (size * (size - 1)) / 2;
+    let weakest = "";
+    let weakestTotal = Infinity;
+    for (const kw of Array.from(cluster).sort()) {
+      const i = index.get(kw);
+      const total =
+        i !== undefined && assignment[i] === c ? memberTotals[i] : 0;
+      if (total < weakestTotal) {
+        weakest = kw;
+        weakestTotal = total;
+      }
+    }
+    return {
+      avg_overlap: round(totals[c] / memberPairs),
+      min_overlap: pairCounts[c] < memberPairs ? 0 : round(minima[c]),
+      weakest_keyword: weakest,
+      weakest_overlap: round(weakestTotal / (size - 1)),
+    };
+  });
+}
+
+/**
+ * Mean silhouette of the keywords. For each keyword, a is the mean
+ * distance to its own cluster and b the mean distance to the closest
+ * other cluster; clusters sharing no URL with it are at distance 1.
+ */
+function silhouette(
+  assignment: Int32Array,
+  sizes: number[],
+  overlapMatrix: OverlapMatrix
+): number {
+  const { rowStart, first, second, scores } = overlapMatrix;
+  const n = assignment.length;
+
+  // Pairs by their second keyword, complementing the row order by first
+  const columnStart = new Uint32Array(n + 1);
+  for (let pair = 0; pair < overlapMatrix.size; pair++) {
+    columnStart[second[pair] + 1]++;
+  }
+  for (let i = 0; i < n; i++) {
+    columnStart[i + 1] += columnStart[i];
+  }
+  const columnPairs = new Uint32Array(overlapMatrix.size);
+  const filled = columnStart.slice(0, n);
+  for (let pair = 0; pair < overlapMatrix.size; pair++) {
+    columnPairs[filled[second[pair]]++] = pair;
+  }
+
+  const otherClusters = sizes.filter((size) => size > 0).length - 1;
+  let total = 0;
+  let counted = 0;
+  const sums = new Map<number, number>();
+  for (let i = 0; i < n; i++) {
+    const own = assignment[i];
+    if (own === -1) {
+      continue;
+    }
+    counted++;
+    if (sizes[own] < 2) {
+      continue;
+    }
+
+    sums.clear();
+    const add = (j: number, score: number) => {
+      if (assignment[j] !== -1) {
+        sums.set(assignment[j], (sums.get(assignment[j]) ?? 0) + score);
+      }
+    };
+    for (let pair = rowStart[i]; pair < rowStart[i + 1]; pair++) {
+      add(second[pair], scores[pair]);
+    }
+    for (let k = columnStart[i]; k < columnStart[i + 1]; k++) {
+      add(first[columnPairs[k]], scores[columnPairs[k]]);
+    }
+
+    const a = 1 - (sums.get(own) ?? 0) / (sizes[own] - 1);
+    let neighbours = 0;
+    let b = Infinity;
+    for (const [c, sum] of sums) {
+      if (c !== own) {
+        neighbours++;
+        b = Math.min(b, 1 - sum / sizes[c]);
+      }
+    }
+    if (neighbours < otherClusters) {
+      b = Math.min(b, 1);
+    }
+    if (b === Infinity) {
+      // Only one cluster: no neighbour to compare with
+      continue;
+    }
+    const scale = Math.max(a, b);
+    total += scale > 0 ? (b - a) / scale : 0;
+  }
+  return counted > 0 ? round(total / counted) : 0;
+}
+
+/**
+ * Modularity of the clusters, with every stored pair as an edge weighted
+ * by its overlap score.
+ */
+function modularity(
+  assignment: Int32Array,
+  clusterCount: number,
+  overlapMatrix: OverlapMatrix
+): number {
+  const { first, second, scores } = overlapMatrix;
+  const inside = new Float64Array(clusterCount);
+  const degrees = new Float64Array(clusterCount);
+  let weight = 0;
+  for (let pair = 0; pair < overlapMatrix.size; pair++) {
+    const a = assignment[first[pair]];
+    const b = assignment[second[pair]];
+    if (a === -1 || b === -1) {
+      continue;
+    }
+    const score = scores[pair];
+    weight += score;
+    degrees[a] += score;
+    degrees[b] += score;
+    if (a === b) {
+      inside[a] += score;
+    }
+  }
+  if (weight === 0) {
+    return 0;
+  }
+  let q = 0;
+  for (let c = 0; c < clusterCount; c++) {
+    q += inside[c] / weight - (degrees[c] / (2 * weight)) ** 2;
+  }
+  return round(q);
+}
+
+/**
+ * Global quality metrics of a clustering. Keywords missing from the
+ * overlap matrix (e.g. kept from a previous run) are left out.
+ */
+export function clusteringQuality(
+  clusters: Set<string>[],
+  overlapMatrix: OverlapMatrix,
+  cohesion: (ClusterCohesion | null)[] = clusterCohesion(
+    clusters,
+    overlapMatrix
+  )
+): ClusteringQuality {
+  const assignment = clusterAssignment(clusters, overlapMatrix);
+  const sizes = new Array<number>(clusters.length).fill(0);
+  for (const c of assignment) {
+    if (c !== -1) {
+      sizes[c]++;
+    }
+  }
+  const keywords = sizes.reduce((sum, size) => sum + size, 0);
+  const singletons = sizes.filter((size) => size === 1).length;
+  const cohesive = cohesion.filter((c): c is ClusterCohesion => c !== null);
+
+  return {
+    keywords,
+    clusters: clusters.length,
+    multi_keyword_clusters: clusters.filter((c) => c.size > 1).length,
+    largest_cluster: Math.max(0, ...clusters.map((c) => c.size)),
+    singleton_ratio: keywords > 0 ? round(singletons / keywords) : 0,
+    avg_cohesion:
+      cohesive.length > 0
+        ? round(
+            cohesive.reduce((sum, c) => sum + c.avg_overlap, 0) /
+              cohesive.length
+          )
+        : null,
+    silhouette: silhouette(assignment, sizes, overlapMatrix),
+    modularity: modularity(assignment, clusters.length, overlapMatrix),
+  };
+}
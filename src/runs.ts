@@ -0,0 +1,155 @@
+/**
+ * Clustering Runs Module
+ *
+ * Keeps finished clustering runs in memory under a run ID, so their
+ * clusters, strongest overlap pairs, parameters and summary can be read
+ * back later (e.g. as MCP resources) without re-running or parsing output
+ * files. Only what the views serve is kept, not the overlap matrix; the
+ * oldest runs are evicted first.
+ */
+
+import { randomUUID } from "crypto";
+import type {
+  ClusteringResult,
+  OverlapMatrix,
+  OverlapPair,
+  SerpInput,
+} from "./cluster.js";
+import { overlapPairs } from "./writers.js";
+
+export type RunView = "summary" | "parameters" | "clusters" | "overlap";
+
+export const RUN_VIEWS: RunView[] = [
+  "summary",
+  "parameters",
+  "clusters",
+  "overlap",
+];
+
+/** Base URI of stored runs; a run's views are {base}/{run_id}/{view}. */
+export const RUNS_URI = "serp-clustering://runs";
+
+/** Runs kept for retrieval; the oldest are evicted first. */
+export const MAX_STORED_RUNS = 20;
+
+/** Overlap pairs kept per run, strongest first. */
+export const MAX_STORED_PAIRS = 1000;
+
+/**
+ * Overview of a stored run.
+ */
+export interface RunSummary {
+  run_id: string;
+  created_at: string;
+  /** Input file path, or "inline" for inline SERP data. */
+  input: string;
+  keywords: number;
+  clusters_created: number;
+  /** Pairs in the overlap matrix; the overlap view has the strongest. */
+  overlap_pairs: number;
+  quality: ClusteringResult["quality"];
+  output_files: ClusteringResult["output_files"];
+  message: string;
+}
+
+interface Run {
+  summary: RunSummary;
+  /** The result without its inline overlap pairs. */
+  result: ClusteringResult;
+  pairs: OverlapPair[];
+}
+
+const runs = new Map<string, Run>();
+
+/**
+ * Store a finished run and return its ID. The overlap matrix is reduced to
+ * its MAX_STORED_PAIRS strongest pairs.
+ */
+export function storeRun(
+  input: string | SerpInput,
+  result: ClusteringResult,
+  overlapMatrix: OverlapMatrix
+): string {
+  const runId = randomUUID();
+  runs.set(runId, {
+    summary: {
+      run_id: runId,
+      created_at: new Date().toISOString(),
+      input: typeof input === "string" ? input : "inline",
+      keywords: result.quality.keywords,
+      clusters_created: result.clusters_created,
+      overlap_pairs: overlapMatrix.size,
+      quality: result.quality,
+      output_files: result.output_files,
+      message: result.message,
+    },
+    result: { ...result, run_id: runId, overlap: undefined },
+    pairs: overlapPairs(overlapMatrix, MAX_STORED_PAIRS),
+  });
+  // Maps iterate in insertion order, so the first runs are the oldest
+  for (const id of Array.from(runs.keys()).slice(
+    0,
+    Math.max(0, runs.size - MAX_STORED_RUNS)
+  )) {
+    runs.delete(id);
+  }
+  return runId;
+}
+
+/**
+ * Summaries of the stored runs, newest first.
+ */
+export function listRuns(): RunSummary[] {
+  return Array.from(runs.values(), (run) => run.summary).reverse();
+}
+
+/**
+ * Result of a stored run, or undefined for unknown (or evicted) IDs.
+ */
+export function getRunResult(runId: string): ClusteringResult | undefined {
+  return runs.get(runId)?.result;
+}
+
+/**
+ * One view of a stored run, or undefined for unknown (or evicted) IDs.
+ */
+export function getRunView(runId: string, view: RunView): unknown {
+  const run = runs.get(runId);
+  if (!run) {
+    return undefined;
+  }
+  switch (view) {
+    case "summary":
+      return run.summary;
+    case "parameters":
+      return run.result.parameters;
+    case "clusters":
+      return run.result.clusters;
+    case "overlap":
+      return run.pairs;
+  }
+}
+
+/**
+ * URI of a run view.
+ */
+export function runUri(runId: string, view: RunView): string {
+  return `${RUNS_URI}/${runId}/${view}`;
+}
+
+/**
+ * Run ID and view of a run URI, or undefined if it is not one.
+ */
+export function parseRunUri(
+  uri: string
+): { runId: string; view: RunView } | undefined {
+  const prefix = `${RUNS_URI}/`;
+  if (!uri.startsWith(prefix)) {
+    return undefined;
+  }
+  const [runId, view, ...rest] = uri.slice(prefix.length).split("/");
+  if (!runId || rest.length > 0 || !RUN_VIEWS.includes(view as RunView)) {
+    return undefined;
+  }
+  return { runId, view: view as RunView };
+}
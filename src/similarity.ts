@@ -0,0 +1,135 @@
+/**
+ * SERP Similarity Module
+ *
+ * Pluggable measures for how similar two keywords' SERPs are. Each measure
+ * returns a score in [0, 1] that becomes the pair's overlapScore.
+ */
+
+import type { SerpResult } from "./cluster.js";
+
+/**
+ * Available similarity measures:
+ * - min: shared URLs / size of the smaller SERP (original behaviour)
+ * - jaccard: shared URLs / URLs in either SERP
+ * - weighted: reciprocal-rank weighted overlap, top positions count most
+ * - rbo: rank-biased overlap, agreement at the top of the ranking dominates
+ */
+export type SimilarityMeasure = "min" | "jaccard" | "weighted" | "rbo";
+
+/**
+ * A similarity measure. Both rankings hold unique URLs ordered by
+ * position; positions start at 1.
+ */
+export type SimilarityFunction = (
+  ranking1: SerpResult[],
+  ranking2: SerpResult[],
+  sharedCount: number
+) => number;
+
+/** Persistence parameter for rank-biased overlap. */
+export const RBO_PERSISTENCE = 0.9;
+
+/**
+ * Best position per URL, ordered by position.
+ * SERP exports occasionally list a URL twice (e.g. sitelinks).
+ */
+export function rankUrls(results: SerpResult[]): SerpResult[] {
+  const best = new Map<string, number>();
+  for (const { url, position } of results) {
+    const current = best.get(url);
+    if (current === undefined || position < current) {
+      best.set(url, position);
+    }
+  }
+  return Array.from(best, ([url, position]) => ({ url, position })).sort(
+    (a, b) => a.position - b.position
+  );
+}
+
+function minSimilarity(
+  ranking1: SerpResult[],
+  ranking2: SerpResult[],
+  sharedCount: number
+): number {
+  return sharedCount / Math.min(ranking1.length, ranking2.length);
+}
+
+function jaccardSimilarity(
+  ranking1: SerpResult[],
+  ranking2: SerpResult[],
+  sharedCount: number
+): number {
+  return sharedCount / (ranking1.length + ranking2.length - sharedCount);
+}
+
+/**
+ * Reciprocal-rank weighted overlap: each URL weighs 1/position, and the
+ * score is the weight of shared URLs over the total weight of both SERPs.
+ */
+function weightedSimilarity(
+  ranking1: SerpResult[],
+  ranking2: SerpResult[]
+): number {
+  const weights2 = new Map(ranking2.map((r) => [r.url, 1 / r.position]));
+  let shared = 0;
+  let total = 0;
+
+  for (const { url, position } of ranking1) {
+    const weight = 1 / position;
+    total += weight;
+    const other = weights2.get(url);
+    if (other !== undefined) {
+      shared += weight + other;
+    }
+  }
+  for (const weight of weights2.values()) {
+    total += weight;
+  }
+
+  return total === 0 ? 0 : shared / total;
+}
+
+/**
+ * Rank-biased overlap truncated at the longer ranking, normalised so two
+ * identical rankings score 1.
+ */
+function rboSimilarity(ranking1: SerpResult[], ranking2: SerpResult[]): number {
+  const depth = Math.max(ranking1.length, ranking2.length);
+  if (depth === 0) {
+    return 0;
+  }
+
+  const seen1 = new Set<string>();
+  const seen2 = new Set<string>();
+  let agreement = 0;
+  let sum = 0;
+
+  for (let d = 0; d < depth; d++) {
+    const url1 = ranking1[d]?.url;
+    const url2 = ranking2[d]?.url;
+
+    if (url1 !== undefined) {
+      if (seen2.has(url1)) agreement++;
+      seen1.add(url1);
+    }
+    if (url2 !== undefined) {
+      if (seen1.has(url2)) agreement++;
+      seen2.add(url2);
+    }
+
+    sum += Math.pow(RBO_PERSISTENCE, d) * (agreement / (d + 1));
+  }
+
+  return ((1 - RBO_PERSISTENCE) * sum) / (1 - Math.pow(RBO_PERSISTENCE, depth));
+}
+
+/**
+ * Registry of similarity measures keyed by name.
+ */
+export const similarityMeasures: Record<SimilarityMeasure, SimilarityFunction> =
+  {
+    min: minSimilarity,
+    jaccard: jaccardSimilarity,
+    weighted: weightedSimilarity,
+    rbo: rboSimilarity,
+  };
@@ -0,0 +1,170 @@
+/**
+ * Site Mapping Module
+ *
+ * Maps clusters to the pages of our own site that already rank for their
+ * keywords, so a cluster can reuse an existing page instead of a new slug,
+ * and flags keyword cannibalisation between our pages.
+ */
+
+import { readFileSync } from "fs";
+import type { SerpData } from "./cluster.js";
+import { isOnDomain, urlHost } from "./urls.js";
+
+/**
+ * Which URLs are ours: everything on domain (including subdomains), plus
+ * any listed URLs or sitemap entries.
+ */
+export interface SiteOptions {
+  domain?: string;
+  urls?: string[];
+  /** XML sitemap (<loc> entries) or plain text file with one URL per line. */
+  sitemapFile?: string;
+}
+
+/**
+ * One of our pages ranking for keywords of a cluster.
+ */
+export interface SitePage {
+  url: string;
+  /** Cluster keywords the page ranks for. */
+  keywords: string[];
+  best_position: number;
+}
+
+/**
+ * Our URLs competing within a single cluster.
+ */
+export interface ClusterCannibalisation {
+  cluster_id: number;
+  primary_keyword: string;
+  urls: string[];
+}
+
+/**
+ * One of our URLs ranking in several clusters.
+ */
+export interface UrlCannibalisation {
+  url: string;
+  cluster_ids: number[];
+}
+
+export interface Cannibalisation {
+  clusters: ClusterCannibalisation[];
+  urls: UrlCannibalisation[];
+}
+
+/**
+ * Read the URLs of a sitemap file.
+ */
+export function loadSitemapUrls(filepath: string): string[] {
+  const content = readFileSync(filepath, "utf-8");
+  if (/<loc>/i.test(content)) {
+    return Array.from(content.matchAll(/<loc>\s*([^<]*?)\s*<\/loc>/gi), (m) =>
+      m[1]
+        .replace(/&lt;/g, "<")
+        .replace(/&gt;/g, ">")
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, "&")
+    );
+  }
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line !== "");
+}
+
+/**
+ * Build the test for "is this ranking URL one of our pages". Listed URLs
+ * go through the same normaliser as the SERP data so they compare equal.
+ * Throws if no site was given.
+ */
+export function createSiteMatcher(
+  site: SiteOptions,
+  normalizeUrl: (url: string) => string
+): (url: string) => boolean {
+  const urls = [
+    ...(site.urls ?? []),
+    ...(site.sitemapFile ? loadSitemapUrls(site.sitemapFile) : []),
+  ];
+  if (site.domain === undefined && urls.length === 0) {
+    throw new Error("Site mapping needs a domain, URLs or a sitemap");
+  }
+
+  const domain = site.domain === undefined ? null : urlHost(site.domain);
+  if (site.domain !== undefined && !domain) {
+    throw new Error(`Invalid site domain: ${site.domain}`);
+  }
+  const pages = new Set(urls.map(normalizeUrl));
+  return (url) =>
+    pages.has(url) || (domain !== null && isOnDomain(url, domain));
+}
+
+/**
+ * Our pages ranking for any of the keywords, most keywords first, then
+ * best position.
+ */
+export function findSitePages(
+  keywords: Iterable<string>,
+  serpData: SerpData,
+  isSitePage: (url: string) => boolean
+): SitePage[] {
+  const pages = new Map<string, SitePage>();
+  for (const keyword of keywords) {
+    for (const { url, position } of serpData.get(keyword) ?? []) {
+      if (!isSitePage(url)) {
+        continue;
+      }
+      const page = pages.get(url) ?? {
+        url,
+        keywords: [],
+        best_position: position,
+      };
+      if (!page.keywords.includes(keyword)) {
+        page.keywords.push(keyword);
+      }
+      page.best_position = Math.min(page.best_position, position);
+      pages.set(url, page);
+    }
+  }
+  return Array.from(pages.values()).sort(
+    (a, b) =>
+      b.keywords.length - a.keywords.length ||
+      a.best_position - b.best_position ||
+      a.url.localeCompare(b.url)
+  );
+}
+
+/**
+ * Cannibalisation across mapped clusters: clusters where several of our
+ * URLs rank, and our URLs that rank in several clusters.
+ */
+export function findCannibalisation(
+  clusters: {
+    cluster_id: number;
+    primary_keyword: string;
+    site_pages?: SitePage[];
+  }[]
+): Cannibalisation {
+  const urlClusters = new Map<string, number[]>();
+  for (const cluster of clusters) {
+    for (const page of cluster.site_pages ?? []) {
+      const ids = urlClusters.get(page.url) ?? [];
+      ids.push(cluster.cluster_id);
+      urlClusters.set(page.url, ids);
+    }
+  }
+
+  return {
+    clusters: clusters
+      .filter((cluster) => (cluster.site_pages?.length ?? 0) > 1)
+      .map((cluster) => ({
+        cluster_id: cluster.cluster_id,
+        primary_keyword: cluster.primary_keyword,
+        urls: cluster.site_pages!.map((page) => page.url),
+      })),
+    urls: Array.from(urlClusters)
+      .filter(([, ids]) => ids.length > 1)
+      .map(([url, ids]) => ({ url, cluster_ids: ids })),
+  };
+}
@@ -0,0 +1,327 @@
+/**
+ * Slug Module
+ *
+ * Turns primary keywords into URL slugs: locale-aware transliteration of
+ * Cyrillic, Greek and accented Latin text, optional stopword removal,
+ * truncation on word boundaries, and de-duplication of colliding slugs
+ * across clusters. Scripts without a transliteration (e.g. CJK) are kept
+ * as Unicode letters.
+ */
+
+/**
+ * Slug rules for one locale.
+ * chars override the shared transliteration table; stopwords are dropped
+ * when stopword removal is enabled.
+ */
+export interface SlugLocale {
+  chars: Record<string, string>;
+  stopwords: string[];
+}
+
+export interface SlugOptions {
+  /** Locale of the keywords (default "en"). */
+  locale?: string;
+  /** Drop the locale's stopwords (default false). */
+  removeStopwords?: boolean;
+  /** Maximum slug length, cut on a word boundary (default 60). */
+  maxLength?: number;
+}
+
+export const DEFAULT_SLUG_LOCALE = "en";
+export const DEFAULT_SLUG_MAX_LENGTH = 60;
+
+/** Transliteration shared by all locales: Russian Cyrillic and Greek. */
+const CHARS: Record<string, string> = {
+  а: "a",
+  б: "b",
+  в: "v",
+  г: "g",
+  д: "d",
+  е: "e",
+  ё: "e",
+  ж: "zh",
+  з: "z",
+  и: "i",
+  й: "y",
+  к: "k",
+  л: "l",
+  м: "m",
+  н: "n",
+  о: "o",
+  п: "p",
+  р: "r",
+  с: "s",
+  т: "t",
+  у: "u",
+  ф: "f",
+  х: "kh",
+  ц: "ts",
+  ч: "ch",
+  ш: "sh",
+  щ: "shch",
+  ъ: "",
+  ы: "y",
+  ь: "",
+  э: "e",
+  ю: "yu",
+  я: "ya",
+  і: "i",
+  ї: "yi",
+  є: "ye",
+  ґ: "g",
+  α: "a",
+  ά: "a",
+  β: "v",
+  γ: "g",
+  δ: "d",
+  ε: "e",
+  έ: "e",
+  ζ: "z",
+  η: "i",
+  ή: "i",
+  θ: "th",
+  ι: "i",
+  ί: "i",
+  ϊ: "i",
+  ΐ: "i",
+  κ: "k",
+  λ: "l",
+  μ: "m",
+  ν: "n",
+  ξ: "x",
+  ο: "o",
+  ό: "o",
+  π: "p",
+  ρ: "r",
+  σ: "s",
+  ς: "s",
+  τ: "t",
+  υ: "y",
+  ύ: "y",
+  ϋ: "y",
+  ΰ: "y",
+  φ: "f",
+  χ: "ch",
+  ψ: "ps",
+  ω: "o",
+  ώ: "o",
+  // Latin letters that do not decompose into base letter + accent
+  ß: "ss",
+  æ: "ae",
+  œ: "oe",
+  ø: "o",
+  đ: "d",
+  ł: "l",
+  þ: "th",
+  ð: "d",
+};
+
+export const SLUG_LOCALES: Record<string, SlugLocale> = {
+  en: {
+    chars: {},
+    stopwords: [
+      "a",
+      "an",
+      "and",
+      "are",
+      "at",
+      "by",
+      "for",
+      "from",
+      "in",
+      "is",
+      "of",
+      "on",
+      "or",
+      "the",
+      "to",
+      "with",
+    ],
+  },
+  de: {
+    chars: { ä: "ae", ö: "oe", ü: "ue" },
+    stopwords: [
+      "am",
+      "auf",
+      "das",
+      "dem",
+      "den",
+      "der",
+      "des",
+      "die",
+      "ein",
+      "eine",
+      "einen",
+      "für",
+      "im",
+      "in",
+      "ist",
+      "mit",
+      "oder",
+      "und",
+      "von",
+      "zu",
+      "zum",
+      "zur",
+    ],
+  },
+  es: {
+    chars: {},
+    stopwords: [
+      "a",
+      "al",
+      "con",
+      "de",
+      "del",
+      "el",
+      "en",
+      "es",
+      "la",
+      "las",
+      "los",
+      "o",
+      "para",
+      "por",
+      "un",
+      "una",
+      "unas",
+      "unos",
+      "y",
+    ],
+  },
+  ru: {
+    chars: {},
+    stopwords: [
+      "а",
+      "в",
+      "во",
+      "для",
+      "за",
+      "и",
+      "из",
+      "или",
+      "к",
+      "на",
+      "не",
+      "о",
+      "об",
+      "от",
+      "по",
+      "с",
+      "со",
+      "у",
+    ],
+  },
+};
+
+/**
+ * Validate slug options and fill in defaults. Throws on unknown locales
+ * and invalid lengths.
+ */
+export function resolveSlugOptions(
+  options: SlugOptions = {}
+): Required<SlugOptions> {
+  const {
+    locale = DEFAULT_SLUG_LOCALE,
+    removeStopwords = false,
+    maxLength = DEFAULT_SLUG_MAX_LENGTH,
+  } = options;
+  if (!Object.hasOwn(SLUG_LOCALES, locale)) {
+    throw new Error(
+      `Slug locale must be one of ${Object.keys(SLUG_LOCALES).join(
+        ", "
+      )}, got ${locale}`
+    );
+  }
+  if (typeof removeStopwords !== "boolean") {
+    throw new Error(
+      `Slug stopword removal must be a boolean, got ${removeStopwords}`
+    );
+  }
+  if (!Number.isInteger(maxLength) || maxLength < 1) {
+    throw new Error(
+      `Slug max length must be a positive integer, got ${maxLength}`
+    );
+  }
+  return { locale, removeStopwords, maxLength };
+}
+
+/**
+ * Transliterate lower-case text to Latin letters where a table exists,
+ * dropping accents. Other scripts are left as they are.
+ */
+export function transliterate(
+  text: string,
+  locale = DEFAULT_SLUG_LOCALE
+): string {
+  const { chars } = SLUG_LOCALES[locale];
+  return Array.from(text.normalize("NFC"), (ch) => chars[ch] ?? CHARS[ch] ?? ch)
+    .join("")
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "");
+}
+
+/**
+ * Join words with hyphens up to maxLength, cutting only between words
+ * unless the first word alone is too long.
+ */
+function truncateWords(words: string[], maxLength: number): string {
+  let slug = "";
+  for (const word of words) {
+    const next = slug ? `${slug}-${word}` : word;
+    if (next.length > maxLength) {
+      return slug || word.slice(0, maxLength);
+    }
+    slug = next;
+  }
+  return slug;
+}
+
+/**
+ * Generate URL slug from text.
+ */
+export function generateSlug(text: string, options: SlugOptions = {}): string {
+  const { locale, removeStopwords, maxLength } = resolveSlugOptions(options);
+  let words = text.toLowerCase().split(/\s+/);
+  if (removeStopwords) {
+    const stopwords = new Set(SLUG_LOCALES[locale].stopwords);
+    const kept = words.filter((word) => !stopwords.has(word));
+    // Keep the text as-is if it consists of stopwords only
+    if (kept.some((word) => word)) {
+      words = kept;
+    }
+  }
+  words = transliterate(words.join(" "), locale)
+    .replace(/[^\p{L}\p{N}\s-]/gu, "")
+    .split(/[\s-]+/)
+    .filter((word) => word);
+  return truncateWords(words, maxLength);
+}
+
+/**
+ * Slug generator that keeps slugs unique within a run: a colliding slug
+ * gets a numeric suffix (-2, -3, ...). Reserved slugs (e.g. from a
+ * previous run) are never handed out again.
+ */
+export function createSlugger(
+  options: SlugOptions = {},
+  reserved: Iterable<string> = []
+): (text: string) => string {
+  const { maxLength } = resolveSlugOptions(options);
+  const used = new Set(reserved);
+  return (text) => {
+    const base = generateSlug(text, options);
+    if (!base) {
+      return base;
+    }
+    let slug = base;
+    for (let n = 2; used.has(slug); n++) {
+      const suffix = `-${n}`;
+      slug = `${base
+        .slice(0, Math.max(0, maxLength - suffix.length))
+        .replace(/-+$/, "")}${suffix}`;
+    }
+    used.add(slug);
+    return slug;
+  };
+}
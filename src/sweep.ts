@@ -0,0 +1,214 @@
+/**
+ * Threshold Sweep Module
+ *
+ * Clusters the same SERP data with a grid of thresholds and similarity
+ * measures and compares the runs by their quality metrics, so clustering
+ * settings can be chosen with evidence instead of by default.
+ */
+
+import {
+  calculateUrlOverlap,
+  clusteringStrategies,
+  loadClusteringInput,
+  resolveClusteringOptions,
+  strategyOptionsFrom,
+  type ClusteringOptions,
+  type ClusteringParameters,
+  type SerpInput,
+} from "./cluster.js";
+import { clusteringQuality, type ClusteringQuality } from "./quality.js";
+import type { SimilarityMeasure } from "./similarity.js";
+import { escapeCSV, writeLines } from "./writers.js";
+
+export interface SweepOptions extends ClusteringOptions {
+  /** min_overlap values to try (default 2 to 5, up to max_position). */
+  minOverlapValues?: number[];
+  /** min_overlap_score values to try (default: the base setting only). */
+  minOverlapScoreValues?: number[];
+  /** Similarity measures to try (default: the base setting only). */
+  similarities?: SimilarityMeasure[];
+}
+
+/**
+ * Settings and quality of one sweep run.
+ */
+export interface SweepRun extends ClusteringQuality {
+  min_overlap: number;
+  min_overlap_score: number | null;
+  similarity: SimilarityMeasure;
+}
+
+export interface SweepReport {
+  success: boolean;
+  message: string;
+  /** Settings shared by all runs. */
+  parameters: ClusteringParameters;
+  output_file?: string;
+  runs: SweepRun[];
+  /** Run with the highest silhouette, then modularity. */
+  best: SweepRun | null;
+}
+
+/** Largest number of runs a sweep may do. */
+export const MAX_SWEEP_RUNS = 100;
+
+const DEFAULT_MIN_OVERLAP_VALUES = [2, 3, 4, 5];
+
+/**
+ * Save the sweep runs to CSV, one row per run.
+ */
+export async function saveSweepReport(
+  report: SweepReport,
+  filepath: string
+): Promise<void> {
+  const fieldnames = [
+    "similarity",
+    "min_overlap",
+    "min_overlap_score",
+    "clusters",
+    "multi_keyword_clusters",
+    "largest_cluster",
+    "singleton_ratio",
+    "avg_cohesion",
+    "silhouette",
+    "modularity",
+  ] as const;
+
+  function* lines(): Generator<string> {
+    yield fieldnames.join(",");
+    for (const run of report.runs) {
+      yield fieldnames.map((field) => escapeCSV(run[field])).join(",");
+    }
+  }
+
+  await writeLines(filepath, lines());
+}
+
+/**
+ * Cluster the input once per combination of similarity measure,
+ * min_overlap and min_overlap_score. The input is loaded once and the
+ * overlap matrix built once per similarity measure; all other options
+ * apply to every run.
+ */
+export async function sweepThresholds(
+  input: string | SerpInput,
+  outputFile?: string,
+  options: SweepOptions = {}
+): Promise<SweepReport> {
+  const { minOverlapValues, minOverlapScoreValues, similarities, ...base } =
+    options;
+  const parameters = resolveClusteringOptions(base);
+
+  const minOverlaps =
+    minOverlapValues ??
+    DEFAULT_MIN_OVERLAP_VALUES.filter((v) => v <= parameters.max_position);
+  const minScores: (number | undefined)[] = minOverlapScoreValues ?? [
+    base.minOverlapScore,
+  ];
+  const measures = similarities ?? [parameters.similarity];
+  for (const [name, values] of [
+    ["minOverlapValues", minOverlaps],
+    ["minOverlapScoreValues", minScores],
+    ["similarities", measures],
+  ] as const) {
+    if (!Array.isArray(values) || values.length === 0) {
+      throw new Error(`${name} must be a non-empty list`);
+    }
+  }
+  const runCount = minOverlaps.length * minScores.length * measures.length;
+  if (runCount > MAX_SWEEP_RUNS) {
+    throw new Error(
+      `Sweep would do ${runCount} runs; at most ${MAX_SWEEP_RUNS} are allowed`
+    );
+  }
+
+  // Validate every combination before any work
+  const grid = measures.flatMap((similarity) =>
+    minOverlaps.flatMap((minOverlap) =>
+      minScores.map((minOverlapScore) =>
+        resolveClusteringOptions({
+          ...base,
+          similarity,
+          minOverlap,
+          minOverlapScore,
+        })
+      )
+    )
+  );
+
+  const messages: string[] = [];
+  const { serpData } = await loadClusteringInput(input, parameters, base);
+  messages.push(`Loaded ${serpData.size} keywords`);
+
+  const runs: SweepRun[] = [];
+  for (const similarity of measures) {
+    base.signal?.throwIfAborted();
+    const overlapMatrix = calculateUrlOverlap(serpData, similarity);
+    messages.push(
+      `${similarity}: ${overlapMatrix.size} keyword pairs with overlap`
+    );
+
+    for (const runParameters of grid.filter(
+      (p) => p.similarity === similarity
+    )) {
+      base.signal?.throwIfAborted();
+      const clusters = clusteringStrategies[runParameters.mode](
+        serpData,
+        overlapMatrix,
+        strategyOptionsFrom(runParameters)
+      );
+      const run: SweepRun = {
+        similarity,
+        min_overlap: runParameters.min_overlap,
+        min_overlap_score: runParameters.min_overlap_score,
+        ...clusteringQuality(clusters, overlapMatrix),
+      };
+      runs.push(run);
+      messages.push(
+        `  min_overlap ${run.min_overlap}${
+          run.min_overlap_score !== null
+            ? `, min_overlap_score ${run.min_overlap_score}`
+            : ""
+        }: ${run.clusters} clusters, silhouette ${run.silhouette}, modularity ${
+          run.modularity
+        }, singleton ratio ${run.singleton_ratio}`
+      );
+    }
+  }
+
+  const best = runs.reduce<SweepRun | null>(
+    (top, run) =>
+      !top ||
+      run.silhouette > top.silhouette ||
+      (run.silhouette === top.silhouette && run.modularity > top.modularity)
+        ? run
+        : top,
+    null
+  );
+  if (best) {
+    messages.push(
+      `Best silhouette: ${best.similarity}, min_overlap ${best.min_overlap}${
+        best.min_overlap_score !== null
+          ? `, min_overlap_score ${best.min_overlap_score}`
+          : ""
+      }`
+    );
+  }
+
+  const report: SweepReport = {
+    success: true,
+    message: "",
+    parameters,
+    output_file: outputFile,
+    runs,
+    best,
+  };
+
+  if (outputFile) {
+    messages.push(`Saving sweep report to ${outputFile}...`);
+    await saveSweepReport(report, outputFile);
+  }
+
+  report.message = messages.join("\n");
+  return report;
+}
@@ -0,0 +1,216 @@
+/**
+ * URL Normalisation Module
+ *
+ * Canonicalises ranking URLs so trivial variants (protocol, www, trailing
+ * slash, tracking parameters, fragments) do not hide real SERP overlap,
+ * and optionally coarsens URLs to domain or path-prefix granularity.
+ */
+
+/**
+ * Individual normalisation steps. All default to true except stripQuery.
+ */
+export interface UrlNormalizationOptions {
+  /** Treat http:// and https:// as the same (output uses https). */
+  unifyProtocol?: boolean;
+  /** Drop a leading "www." from the host. */
+  stripWww?: boolean;
+  /** Drop trailing slashes from the path. */
+  stripTrailingSlash?: boolean;
+  /** Drop #fragments. */
+  stripFragment?: boolean;
+  /** Drop tracking parameters (utm_*, gclid, fbclid, ...). */
+  stripTrackingParams?: boolean;
+  /** Drop the whole query string. */
+  stripQuery?: boolean;
+}
+
+/**
+ * What counts as "the same result" when computing overlap:
+ * - url: the normalised URL
+ * - domain: the host only
+ * - path: the host plus the first pathDepth path segments
+ */
+export type OverlapGranularity = "url" | "domain" | "path";
+
+export const OVERLAP_GRANULARITIES: OverlapGranularity[] = [
+  "url",
+  "domain",
+  "path",
+];
+
+export const DEFAULT_URL_NORMALIZATION: Required<UrlNormalizationOptions> = {
+  unifyProtocol: true,
+  stripWww: true,
+  stripTrailingSlash: true,
+  stripFragment: true,
+  stripTrackingParams: true,
+  stripQuery: false,
+};
+
+const NO_URL_NORMALIZATION: Required<UrlNormalizationOptions> = {
+  unifyProtocol: false,
+  stripWww: false,
+  stripTrailingSlash: false,
+  stripFragment: false,
+  stripTrackingParams: false,
+  stripQuery: false,
+};
+
+const TRACKING_PARAMS = new Set([
+  "gclid",
+  "gbraid",
+  "wbraid",
+  "dclid",
+  "fbclid",
+  "msclkid",
+  "yclid",
+  "mc_cid",
+  "mc_eid",
+  "_ga",
+  "_gl",
+  "srsltid",
+]);
+
+function isTrackingParam(name: string): boolean {
+  const lower = name.toLowerCase();
+  return lower.startsWith("utm_") || TRACKING_PARAMS.has(lower);
+}
+
+/**
+ * Parse a URL, assuming https:// when the scheme is missing but the value
+ * starts with a host name. Returns null for strings that are not URLs.
+ */
+function parseUrl(url: string): URL | null {
+  const trimmed = url.trim();
+  let candidate = trimmed;
+  if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed)) {
+    if (!/^[^/\s.]+(\.[^/\s.]+)+(\/|$)/.test(trimmed)) {
+      return null;
+    }
+    candidate = `https://${trimmed}`;
+  }
+  try {
+    return new URL(candidate);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Host name with the configured www handling applied.
+ */
+function hostOf(parsed: URL, options: Required<UrlNormalizationOptions>) {
+  const host = parsed.host.toLowerCase();
+  return options.stripWww ? host.replace(/^www\./, "") : host;
+}
+
+/**
+ * Normalise a single URL. Unparseable values are returned trimmed.
+ */
+export function normalizeUrl(
+  url: string,
+  options: UrlNormalizationOptions = {}
+): string {
+  const opts = { ...DEFAULT_URL_NORMALIZATION, ...options };
+  const parsed = parseUrl(url);
+  if (!parsed) {
+    return url.trim();
+  }
+
+  const protocol =
+    opts.unifyProtocol && parsed.protocol === "http:"
+      ? "https:"
+      : parsed.protocol;
+
+  let path = parsed.pathname;
+  if (opts.stripTrailingSlash) {
+    path = path.replace(/\/+$/, "");
+  }
+
+  let query = "";
+  if (!opts.stripQuery) {
+    const params = Array.from(parsed.searchParams.entries()).filter(
+      ([name]) => !opts.stripTrackingParams || !isTrackingParam(name)
+    );
+    if (params.length > 0) {
+      query = `?${new URLSearchParams(params).toString()}`;
+    }
+  }
+
+  const fragment = opts.stripFragment ? "" : parsed.hash;
+
+  return `${protocol}//${hostOf(parsed, opts)}${path}${query}${fragment}`;
+}
+
+/**
+ * Build the function that maps a raw ranking URL to its overlap key.
+ * Pass false as normalization to keep URLs as-is (apart from granularity).
+ */
+export function createUrlNormalizer(
+  normalization: UrlNormalizationOptions | false = {},
+  granularity: OverlapGranularity = "url",
+  pathDepth = 1
+): (url: string) => string {
+  const opts =
+    normalization === false
+      ? NO_URL_NORMALIZATION
+      : { ...DEFAULT_URL_NORMALIZATION, ...normalization };
+
+  if (granularity === "url") {
+    return normalization === false
+      ? (url) => url.trim()
+      : (url) => normalizeUrl(url, opts);
+  }
+
+  return (url) => {
+    const parsed = parseUrl(url);
+    if (!parsed) {
+      return url.trim();
+    }
+    const host = hostOf(parsed, opts);
+    if (granularity === "domain") {
+      return host;
+    }
+    const segments = parsed.pathname
+      .split("/")
+      .filter((s) => s)
+      .slice(0, pathDepth);
+    return [host, ...segments].join("/");
+  };
+}
+
+/**
+ * URL standing for an overlap key when matching page-type patterns. Path
+ * keys get a scheme and trailing slash back (example.com/blog ->
+ * https://example.com/blog/); domain keys say nothing about the page, so
+ * they give null.
+ */
+export function overlapKeyUrl(
+  key: string,
+  granularity: OverlapGranularity
+): string | null {
+  if (granularity === "domain") {
+    return null;
+  }
+  if (granularity === "path" && !/^[a-z][a-z0-9+.-]*:/i.test(key)) {
+    return `https://${key}/`;
+  }
+  return key;
+}
+
+/**
+ * Host of a URL (or of a bare host name) without "www.", or null for
+ * strings that are not URLs.
+ */
+export function urlHost(url: string): string | null {
+  const parsed = parseUrl(url);
+  return parsed && hostOf(parsed, DEFAULT_URL_NORMALIZATION);
+}
+
+/**
+ * Whether a URL is on a domain or one of its subdomains.
+ */
+export function isOnDomain(url: string, domain: string): boolean {
+  const host = urlHost(url);
+  return host !== null && (host === domain || host.endsWith(`.${domain}`));
+}
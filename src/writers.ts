@@ -0,0 +1,458 @@
+/**
+ * Output Writers Module
+ *
+ * Writes clusters and overlap pairs to files. The format is given
+ * explicitly or taken from the file extension: flat CSV (the default),
+ * nested JSON with full keyword and URL lists, an XLSX workbook with a
+ * Clusters and a Pairs sheet (the strongest MAX_WORKBOOK_PAIRS pairs), or
+ * a Markdown content brief per cluster.
+ */
+
+import { once } from "events";
+import { createWriteStream } from "fs";
+import { writeFile } from "fs/promises";
+import { extname } from "path";
+import { finished } from "stream/promises";
+import type { ClusterOutput, OverlapMatrix, OverlapPair } from "./cluster.js";
+import { pairSharedUrls, sortedPairs } from "./overlap.js";
+import { MAX_SHEET_ROWS, writeWorkbook, type Cell } from "./xlsx.js";
+
+export type OutputFormat = "csv" | "json" | "xlsx" | "md";
+
+/**
+ * Writes one output format. writeClusters also gets the overlap matrix
+ * for formats that bundle the pairs (XLSX); formats without writeOverlap
+ * cannot hold the overlap matrix on its own.
+ */
+export interface OutputWriter {
+  extensions: string[];
+  writeClusters: (
+    clusters: ClusterOutput[],
+    overlapMatrix: OverlapMatrix,
+    filepath: string
+  ) => Promise<void>;
+  writeOverlap?: (
+    overlapMatrix: OverlapMatrix,
+    filepath: string
+  ) => Promise<void>;
+  /** Rows a file can hold besides its header, if limited. */
+  maxRows?: number;
+}
+
+/**
+ * Pairs in the Pairs sheet of a clusters workbook. Larger matrices keep
+ * their strongest pairs; the overlap output holds them all.
+ */
+export const MAX_WORKBOOK_PAIRS = 100000;
+
+const CLUSTER_FIELDS = [
+  "cluster_id",
+  "primary_keyword",
+  "cluster_keywords",
+  "keyword_count",
+  "shared_urls",
+  "shared_url_count",
+  "recommended_slug",
+  "total_volume",
+  "avg_difficulty",
+  "dominant_features",
+  "intent",
+  "intent_confidence",
+  "top_domains",
+] as const;
+
+const SITE_FIELDS = ["existing_page", "site_urls", "needs_new_page"] as const;
+
+const PAIR_FIELDS = [
+  "keyword1",
+  "keyword2",
+  "shared_urls",
+  "overlap_count",
+  "overlap_score",
+];
+
+/**
+ * Escape a value for CSV output.
+ */
+export function escapeCSV(value: string | number | boolean | null): string {
+  const str = value === null ? "" : String(value);
+  if (str.includes(",") || str.includes('"') || str.includes("\n")) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+}
+
+/**
+ * Write lines to a file as they are produced, waiting for the stream to
+ * drain instead of building the whole output in memory.
+ */
+export async function writeLines(
+  filepath: string,
+  lines: Iterable<string>
+): Promise<void> {
+  const stream = createWriteStream(filepath, "utf-8");
+  let separator = "";
+  for (const line of lines) {
+    if (!stream.write(separator + line)) {
+      await once(stream, "drain");
+    }
+    separator = "\n";
+  }
+  stream.end();
+  await finished(stream);
+}
+
+/**
+ * Cluster rows of the flat formats (CSV, XLSX). Site columns are only
+ * included when the clusters were mapped to a site.
+ */
+function* clusterRows(clustersData: ClusterOutput[]): Generator<Cell[]> {
+  const siteFields = clustersData.some((c) => c.site_pages) ? SITE_FIELDS : [];
+  yield [...CLUSTER_FIELDS, ...siteFields];
+  for (const row of clustersData) {
+    yield [
+      ...CLUSTER_FIELDS.map((field) => row[field]),
+      ...siteFields.map((field) => row[field] ?? null),
+    ];
+  }
+}
+
+/**
+ * Pair rows for spreadsheets, generated pair by pair. With a limit below
+ * the matrix size, only the strongest pairs are kept, strongest first.
+ */
+function* pairRows(
+  overlapMatrix: OverlapMatrix,
+  limit = Infinity
+): Generator<Cell[]> {
+  const { keywords, first, second, counts, scores } = overlapMatrix;
+  const order = overlapMatrix.size > limit ? sortedPairs(overlapMatrix) : null;
+  yield PAIR_FIELDS;
+  for (let i = 0; i < Math.min(overlapMatrix.size, limit); i++) {
+    const pair = order ? order[i] : i;
+    yield [
+      keywords[first[pair]],
+      keywords[second[pair]],
+      pairSharedUrls(overlapMatrix, pair).join(", "),
+      counts[pair],
+      Number(scores[pair].toFixed(3)),
+    ];
+  }
+}
+
+/**
+ * Save cluster data to CSV.
+ */
+export async function saveClusters(
+  clustersData: ClusterOutput[],
+  filepath: string
+): Promise<void> {
+  function* lines(): Generator<string> {
+    for (const row of clusterRows(clustersData)) {
+      yield row.map(escapeCSV).join(",");
+    }
+  }
+
+  await writeLines(filepath, lines());
+}
+
+/**
+ * Convert the overlap matrix into pair records for inline results. With a
+ * limit below the matrix size, only the strongest pairs are kept,
+ * strongest first.
+ */
+export function overlapPairs(
+  overlapMatrix: OverlapMatrix,
+  limit = Infinity
+): OverlapPair[] {
+  const { keywords, first, second, counts, scores } = overlapMatrix;
+  const order = overlapMatrix.size > limit ? sortedPairs(overlapMatrix) : null;
+  return Array.from({ length: Math.min(overlapMatrix.size, limit) }, (_, i) => {
+    const pair = order ? order[i] : i;
+    return {
+      keyword1: keywords[first[pair]],
+      keyword2: keywords[second[pair]],
+      shared_urls: pairSharedUrls(overlapMatrix, pair),
+      overlap_count: counts[pair],
+      overlap_score: Number(scores[pair].toFixed(3)),
+    };
+  });
+}
+
+/**
+ * Save overlap matrix to CSV, listing the top 3 shared URLs per pair.
+ */
+export async function saveOverlapMatrix(
+  overlapMatrix: OverlapMatrix,
+  filepath: string
+): Promise<void> {
+  const { keywords, first, second, counts, scores } = overlapMatrix;
+
+  // Rows are generated pair by pair while the file is written
+  function* lines(): Generator<string> {
+    yield PAIR_FIELDS.join(",");
+    for (let pair = 0; pair < overlapMatrix.size; pair++) {
+      yield [
+        escapeCSV(keywords[first[pair]]),
+        escapeCSV(keywords[second[pair]]),
+        escapeCSV(pairSharedUrls(overlapMatrix, pair).slice(0, 3).join(", ")),
+        counts[pair],
+        scores[pair].toFixed(3),
+      ].join(",");
+    }
+  }
+
+  await writeLines(filepath, lines());
+}
+
+/**
+ * Clusters as nested JSON: member keywords and shared URLs in full.
+ */
+async function saveClustersJson(
+  clustersData: ClusterOutput[],
+  filepath: string
+): Promise<void> {
+  const clusters = clustersData.map(
+    ({ cluster_keywords, shared_urls, shared_url_list, ...cluster }) => ({
+      ...cluster,
+      cluster_keywords: cluster.keywords.map((k) => k.keyword),
+      shared_urls: shared_url_list,
+    })
+  );
+  await writeFile(filepath, JSON.stringify(clusters, null, 2), "utf-8");
+}
+
+/**
+ * Overlap pairs as a JSON array, written pair by pair.
+ */
+async function saveOverlapJson(
+  overlapMatrix: OverlapMatrix,
+  filepath: string
+): Promise<void> {
+  const { keywords, first, second, counts, scores } = overlapMatrix;
+  function* lines(): Generator<string> {
+    yield "[";
+    for (let pair = 0; pair < overlapMatrix.size; pair++) {
+      const record = JSON.stringify({
+        keyword1: keywords[first[pair]],
+        keyword2: keywords[second[pair]],
+        shared_urls: pairSharedUrls(overlapMatrix, pair),
+        overlap_count: counts[pair],
+        overlap_score: Number(scores[pair].toFixed(3)),
+      });
+      yield `  ${record}${pair < overlapMatrix.size - 1 ? "," : ""}`;
+    }
+    yield "]";
+  }
+  await writeLines(filepath, lines());
+}
+
+/**
+ * Escape text for a Markdown table cell.
+ */
+function markdownCell(value: string | number | null): string {
+  return value === null
+    ? ""
+    : String(value).replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+/**
+ * Content brief of one cluster.
+ */
+function clusterBrief(cluster: ClusterOutput): string[] {
+  const lines = [
+    `## ${cluster.cluster_id}. ${cluster.primary_keyword}`,
+    "",
+    `- **Slug:** \`/${cluster.recommended_slug}\``,
+    `- **Intent:** ${cluster.intent} (confidence ${cluster.intent_confidence})`,
+    `- **Keywords:** ${cluster.keyword_count}`,
+    `- **Total volume:** ${cluster.total_volume}`,
+    `- **Average difficulty:** ${cluster.avg_difficulty ?? "n/a"}`,
+  ];
+  if (cluster.cohesion) {
+    const { avg_overlap, min_overlap, weakest_keyword, weakest_overlap } =
+      cluster.cohesion;
+    lines.push(
+      `- **Cohesion:** average overlap ${avg_overlap}, minimum ${min_overlap}; weakest keyword "${weakest_keyword}" (${weakest_overlap})`
+    );
+  }
+  if (cluster.site_pages) {
+    lines.push(
+      cluster.existing_page
+        ? `- **Existing page:** ${cluster.existing_page}`
+        : "- **Existing page:** none, needs a new page"
+    );
+  }
+  if (cluster.dominant_features) {
+    lines.push(`- **SERP features:** ${cluster.dominant_features}`);
+  }
+  if (cluster.top_domains) {
+    lines.push(`- **Top domains:** ${cluster.top_domains}`);
+  }
+
+  lines.push(
+    "",
+    "### Keywords",
+    "",
+    "| Keyword | Volume | Difficulty | CPC | Intent |",
+    "| --- | ---: | ---: | ---: | --- |",
+    ...cluster.keywords.map(
+      (k) =>
+        `| ${[k.keyword, k.volume, k.difficulty, k.cpc, k.intent]
+          .map(markdownCell)
+          .join(" | ")} |`
+    )
+  );
+
+  if (cluster.shared_url_list.length > 0) {
+    lines.push(
+      "",
+      "### Shared URLs",
+      "",
+      ...cluster.shared_url_list.map((url) => `- ${url}`)
+    );
+  }
+  return lines;
+}
+
+/**
+ * One Markdown content brief per cluster, largest volume first.
+ */
+async function saveClustersMarkdown(
+  clustersData: ClusterOutput[],
+  filepath: string
+): Promise<void> {
+  const clusters = [...clustersData].sort(
+    (a, b) =>
+      b.total_volume - a.total_volume ||
+      b.keyword_count - a.keyword_count ||
+      a.cluster_id - b.cluster_id
+  );
+  function* lines(): Generator<string> {
+    yield "# Content Briefs";
+    for (const cluster of clusters) {
+      yield "";
+      yield* clusterBrief(cluster);
+    }
+  }
+  await writeLines(filepath, lines());
+}
+
+export const outputWriters: Record<OutputFormat, OutputWriter> = {
+  csv: {
+    extensions: [".csv"],
+    writeClusters: (clusters, _overlapMatrix, filepath) =>
+      saveClusters(clusters, filepath),
+    writeOverlap: saveOverlapMatrix,
+  },
+  json: {
+    extensions: [".json"],
+    writeClusters: (clusters, _overlapMatrix, filepath) =>
+      saveClustersJson(clusters, filepath),
+    writeOverlap: saveOverlapJson,
+  },
+  xlsx: {
+    extensions: [".xlsx"],
+    writeClusters: (clusters, overlapMatrix, filepath) =>
+      writeWorkbook(filepath, [
+        { name: "Clusters", rows: clusterRows(clusters) },
+        { name: "Pairs", rows: pairRows(overlapMatrix, MAX_WORKBOOK_PAIRS) },
+      ]),
+    writeOverlap: (overlapMatrix, filepath) =>
+      writeWorkbook(filepath, [
+        { name: "Pairs", rows: pairRows(overlapMatrix) },
+      ]),
+    maxRows: MAX_SHEET_ROWS - 1,
+  },
+  md: {
+    extensions: [".md", ".markdown"],
+    writeClusters: (clusters, _overlapMatrix, filepath) =>
+      saveClustersMarkdown(clusters, filepath),
+  },
+};
+
+/**
+ * Output format for a file: the explicit format if given, else the one
+ * matching the file extension, else CSV.
+ */
+export function outputFormatFor(
+  filepath: string,
+  format?: OutputFormat
+): OutputFormat {
+  if (format !== undefined) {
+    if (!Object.hasOwn(outputWriters, format)) {
+      throw new Error(
+        `Output format must be one of ${Object.keys(outputWriters).join(
+          ", "
+        )}, got ${format}`
+      );
+    }
+    return format;
+  }
+  const extension = extname(filepath).toLowerCase();
+  const match = (Object.keys(outputWriters) as OutputFormat[]).find((name) =>
+    outputWriters[name].extensions.includes(extension)
+  );
+  return match ?? "csv";
+}
+
+/**
+ * Writer for the overlap matrix in the given format. Throws for formats
+ * that cannot hold it, so runs can check before doing any work.
+ */
+export function overlapWriter(
+  format: OutputFormat
+): NonNullable<OutputWriter["writeOverlap"]> {
+  const { writeOverlap } = outputWriters[format];
+  if (!writeOverlap) {
+    throw new Error(`The overlap matrix cannot be written as ${format}`);
+  }
+  return writeOverlap;
+}
+
+/**
+ * Throw if rows (clusters or pairs) would not fit a file of the format,
+ * so runs can fail before clustering rather than while writing.
+ */
+export function checkOutputRows(
+  format: OutputFormat,
+  rows: number,
+  what: string
+): void {
+  const { maxRows } = outputWriters[format];
+  if (maxRows !== undefined && rows > maxRows) {
+    throw new Error(
+      `${what} may need ${rows} rows, more than ${format} holds (${maxRows}); use csv or json`
+    );
+  }
+}
+
+/**
+ * Write clusters in the file's output format.
+ */
+export async function writeClusters(
+  clustersData: ClusterOutput[],
+  overlapMatrix: OverlapMatrix,
+  filepath: string,
+  format?: OutputFormat
+): Promise<void> {
+  await outputWriters[outputFormatFor(filepath, format)].writeClusters(
+    clustersData,
+    overlapMatrix,
+    filepath
+  );
+}
+
+/**
+ * Write the overlap matrix in the file's output format.
+ */
+export async function writeOverlap(
+  overlapMatrix: OverlapMatrix,
+  filepath: string,
+  format?: OutputFormat
+): Promise<void> {
+  await overlapWriter(outputFormatFor(filepath, format))(
+    overlapMatrix,
+    filepath
+  );
+}
@@ -0,0 +1,303 @@
+/**
+ * XLSX Module
+ *
+ * Writes minimal Office Open XML workbooks: one worksheet per table, cells
+ * as numbers or inline strings, streamed into a ZIP archive with zlib.
+ */
+
+import { once } from "events";
+import { createWriteStream } from "fs";
+import { rm } from "fs/promises";
+import { pipeline, Readable } from "stream";
+import { finished } from "stream/promises";
+import { createDeflateRaw } from "zlib";
+
+export type Cell = string | number | boolean | null;
+
+export interface Sheet {
+  name: string;
+  rows: Iterable<Cell[]>;
+}
+
+/** Rows per worksheet in Excel, including the header row. */
+export const MAX_SHEET_ROWS = 1048576;
+/** Characters per cell in Excel; longer text is cut. */
+export const MAX_CELL_LENGTH = 32767;
+
+const CRC_TABLE = Uint32Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer, previous = 0): number {
+  let crc = previous ^ 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** Largest ZIP archive without ZIP64 extensions. */
+const MAX_ZIP_SIZE = 0xffffffff;
+
+/** Characters of XML collected before they are compressed. */
+const CHUNK_LENGTH = 64 * 1024;
+
+interface ZipEntry {
+  name: string;
+  content: Iterable<string>;
+}
+
+/**
+ * Text of an entry in chunks of about CHUNK_LENGTH characters.
+ */
+function* chunked(content: Iterable<string>): Generator<string> {
+  let chunk = "";
+  for (const text of content) {
+    chunk += text;
+    if (chunk.length >= CHUNK_LENGTH) {
+      yield chunk;
+      chunk = "";
+    }
+  }
+  if (chunk !== "") {
+    yield chunk;
+  }
+}
+
+/**
+ * Stream entries into a ZIP archive (deflate, UTF-8 names). Sizes and
+ * checksums are only known once an entry is compressed, so they follow
+ * each entry in a data descriptor.
+ */
+async function writeZip(filepath: string, entries: ZipEntry[]): Promise<void> {
+  const out = createWriteStream(filepath);
+  const directory: Buffer[] = [];
+  let offset = 0;
+  const write = async (data: Buffer) => {
+    offset += data.length;
+    if (offset > MAX_ZIP_SIZE) {
+      throw new Error(`${filepath} exceeds the 4 GB limit of XLSX files`);
+    }
+    if (!out.write(data)) {
+      await once(out, "drain");
+    }
+  };
+
+  try {
+    for (const { name, content } of entries) {
+      const fileName = Buffer.from(name, "utf-8");
+      const headerOffset = offset;
+      const header = Buffer.alloc(30);
+      header.writeUInt32LE(0x04034b50, 0);
+      header.writeUInt16LE(20, 4); // version needed
+      header.writeUInt16LE(0x0808, 6); // UTF-8 names, data descriptor
+      header.writeUInt16LE(8, 8); // deflate
+      header.writeUInt16LE(fileName.length, 26);
+      await write(Buffer.concat([header, fileName]));
+
+      let crc = 0;
+      let size = 0;
+      const compressedStart = offset;
+      const encoded = function* () {
+        for (const text of chunked(content)) {
+          const data = Buffer.from(text, "utf-8");
+          crc = crc32(data, crc);
+          size += data.length;
+          yield data;
+        }
+      };
+      const deflated = pipeline(
+        Readable.from(encoded()),
+        createDeflateRaw(),
+        () => undefined
+      );
+      for await (const chunk of deflated) {
+        await write(chunk as Buffer);
+      }
+      const compressedSize = offset - compressedStart;
+      if (size > MAX_ZIP_SIZE) {
+        throw new Error(`${name} exceeds the 4 GB limit of XLSX entries`);
+      }
+
+      const descriptor = Buffer.alloc(16);
+      descriptor.writeUInt32LE(0x08074b50, 0);
+      descriptor.writeUInt32LE(crc, 4);
+      descriptor.writeUInt32LE(compressedSize, 8);
+      descriptor.writeUInt32LE(size, 12);
+      await write(descriptor);
+
+      const record = Buffer.alloc(46);
+      record.writeUInt32LE(0x02014b50, 0);
+      record.writeUInt16LE(20, 4); // version made by
+      record.writeUInt16LE(20, 6); // version needed
+      record.writeUInt16LE(0x0808, 8);
+      record.writeUInt16LE(8, 10);
+      record.writeUInt32LE(0, 12);
+      record.writeUInt32LE(crc, 16);
+      record.writeUInt32LE(compressedSize, 20);
+      record.writeUInt32LE(size, 24);
+      record.writeUInt16LE(fileName.length, 28);
+      record.writeUInt32LE(headerOffset, 42);
+      directory.push(record, fileName);
+    }
+
+    const directoryOffset = offset;
+    for (const data of directory) {
+      await write(data);
+    }
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(offset - directoryOffset, 12);
+    end.writeUInt32LE(directoryOffset, 16);
+    await write(end);
+    out.end();
+    await finished(out);
+  } catch (error) {
+    out.destroy();
+    await rm(filepath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Escape text for XML, dropping characters XML cannot represent.
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/[^\t\n\r\u0020-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Column letters for a zero-based index (0 -> A, 26 -> AA).
+ */
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function cellXml(value: Cell, ref: string): string {
+  if (value === null || value === "") {
+    return "";
+  }
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return `<c r="${ref}"><v>${value}</v></c>`;
+  }
+  if (typeof value === "boolean") {
+    return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(
+    String(value).slice(0, MAX_CELL_LENGTH)
+  )}</t></is></c>`;
+}
+
+/**
+ * Worksheet XML, generated row by row.
+ */
+function* sheetXml(sheet: Sheet): Generator<string> {
+  yield '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>';
+  let r = 0;
+  for (const row of sheet.rows) {
+    r++;
+    if (r > MAX_SHEET_ROWS) {
+      throw new Error(
+        `Sheet ${sheet.name} exceeds the XLSX limit of ${MAX_SHEET_ROWS} rows`
+      );
+    }
+    const cells = row.map((value, c) => cellXml(value, `${columnName(c)}${r}`));
+    yield `<row r="${r}">${cells.join("")}</row>`;
+  }
+  yield "</sheetData></worksheet>";
+}
+
+/**
+ * Write a workbook with the given sheets. Sheets are streamed to the file
+ * as their rows are generated.
+ */
+export async function writeWorkbook(
+  filepath: string,
+  sheets: Sheet[]
+): Promise<void> {
+  const xml = (content: string) => [
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${content}`,
+  ];
+  const sheetFiles = sheets.map((sheet, i) => ({
+    name: `xl/worksheets/sheet${i + 1}.xml`,
+    content: sheetXml(sheet),
+  }));
+
+  await writeZip(filepath, [
+    {
+      name: "[Content_Types].xml",
+      content: xml(
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+          '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+          '<Default Extension="xml" ContentType="application/xml"/>' +
+          '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+          sheets
+            .map(
+              (_, i) =>
+                `<Override PartName="/xl/worksheets/sheet${
+                  i + 1
+                }.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+            )
+            .join("") +
+          "</Types>"
+      ),
+    },
+    {
+      name: "_rels/.rels",
+      content: xml(
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+          '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+          "</Relationships>"
+      ),
+    },
+    {
+      name: "xl/workbook.xml",
+      content: xml(
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>' +
+          sheets
+            .map(
+              (sheet, i) =>
+                `<sheet name="${escapeXml(sheet.name)}" sheetId="${
+                  i + 1
+                }" r:id="rId${i + 1}"/>`
+            )
+            .join("") +
+          "</sheets></workbook>"
+      ),
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      content: xml(
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+          sheets
+            .map(
+              (_, i) =>
+                `<Relationship Id="rId${
+                  i + 1
+                }" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${
+                  i + 1
+                }.xml"/>`
+            )
+            .join("") +
+          "</Relationships>"
+      ),
+    },
+    ...sheetFiles,
+  ]);
+}
@@ -15,6 +15,10 @@ import {
   calculateUrlOverlap,
   clusterKeywords,
   generateSlug,
+  resolveClusteringOptions,
+  clusteringStrategies,
+  serpDataFromRankings,
+  getPairOverlap,
 } from "../src/cluster.js";
 
 const __filename = fileURLToPath(import.meta.url);
@@ -113,7 +117,7 @@ function normalizeOverlap(
 }
 
 describe("Python vs TypeScript Implementation Comparison", () => {
-  beforeAll(() => {
+  beforeAll(async () => {
     // Create output directory
     if (!existsSync(OUTPUT_DIR)) {
       mkdirSync(OUTPUT_DIR, { recursive: true });
@@ -125,7 +129,7 @@ describe("Python vs TypeScript Implementation Comparison", () => {
     });
 
     // Run TypeScript implementation
-    runClustering(SAMPLE_CSV, TS_CLUSTERS, TS_OVERLAP);
+    await runClustering(SAMPLE_CSV, TS_CLUSTERS, TS_OVERLAP);
   });
 
   afterAll(() => {
@@ -222,38 +226,77 @@ describe("Python vs TypeScript Implementation Comparison", () => {
 });
 
 describe("TypeScript Unit Tests", () => {
-  it("loadSerpData should parse CSV correctly", () => {
-    const data = loadSerpData(SAMPLE_CSV);
+  it("loadSerpData should parse CSV correctly", async () => {
+    const data = await loadSerpData(SAMPLE_CSV);
 
     expect(data.size).toBeGreaterThan(0);
     expect(data.has("best running shoes")).toBe(true);
     expect(data.get("best running shoes")!.length).toBe(10);
   });
 
-  it("loadSerpData should only include top 10 positions", () => {
-    const data = loadSerpData(SAMPLE_CSV);
+  it("loadSerpData should keep result positions", async () => {
+    const data = await loadSerpData(SAMPLE_CSV);
+    const positions = data.get("best running shoes")!.map((r) => r.position);
+
+    expect(positions).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+  });
+
+  it("loadSerpData should only include top 10 positions", async () => {
+    const data = await loadSerpData(SAMPLE_CSV);
 
     for (const [, urls] of data) {
       expect(urls.length).toBeLessThanOrEqual(10);
     }
   });
 
-  it("calculateUrlOverlap should find overlapping keywords", () => {
-    const serpData = loadSerpData(SAMPLE_CSV);
+  it("loadSerpData should respect a custom position cutoff", async () => {
+    const data = await loadSerpData(SAMPLE_CSV, 5);
+
+    for (const [, urls] of data) {
+      expect(urls.length).toBeLessThanOrEqual(5);
+    }
+    expect(data.get("best running shoes")!.length).toBe(5);
+  });
+
+  it("resolveClusteringOptions should apply defaults", () => {
+    expect(resolveClusteringOptions()).toMatchObject({
+      max_position: 10,
+      min_overlap: 3,
+      min_overlap_score: null,
+      mode: "soft",
+    });
+    expect(
+      resolveClusteringOptions({ maxPosition: 20, minOverlap: 4 })
+    ).toMatchObject({ max_position: 20, min_overlap: 4 });
+  });
+
+  it("resolveClusteringOptions should reject invalid values", () => {
+    expect(() => resolveClusteringOptions({ maxPosition: 0 })).toThrow();
+    expect(() => resolveClusteringOptions({ minOverlap: 2.5 })).toThrow();
+    expect(() =>
+      resolveClusteringOptions({ maxPosition: 5, minOverlap: 6 })
+    ).toThrow();
+    expect(() => resolveClusteringOptions({ minOverlapScore: 1.5 })).toThrow();
+  });
+
+  it("calculateUrlOverlap should find overlapping keywords", async () => {
+    const serpData = await loadSerpData(SAMPLE_CSV);
     const overlap = calculateUrlOverlap(serpData);
 
     expect(overlap.size).toBeGreaterThan(0);
 
     // Check that running shoes keywords have high overlap
-    const runningKey1 = "best running shoes|running shoes reviews";
-    const runningKey2 = "running shoes reviews|best running shoes";
-
-    const hasOverlap = overlap.has(runningKey1) || overlap.has(runningKey2);
-    expect(hasOverlap).toBe(true);
+    const pair = getPairOverlap(
+      overlap,
+      "running shoes reviews",
+      "best running shoes"
+    );
+    expect(pair).toBeDefined();
+    expect(pair!.count).toBeGreaterThanOrEqual(3);
   });
 
-  it("clusterKeywords should group keywords with 3+ shared URLs", () => {
-    const serpData = loadSerpData(SAMPLE_CSV);
+  it("clusterKeywords should group keywords with 3+ shared URLs", async () => {
+    const serpData = await loadSerpData(SAMPLE_CSV);
     const overlap = calculateUrlOverlap(serpData);
     const clusters = clusterKeywords(serpData, overlap, 3);
 
@@ -273,8 +316,17 @@ describe("TypeScript Unit Tests", () => {
     }
   });
 
-  it("clusterKeywords should keep standalone keywords separate", () => {
-    const serpData = loadSerpData(SAMPLE_CSV);
+  it("clusterKeywords should skip pairs below minOverlapScore", async () => {
+    const serpData = await loadSerpData(SAMPLE_CSV);
+    const overlap = calculateUrlOverlap(serpData);
+    const clusters = clusterKeywords(serpData, overlap, 3, 1.01);
+
+    expect(clusters.every((c) => c.size === 1)).toBe(true);
+    expect(clusters.length).toBe(serpData.size);
+  });
+
+  it("clusterKeywords should keep standalone keywords separate", async () => {
+    const serpData = await loadSerpData(SAMPLE_CSV);
     const overlap = calculateUrlOverlap(serpData);
     const clusters = clusterKeywords(serpData, overlap, 3);
 
@@ -300,3 +352,47 @@ describe("TypeScript Unit Tests", () => {
     expect(slug.length).toBeLessThanOrEqual(60);
   });
 });
+
+describe("Clustering strategies", () => {
+  // a-b and b-c share 3 URLs, a-c share only one: soft chains all three
+  const serpData = serpDataFromRankings({
+    a: ["u1", "u2", "u3", "u4", "x1"],
+    b: ["u1", "u2", "u3", "u5", "u6", "u7"],
+    c: ["u5", "u6", "u7", "u4", "y1"],
+    d: ["z1", "z2"],
+  });
+  const overlap = calculateUrlOverlap(serpData);
+  const options = { minOverlap: 3, minOverlapScore: 0 };
+
+  const groupings = (clusters: Set<string>[]) =>
+    clusters.map((c) => Array.from(c).sort().join(",")).sort();
+
+  it("soft mode should chain keywords through intermediaries", () => {
+    const clusters = clusteringStrategies.soft(serpData, overlap, options);
+    expect(groupings(clusters)).toEqual(["a,b,c", "d"]);
+  });
+
+  it("hard mode should require the threshold with every member", () => {
+    const clusters = clusteringStrategies.hard(serpData, overlap, options);
+    expect(groupings(clusters)).toEqual(["a,b", "c", "d"]);
+  });
+
+  it("pivot mode should group around the best-connected keyword", () => {
+    const clusters = clusteringStrategies.pivot(serpData, overlap, options);
+    expect(groupings(clusters)).toEqual(["a,b,c", "d"]);
+  });
+
+  it("every strategy should assign each keyword exactly once", () => {
+    for (const strategy of Object.values(clusteringStrategies)) {
+      const clusters = strategy(serpData, overlap, options);
+      const keywords = clusters.flatMap((c) => Array.from(c)).sort();
+      expect(keywords).toEqual(["a", "b", "c", "d"]);
+    }
+  });
+
+  it("resolveClusteringOptions should reject unknown modes", () => {
+    expect(() =>
+      resolveClusteringOptions({ mode: "fuzzy" as never })
+    ).toThrow();
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Unit tests for per-cluster competitor coverage and content gaps.
+ */
+
+import { describe, it, expect } from "vitest";
+import { runClustering, serpDataFromRankings } from "../src/cluster.js";
+import { competitorCoverage, domainCoverage } from "../src/competitors.js";
+
+describe("Competitor coverage", () => {
+  const serpData = serpDataFromRankings({
+    a: [
+      "https://rival.com/a",
+      "https://www.other.com/x",
+      "https://rival.com/b",
+      "https://blog.rival.com/c",
+    ],
+    b: ["https://other.com/y", "https://rival.com/a"],
+  });
+
+  it("should aggregate SERP slots by domain", () => {
+    expect(domainCoverage(["a", "b"], serpData)).toEqual([
+      { domain: "rival.com", keywords: 2, avg_position: 1.5, slot_share: 0.5 },
+      {
+        domain: "other.com",
+        keywords: 2,
+        avg_position: 1.5,
+        slot_share: 0.333,
+      },
+      {
+        domain: "blog.rival.com",
+        keywords: 1,
+        avg_position: 4,
+        slot_share: 0.167,
+      },
+    ]);
+  });
+
+  it("should count subdomains towards their competitor", () => {
+    expect(competitorCoverage(["a", "b"], serpData, ["rival.com"])).toEqual([
+      {
+        domain: "rival.com",
+        keywords: 2,
+        avg_position: 1.5,
+        slot_share: 0.667,
+      },
+    ]);
+  });
+
+  it("should report clusters where competitors rank and we do not", async () => {
+    const result = await runClustering(
+      {
+        "crm software": [
+          "https://rival.com/crm",
+          "https://other.com/crm",
+          "https://example.com/crm",
+          "https://x.com/1",
+        ],
+        "best crm": [
+          "https://rival.com/crm",
+          "https://other.com/crm",
+          "https://example.com/crm",
+          "https://x.com/2",
+        ],
+        "crm tips": [
+          "https://rival.com/tips",
+          "https://other.com/tips",
+          "https://third.com/tips",
+        ],
+        "crm tricks": [
+          "https://rival.com/tips",
+          "https://other.com/tips",
+          "https://third.com/tips",
+        ],
+        "crm jobs": ["https://jobs.com/a"],
+      },
+      undefined,
+      undefined,
+      {
+        site: { domain: "example.com" },
+        competitors: ["rival.com", "https://www.other.com/"],
+      }
+    );
+
+    expect(result.parameters.competitors).toEqual(["rival.com", "other.com"]);
+    const crm = result.clusters.find((c) => c.primary_keyword === "best crm")!;
+    expect(crm.top_domains).toBe("rival.com, other.com, example.com");
+    expect(crm.competitor_coverage!.map((c) => c.domain)).toEqual([
+      "rival.com",
+      "other.com",
+    ]);
+
+    expect(result.content_gaps).toHaveLength(1);
+    expect(result.content_gaps![0]).toMatchObject({
+      primary_keyword: "crm tips",
+      keyword_count: 2,
+      competitors: [
+        { domain: "rival.com", keywords: 2, avg_position: 1 },
+        { domain: "other.com", keywords: 2, avg_position: 2 },
+      ],
+    });
+  });
+
+  it("should only report gaps when our site is known", async () => {
+    const result = await runClustering(
+      { a: ["https://rival.com/"] },
+      undefined,
+      undefined,
+      {
+        competitors: ["rival.com"],
+      }
+    );
+
+    expect(result.clusters[0].competitor_coverage).toHaveLength(1);
+    expect(result.content_gaps).toBeUndefined();
+    await expect(
+      runClustering({ a: ["u1"] }, undefined, undefined, {
+        competitors: ["not a domain"],
+      })
+    ).rejects.toThrow(/Invalid competitor domain/);
+  });
+
+  it("should count the same results for coverage and site pages", async () => {
+    const result = await runClustering(
+      [
+        {
+          keyword: "crm",
+          url: "https://example.com/crm",
+          type: "featured_snippet",
+        },
+        { keyword: "crm", url: "https://rival.com/crm" },
+      ],
+      undefined,
+      undefined,
+      {
+        excludeTypes: ["featured_snippet"],
+        site: { domain: "example.com" },
+        competitors: ["rival.com"],
+      }
+    );
+
+    const [cluster] = result.clusters;
+    expect(cluster.existing_page).toBe("https://example.com/crm");
+    expect(cluster.domain_coverage.map((d) => d.domain)).toEqual([
+      "example.com",
+      "rival.com",
+    ]);
+    expect(result.content_gaps).toEqual([]);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Unit tests for market dimensions of SERP rows.
+ */
+
+import { describe, it, expect } from "vitest";
+import { runClustering, serpDataFromInput } from "../src/cluster.js";
+import {
+  marketLabel,
+  marketOf,
+  matchesMarket,
+  resolveMarket,
+} from "../src/dimensions.js";
+import { importSerpContent } from "../src/importers.js";
+
+describe("Market dimensions", () => {
+  it("should identify the market of a row", () => {
+    const market = marketOf({ location: " US ", device: "Mobile", date: "" });
+    expect(market).toEqual({ location: "us", device: "mobile" });
+    expect(marketLabel(market)).toBe("location=us, device=mobile");
+    expect(marketLabel({})).toBe("all");
+
+    expect(
+      matchesMarket({ location: "US", device: "mobile" }, { location: "us" })
+    ).toBe(true);
+    expect(matchesMarket({ location: "UK" }, { location: "us" })).toBe(false);
+    expect(matchesMarket({}, { device: "desktop" })).toBe(false);
+  });
+
+  it("should validate market selections", () => {
+    expect(resolveMarket({ language: "EN" })).toEqual({ language: "en" });
+    expect(() => resolveMarket({ region: "eu" } as never)).toThrow(
+      "market dimensions must be"
+    );
+    expect(() => resolveMarket({ date: 2024 } as never)).toThrow(
+      "market date must be a string"
+    );
+  });
+
+  it("should read dimension columns from CSV exports", () => {
+    const { rows } = importSerpContent(
+      "Keyword,Position,URL,Country,Device,Date\ncrm,1,a.com,US,mobile,2024-05-01\n"
+    );
+    expect(rows[0]).toMatchObject({
+      location: "US",
+      device: "mobile",
+      date: "2024-05-01",
+    });
+  });
+
+  it("should refuse to merge the SERPs of several markets", async () => {
+    const rows = [
+      { keyword: "crm", url: "a.com", location: "us" },
+      { keyword: "crm", url: "b.com", location: "uk" },
+    ];
+    expect(() => serpDataFromInput(rows)).toThrow("covers 2 markets");
+    await expect(runClustering(rows)).rejects.toThrow("covers 2 markets");
+
+    const serpData = serpDataFromInput(rows, 10, undefined, { location: "uk" });
+    expect(serpData.get("crm")).toEqual([
+      { url: "https://b.com", position: 1 },
+    ]);
+    const result = await runClustering(rows, undefined, undefined, {
+      market: { location: "UK" },
+    });
+    expect(result.parameters.market).toEqual({ location: "uk" });
+    expect(result.clusters_created).toBe(1);
+  });
+});
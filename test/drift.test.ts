@@ -0,0 +1,109 @@
+/**
+ * Unit tests for SERP drift between two snapshots.
+ */
+
+import { describe, it, expect, afterAll } from "vitest";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { serpDataFromRankings } from "../src/cluster.js";
+import { compareSerpSnapshots, keywordChurn } from "../src/drift.js";
+
+const u = ["u1", "u2", "u3"];
+const v = ["v1", "v2", "v3"];
+const p = ["p1", "p2", "p3"];
+const q = ["q1", "q2", "q3"];
+
+const before = {
+  a: u,
+  b: u,
+  c: u,
+  d: v,
+  e: v,
+  x: p,
+  y: p,
+  z: q,
+  w: q,
+  h: ["h1"],
+};
+const after = {
+  a: u,
+  b: u,
+  c: v,
+  d: v,
+  e: v,
+  x: p,
+  y: p,
+  z: p,
+  w: p,
+  g: ["g1"],
+};
+
+describe("SERP drift", () => {
+  const dir = mkdtempSync(join(tmpdir(), "serp-drift-"));
+  afterAll(() => rmSync(dir, { recursive: true }));
+
+  it("should report moved keywords and split or merged clusters", async () => {
+    const report = await compareSerpSnapshots(before, after);
+
+    expect(report.keywords_compared).toBe(9);
+    expect(report.keywords_only_before).toEqual(["h"]);
+    expect(report.keywords_only_after).toEqual(["g"]);
+    expect(report.moved_keywords).toEqual(["c"]);
+    expect(report.split_clusters.map((c) => c.primary_keyword)).toEqual(["a"]);
+    expect(report.split_clusters[0].into).toHaveLength(2);
+    expect(report.merged_clusters.map((c) => c.primary_keyword).sort()).toEqual(
+      ["c", "w"]
+    );
+
+    const c = report.keywords.find((kw) => kw.keyword === "c")!;
+    expect(c).toMatchObject({
+      moved: true,
+      cluster_split: true,
+      cluster_merged: true,
+      urls_added: v,
+      urls_removed: u,
+      url_churn: 1,
+      rank_volatility: 9,
+    });
+    const z = report.keywords.find((kw) => kw.keyword === "z")!;
+    expect(z.moved).toBe(false);
+    expect(z.cluster_merged).toBe(true);
+  });
+
+  it("should measure URL churn and rank volatility", () => {
+    const serpData = serpDataFromRankings({
+      a: ["u1", "u2", "u3"],
+      b: ["u2", "u1", "u4"],
+    });
+    const a = serpData.get("a")!;
+    const b = serpData.get("b")!;
+
+    expect(keywordChurn(a, b, 10)).toEqual({
+      urls_added: ["u4"],
+      urls_removed: ["u3"],
+      url_churn: 0.5,
+      // u1 and u2 swap (1 each), u3 and u4 drop to or come from 11 (8 each)
+      rank_volatility: 4.5,
+    });
+    expect(keywordChurn(a, a, 10)).toMatchObject({
+      url_churn: 0,
+      rank_volatility: 0,
+    });
+  });
+
+  it("should save the per-keyword report as CSV", async () => {
+    const filepath = join(dir, "drift.csv");
+    const report = await compareSerpSnapshots(before, after, filepath);
+    const lines = readFileSync(filepath, "utf-8").split("\n");
+
+    expect(report.output_file).toBe(filepath);
+    expect(lines[0]).toBe(
+      "keyword,cluster_before,cluster_after,moved,cluster_split,cluster_merged,url_churn,rank_volatility,urls_added,urls_removed"
+    );
+    expect(lines).toHaveLength(10);
+    expect(lines.find((line) => line.startsWith("c,"))).toMatch(
+      /,true,true,true,1,9,"v1, v2, v3","u1, u2, u3"$/
+    );
+  });
+});
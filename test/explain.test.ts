@@ -0,0 +1,94 @@
+/**
+ * Unit tests for keyword and cluster explanations.
+ */
+
+import { describe, it, expect } from "vitest";
+import { explainClustering } from "../src/explain.js";
+
+const rankings = {
+  a: ["u1", "u2", "u3", "u4", "u5"],
+  b: ["u1", "u2", "u3", "u4", "u6"],
+  c: ["u1", "u2", "u3", "x1", "x2"],
+  d: ["u1", "u2", "y1", "y2", "y3"],
+  e: ["z1"],
+};
+
+describe("Cluster explanation", () => {
+  it("should explain a keyword with its edges and near misses", async () => {
+    const { keyword } = await explainClustering(rankings, { keyword: "c" });
+
+    expect(keyword).toMatchObject({
+      keyword: "c",
+      cluster_id: 1,
+      primary_keyword: "a",
+      cluster_keywords: ["a", "b", "c"],
+    });
+    expect(keyword!.edges).toEqual([
+      {
+        keyword: "a",
+        cluster_id: 1,
+        shared_urls: ["u1", "u2", "u3"],
+        overlap_count: 3,
+        overlap_score: 0.6,
+      },
+      {
+        keyword: "b",
+        cluster_id: 1,
+        shared_urls: ["u1", "u2", "u3"],
+        overlap_count: 3,
+        overlap_score: 0.6,
+      },
+    ]);
+    expect(keyword!.near_misses).toEqual([
+      {
+        keyword: "d",
+        cluster_id: 2,
+        shared_urls: ["u1", "u2"],
+        overlap_count: 2,
+        overlap_score: 0.4,
+      },
+    ]);
+    expect(keyword!.merge_steps!.map((s) => [s.step, s.action])).toEqual([
+      [2, "joined"],
+      [3, "linked"],
+    ]);
+  });
+
+  it("should return the merge path of a cluster in soft mode", async () => {
+    const { cluster } = await explainClustering(rankings, { clusterId: 1 });
+
+    expect(
+      cluster!.merge_path!.map((s) => [
+        s.step,
+        s.keyword1,
+        s.keyword2,
+        s.action,
+      ])
+    ).toEqual([
+      [1, "a", "b", "created"],
+      [2, "a", "c", "joined"],
+      [3, "b", "c", "linked"],
+    ]);
+    expect(cluster!.edges).toHaveLength(3);
+    expect(cluster!.cohesion).toMatchObject({ weakest_keyword: "c" });
+
+    const hard = await explainClustering(rankings, {
+      clusterId: 1,
+      mode: "hard",
+    });
+    expect(hard.cluster!.merge_path).toBeNull();
+    expect(hard.message).toContain("only recorded in soft mode");
+  });
+
+  it("should reject unknown and ambiguous targets", async () => {
+    await expect(explainClustering(rankings, {})).rejects.toThrow(
+      /exactly one of keyword or cluster_id/
+    );
+    await expect(
+      explainClustering(rankings, { keyword: "zzz" })
+    ).rejects.toThrow(/Keyword not found/);
+    await expect(explainClustering(rankings, { clusterId: 9 })).rejects.toThrow(
+      /Cluster not found: 9/
+    );
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Unit tests for result types and SERP feature summaries.
+ */
+
+import { describe, it, expect } from "vitest";
+import { runClustering, serpDataFromInput } from "../src/cluster.js";
+import {
+  filterResultTypes,
+  normalizeResultType,
+  summarizeSerpFeatures,
+} from "../src/features.js";
+
+const rows = [
+  { keyword: "a", url: "https://x.com/1", position: 1 },
+  { keyword: "a", url: "https://x.com/2", position: 2 },
+  { keyword: "a", url: "https://x.com/3", position: 3 },
+  { keyword: "a", url: "https://yt.com/v", position: 4, type: "Video" },
+  { keyword: "b", url: "https://x.com/1", position: 1 },
+  { keyword: "b", url: "https://x.com/2", position: 2 },
+  { keyword: "b", url: "https://q.com/3", position: 3 },
+  { keyword: "b", url: "https://yt.com/v", position: 4, type: "videos" },
+  { keyword: "b", url: "https://paa.com", position: 5, type: "PAA" },
+];
+
+describe("SERP features", () => {
+  it("normalizeResultType should map common spellings", () => {
+    expect(normalizeResultType("Featured Snippet")).toBe("featured_snippet");
+    expect(normalizeResultType("answer_box")).toBe("featured_snippet");
+    expect(normalizeResultType("local-pack")).toBe("local_pack");
+    expect(normalizeResultType("")).toBe("organic");
+    expect(normalizeResultType(undefined)).toBe("organic");
+  });
+
+  it("filterResultTypes should keep only the selected types", () => {
+    const serpData = serpDataFromInput(rows);
+
+    expect(filterResultTypes(serpData, ["organic"]).get("b")).toHaveLength(3);
+    expect(filterResultTypes(serpData, ["all"]).get("b")).toHaveLength(5);
+    expect(
+      filterResultTypes(serpData, ["all"], ["people_also_ask"]).get("b")
+    ).toHaveLength(4);
+  });
+
+  it("summarizeSerpFeatures should count keywords per feature", () => {
+    const serpData = serpDataFromInput(rows);
+
+    expect(summarizeSerpFeatures(["a", "b"], serpData)).toEqual([
+      { type: "video", keyword_count: 2, share: 1 },
+      { type: "people_also_ask", keyword_count: 1, share: 0.5 },
+    ]);
+  });
+
+  it("included types should change the overlap", async () => {
+    const organic = await runClustering(rows);
+    const all = await runClustering(rows, undefined, undefined, {
+      includeTypes: ["all"],
+    });
+
+    expect(organic.clusters).toHaveLength(2);
+    expect(all.clusters).toHaveLength(1);
+    expect(organic.clusters[0].dominant_features).toBe("video");
+    expect(all.clusters[0].dominant_features).toBe("video, people_also_ask");
+    expect(all.clusters[0].shared_url_count).toBe(3);
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Unit tests for the SERP fetcher, against a local mock provider.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { runClustering } from "../src/cluster.js";
+import { fetchSerps, serpProviders } from "../src/fetcher.js";
+import { importSerpFile } from "../src/importers.js";
+
+const rankings: Record<string, string[]> = {
+  "crm software": ["a.com/crm", "b.com/crm", "c.com/crm", "d.com/x"],
+  "best crm": ["b.com/crm", "a.com/crm", "c.com/crm", "e.com/y"],
+  "crm login": ["login.com", "f.com"],
+};
+
+describe("SERP fetcher", () => {
+  const dir = mkdtempSync(join(tmpdir(), "serp-fetch-"));
+  const requests: string[] = [];
+  /** Responses queued per keyword before the rankings are served. */
+  const failures = new Map<string, number[]>();
+  let server: Server;
+  let endpoint: string;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const url = new URL(req.url!, "http://localhost");
+      const keyword = url.searchParams.get("q")!;
+      requests.push(keyword);
+      const status = failures.get(keyword)?.shift();
+      if (status) {
+        res.writeHead(status, { "Retry-After": "0" }).end("unavailable");
+      } else if (rankings[keyword]) {
+        res.end(JSON.stringify(rankings[keyword]));
+      } else {
+        res.writeHead(404).end("not found");
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    endpoint = `http://localhost:${port}/serp?q={keyword}&hl={language}&device={device}&loc={location}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    rmSync(dir, { recursive: true });
+  });
+
+  const options = (cacheName: string) => ({
+    provider: "http" as const,
+    endpoint,
+    cacheDir: join(dir, cacheName),
+    requestsPerSecond: 1000,
+    retryDelayMs: 1,
+  });
+
+  it("should fetch SERPs and serve re-runs from the cache", async () => {
+    requests.length = 0;
+    const first = await fetchSerps(
+      Object.keys(rankings),
+      undefined,
+      options("cache")
+    );
+    expect(first).toMatchObject({
+      success: true,
+      keywords: 3,
+      fetched: 3,
+      from_cache: 0,
+    });
+    expect(first.rows).toContainEqual({
+      keyword: "best crm",
+      url: "a.com/crm",
+      position: 2,
+    });
+
+    const result = await runClustering(first.rows!, undefined, undefined, {
+      minOverlap: 3,
+    });
+    expect(result.clusters_created).toBe(2);
+
+    const second = await fetchSerps(
+      ["CRM software", "crm login"],
+      undefined,
+      options("cache")
+    );
+    expect(second).toMatchObject({ fetched: 0, from_cache: 2 });
+    expect(second.rows![0].keyword).toBe("CRM software");
+    expect(requests).toHaveLength(3);
+
+    // Expired entries and deeper requests are fetched again
+    await fetchSerps(["crm login"], undefined, {
+      ...options("cache"),
+      cacheTtlHours: 0,
+    });
+    await fetchSerps(["best crm"], undefined, {
+      ...options("cache"),
+      depth: 20,
+    });
+    expect(requests).toHaveLength(5);
+
+    // Deeper cached SERPs and provider responses are cut to the depth
+    const shallow = await fetchSerps(["best crm", "crm software"], undefined, {
+      ...options("cache"),
+      depth: 2,
+      cacheTtlHours: 1,
+    });
+    expect(shallow).toMatchObject({ fetched: 0, from_cache: 2 });
+    expect(shallow.rows!.map((row) => row.url)).toEqual([
+      "b.com/crm",
+      "a.com/crm",
+      "a.com/crm",
+      "b.com/crm",
+    ]);
+    const cut = await fetchSerps(["crm software"], undefined, {
+      ...options("depth"),
+      depth: 3,
+    });
+    expect(cut.rows!.map((row) => row.position)).toEqual([1, 2, 3]);
+    expect(requests).toHaveLength(6);
+
+    // Each location is a SERP of its own
+    await fetchSerps(["crm login"], undefined, {
+      ...options("cache"),
+      location: "Berlin,Germany",
+    });
+    await fetchSerps(["crm login"], undefined, {
+      ...options("cache"),
+      location: "Paris,France",
+    });
+    await fetchSerps(["crm login"], undefined, {
+      ...options("cache"),
+      location: "paris,france",
+    });
+    expect(requests).toHaveLength(8);
+  });
+
+  it("should retry rate limits and server errors", async () => {
+    failures.set("crm software", [503, 429]);
+    failures.set("best crm", [500, 502, 504]);
+    const result = await fetchSerps(
+      ["crm software", "best crm", "unknown"],
+      undefined,
+      { ...options("retries"), maxRetries: 2 }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.fetched).toBe(1);
+    expect(result.failed.map((f) => f.keyword)).toEqual([
+      "best crm",
+      "unknown",
+    ]);
+    expect(result.failed[1].error).toContain("HTTP 404");
+    expect(result.rows!.every((row) => row.keyword === "crm software")).toBe(
+      true
+    );
+  });
+
+  it("should rate limit requests", async () => {
+    const started = Date.now();
+    await fetchSerps(Object.keys(rankings), undefined, {
+      ...options("rate"),
+      requestsPerSecond: 20,
+    });
+    expect(Date.now() - started).toBeGreaterThanOrEqual(90);
+  });
+
+  it("should save rows as an input file", async () => {
+    for (const file of ["serps.csv", "serps.jsonl"]) {
+      const filepath = join(dir, file);
+      const result = await fetchSerps(
+        ["crm software"],
+        filepath,
+        options("files")
+      );
+      expect(result.rows).toBeUndefined();
+      expect(result.output_file).toBe(filepath);
+      expect(
+        importSerpFile(filepath).rows.map((row) => [
+          row.keyword,
+          String(row.position),
+          row.url,
+        ])
+      ).toEqual(
+        rankings["crm software"].map((url, i) => [
+          "crm software",
+          String(i + 1),
+          url,
+        ])
+      );
+    }
+  });
+
+  it("should build provider requests and reject bad settings", async () => {
+    const query = {
+      keyword: "crm",
+      locale: "de-AT",
+      language: "de",
+      country: "at",
+      device: "mobile" as const,
+      depth: 10,
+      location: "Vienna,Austria",
+    };
+    const serper = serpProviders.serper.request(query, {
+      provider: "serper",
+      apiKey: "key",
+    });
+    expect(JSON.parse(serper.init.body as string)).toEqual({
+      q: "crm",
+      gl: "at",
+      hl: "de",
+      num: 10,
+      location: "Vienna,Austria",
+    });
+    const dataForSeo = serpProviders.dataforseo.request(query, {
+      provider: "dataforseo",
+      apiKey: "login:password",
+    });
+    expect(JSON.parse(dataForSeo.init.body as string)[0]).toMatchObject({
+      language_code: "de",
+      location_name: "Vienna,Austria",
+      device: "mobile",
+    });
+    expect(() =>
+      serpProviders.dataforseo.parse(
+        JSON.stringify({
+          tasks: [{ status_code: 40501, status_message: "Invalid Field" }],
+        }),
+        query,
+        { provider: "dataforseo" }
+      )
+    ).toThrow("dataforseo task failed (40501)");
+
+    await expect(
+      fetchSerps(["crm"], undefined, { ...options("bad"), locale: "english" })
+    ).rejects.toThrow("locale must look like");
+    await expect(
+      fetchSerps(["crm"], undefined, { ...options("bad"), endpoint: undefined })
+    ).rejects.toThrow("needs an endpoint");
+    await expect(
+      fetchSerps(["crm"], undefined, {
+        provider: "serper",
+        apiKey: "key",
+        device: "mobile",
+      })
+    ).rejects.toThrow("serper only fetches desktop SERPs, got mobile");
+    await expect(fetchSerps([" "], undefined, options("bad"))).rejects.toThrow(
+      "at least one keyword"
+    );
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Unit tests for the keyword graph and graph-based clustering strategies.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  calculateUrlOverlap,
+  clusterKeywords,
+  clusteringStrategies,
+  serpDataFromRankings,
+} from "../src/cluster.js";
+import {
+  buildKeywordGraph,
+  connectedComponents,
+  louvainCommunities,
+  agglomerativeClusters,
+  type KeywordGraph,
+} from "../src/graph.js";
+
+/**
+ * Build a graph from an edge list.
+ */
+function graphFrom(
+  nodes: string[],
+  edges: [string, string, number][]
+): KeywordGraph {
+  const adjacency = nodes.map(() => new Map<number, number>());
+  for (const [a, b, w] of edges) {
+    const i = nodes.indexOf(a);
+    const j = nodes.indexOf(b);
+    adjacency[i].set(j, w);
+    adjacency[j].set(i, w);
+  }
+  return { nodes, adjacency };
+}
+
+const groupings = (clusters: Set<string>[]) =>
+  clusters.map((c) => Array.from(c).sort().join(",")).sort();
+
+// Two triangles joined by a single bridge edge c-d
+const bridged = graphFrom(
+  ["a", "b", "c", "d", "e", "f", "g"],
+  [
+    ["a", "b", 1],
+    ["b", "c", 1],
+    ["a", "c", 1],
+    ["d", "e", 1],
+    ["e", "f", 1],
+    ["d", "f", 1],
+    ["c", "d", 1],
+  ]
+);
+
+describe("Keyword graph", () => {
+  it("buildKeywordGraph should only add edges meeting the thresholds", () => {
+    const serpData = serpDataFromRankings({
+      a: ["u1", "u2", "u3", "u4"],
+      b: ["u1", "u2", "u3", "u5"],
+      c: ["u1", "u9"],
+    });
+    const overlap = calculateUrlOverlap(serpData);
+    const graph = buildKeywordGraph(serpData, overlap, {
+      minOverlap: 3,
+      minOverlapScore: 0,
+    });
+
+    expect(graph.nodes).toEqual(["a", "b", "c"]);
+    expect(graph.adjacency[0].get(1)).toBe(3);
+    expect(graph.adjacency[2].size).toBe(0);
+
+    const scored = buildKeywordGraph(
+      serpData,
+      overlap,
+      { minOverlap: 1, minOverlapScore: 0 },
+      "score"
+    );
+    expect(scored.adjacency[0].get(1)).toBeCloseTo(0.75);
+    expect(scored.adjacency[0].get(2)).toBeCloseTo(0.5);
+  });
+
+  it("connectedComponents should merge everything reachable", () => {
+    expect(groupings(connectedComponents(bridged))).toEqual([
+      "a,b,c,d,e,f",
+      "g",
+    ]);
+  });
+
+  it("louvainCommunities should split weakly bridged groups", () => {
+    expect(groupings(louvainCommunities(bridged))).toEqual([
+      "a,b,c",
+      "d,e,f",
+      "g",
+    ]);
+  });
+
+  it("louvainCommunities should keep isolated nodes as singletons", () => {
+    const empty = graphFrom(["a", "b"], []);
+    expect(groupings(louvainCommunities(empty))).toEqual(["a", "b"]);
+  });
+
+  it("agglomerativeClusters should stop at the distance cutoff", () => {
+    const graph = graphFrom(
+      ["a", "b", "c", "d"],
+      [
+        ["a", "b", 0.9],
+        ["b", "c", 0.5],
+        ["c", "d", 0.2],
+      ]
+    );
+
+    expect(groupings(agglomerativeClusters(graph, 0.2))).toEqual([
+      "a,b",
+      "c",
+      "d",
+    ]);
+    // a-b merged, then average distance to c is 1 - 0.5 / 2 = 0.75
+    expect(groupings(agglomerativeClusters(graph, 0.5))).toEqual([
+      "a,b",
+      "c",
+      "d",
+    ]);
+    expect(groupings(agglomerativeClusters(graph, 0.75))).toEqual([
+      "a,b,c",
+      "d",
+    ]);
+  });
+
+  it("graph strategies should assign each keyword exactly once", () => {
+    const serpData = serpDataFromRankings({
+      a: ["u1", "u2", "u3", "u4"],
+      b: ["u1", "u2", "u3", "u5"],
+      c: ["u2", "u3", "u5", "u6"],
+      d: ["z1"],
+    });
+    const overlap = calculateUrlOverlap(serpData);
+
+    for (const mode of ["components", "louvain", "agglomerative"] as const) {
+      const clusters = clusteringStrategies[mode](serpData, overlap, {
+        minOverlap: 3,
+        minOverlapScore: 0,
+      });
+      const keywords = clusters.flatMap((c) => Array.from(c)).sort();
+      expect(keywords).toEqual(["a", "b", "c", "d"]);
+    }
+  });
+
+  it("every strategy should cluster every keyword exactly once", () => {
+    // a-b share 5 URLs, c-d 4 and b-c 3: soft takes b-c last, when both
+    // keywords are already clustered, and leaves them where they are
+    const serpData = serpDataFromRankings({
+      a: ["u1", "u2", "u3", "u4", "u5"],
+      b: ["u1", "u2", "u3", "u4", "u5", "v1", "v2", "v3"],
+      c: ["v1", "v2", "v3", "w1", "w2", "w3", "w4"],
+      d: ["w1", "w2", "w3", "w4"],
+      e: ["z1"],
+    });
+    const overlap = calculateUrlOverlap(serpData);
+
+    for (const [mode, strategy] of Object.entries(clusteringStrategies)) {
+      const clusters = strategy(serpData, overlap, {
+        minOverlap: 3,
+        minOverlapScore: 0,
+      });
+      const keywords = clusters.flatMap((c) => Array.from(c)).sort();
+      expect(keywords, mode).toEqual(["a", "b", "c", "d", "e"]);
+    }
+
+    expect(clusterKeywords(serpData, overlap, 3)).toEqual([
+      new Set(["a", "b"]),
+      new Set(["c", "d"]),
+      new Set(["e"]),
+    ]);
+  });
+});
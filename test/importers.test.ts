@@ -0,0 +1,262 @@
+/**
+ * Unit tests for SERP importers and format detection.
+ */
+
+import { describe, it, expect, afterAll } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join, dirname } from "path";
+import { fileURLToPath } from "url";
+import {
+  decodeContent,
+  importSerpContent,
+  importSerpFile,
+  streamSerpFile,
+} from "../src/importers.js";
+
+const FIXTURES_DIR = join(dirname(fileURLToPath(import.meta.url)), "fixtures");
+const SAMPLE_CSV = join(FIXTURES_DIR, "sample-serp.csv");
+
+const serperResponse = {
+  searchParameters: { q: "best crm", type: "search" },
+  organic: [
+    { title: "A", link: "https://a.com/crm", position: 1 },
+    { title: "B", link: "https://b.com/crm", position: 2 },
+  ],
+  videos: [{ title: "V", link: "https://youtube.com/watch?v=1" }],
+};
+
+const dataForSeoResponse = {
+  status_code: 20000,
+  tasks: [
+    {
+      result: [
+        {
+          keyword: "best crm",
+          items: [
+            {
+              type: "featured_snippet",
+              rank_group: 1,
+              rank_absolute: 1,
+              url: "https://f.com",
+            },
+            { type: "organic", rank_group: 1, url: "https://a.com/crm" },
+            { type: "organic", rank_group: 2, url: "https://b.com/crm" },
+            {
+              type: "video",
+              rank_group: 1,
+              rank_absolute: 4,
+              items: [
+                { type: "video_element", url: "https://youtube.com/watch?v=2" },
+              ],
+            },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+describe("SERP importers", () => {
+  it("should detect the plain CSV fixture", () => {
+    const imported = importSerpFile(SAMPLE_CSV);
+
+    expect(imported.format).toBe("csv");
+    expect(imported.rows[0]).toEqual({
+      keyword: "best running shoes",
+      url: "https://example.com/running-shoes",
+      position: "1",
+    });
+  });
+
+  it("should read Serper responses", () => {
+    const imported = importSerpContent(JSON.stringify([serperResponse]));
+
+    expect(imported.format).toBe("serper");
+    expect(imported.rows).toEqual([
+      {
+        keyword: "best crm",
+        url: "https://a.com/crm",
+        position: 1,
+        type: "organic",
+      },
+      {
+        keyword: "best crm",
+        url: "https://b.com/crm",
+        position: 2,
+        type: "organic",
+      },
+      {
+        keyword: "best crm",
+        url: "https://youtube.com/watch?v=1",
+        position: 1,
+        type: "video",
+      },
+    ]);
+  });
+
+  it("should read typed DataForSEO items", () => {
+    const imported = importSerpContent(JSON.stringify(dataForSeoResponse));
+
+    expect(imported.format).toBe("dataforseo");
+    expect(imported.rows.map((r) => [r.type, r.position, r.url])).toEqual([
+      ["featured_snippet", 1, "https://f.com"],
+      ["organic", 1, "https://a.com/crm"],
+      ["organic", 2, "https://b.com/crm"],
+      ["video", 4, "https://youtube.com/watch?v=2"],
+    ]);
+  });
+
+  it("should read SEMrush exports with BOM and semicolons", () => {
+    const content = decodeContent(
+      Buffer.from(
+        "\uFEFFKeyword;Position;Previous position;Search Volume;Keyword Difficulty;CPC;URL\n" +
+          "best crm;1;2;12000;68;14.2;https://a.com/crm\n"
+      )
+    );
+    const imported = importSerpContent(content);
+
+    expect(imported.format).toBe("semrush");
+    expect(imported.rows).toEqual([
+      {
+        keyword: "best crm",
+        url: "https://a.com/crm",
+        position: "1",
+        volume: "12000",
+        difficulty: "68",
+        cpc: "14.2",
+      },
+    ]);
+  });
+
+  it("should read UTF-16 tab-separated Ahrefs exports", () => {
+    const text =
+      "Keyword\tVolume\tKD\tCurrent position\tCurrent URL\n" +
+      "best crm\t12000\t68\t3\thttps://a.com/crm\n";
+    const buffer = Buffer.concat([
+      Buffer.from([0xff, 0xfe]),
+      Buffer.from(text, "utf16le"),
+    ]);
+    const imported = importSerpContent(decodeContent(buffer));
+
+    expect(imported.format).toBe("ahrefs");
+    expect(imported.rows[0]).toMatchObject({
+      keyword: "best crm",
+      url: "https://a.com/crm",
+      position: "3",
+      volume: "12000",
+    });
+  });
+
+  it("should read JSONL and JSON files", () => {
+    const jsonl =
+      '{"keyword":"kw","url":"u1","position":1}\n' +
+      '{"keyword":"kw","url":"u2","position":2}\n';
+    expect(importSerpContent(jsonl).format).toBe("jsonl");
+    expect(importSerpContent(jsonl).rows).toHaveLength(2);
+
+    const json = JSON.stringify({ kw: ["u1", "u2"] });
+    expect(importSerpContent(json)).toEqual({
+      format: "json",
+      rows: [
+        { keyword: "kw", url: "u1", position: 1 },
+        { keyword: "kw", url: "u2", position: 2 },
+      ],
+    });
+  });
+
+  it("should honour an explicit format and reject unknown ones", () => {
+    expect(() =>
+      importSerpContent(JSON.stringify(serperResponse), "csv")
+    ).toThrow();
+    expect(() => importSerpContent("a,b\n1,2\n")).toThrow(/detect/);
+    expect(() => importSerpContent("", "xlsx" as never)).toThrow(/format/);
+  });
+});
+
+describe("Streaming SERP import", () => {
+  const dir = mkdtempSync(join(tmpdir(), "serp-stream-"));
+  afterAll(() => rmSync(dir, { recursive: true }));
+
+  const collect = async <T>(rows: AsyncIterable<T>) => {
+    const items: T[] = [];
+    for await (const row of rows) {
+      items.push(row);
+    }
+    return items;
+  };
+
+  /**
+   * Stream a file and check it matches the whole-file import.
+   */
+  const expectSameAsWholeFile = async (name: string, content: Buffer) => {
+    const filepath = join(dir, name);
+    writeFileSync(filepath, content);
+    const streamed = await streamSerpFile(filepath);
+    const whole = importSerpFile(filepath);
+
+    expect(streamed.format).toBe(whole.format);
+    expect(await collect(streamed.rows)).toEqual(whole.rows);
+    return streamed.format;
+  };
+
+  it("should stream CSV exports row by row", async () => {
+    const streamed = await streamSerpFile(SAMPLE_CSV);
+    expect(await collect(streamed.rows)).toEqual(
+      importSerpFile(SAMPLE_CSV).rows
+    );
+
+    expect(
+      await expectSameAsWholeFile(
+        "semrush.csv",
+        Buffer.from(
+          "\uFEFFKeyword;Position;Search Volume;Keyword Difficulty;URL\n" +
+            "best crm;1;12000;68;https://a.com/crm\n"
+        )
+      )
+    ).toBe("semrush");
+    expect(
+      await expectSameAsWholeFile(
+        "ahrefs.csv",
+        Buffer.concat([
+          Buffer.from([0xff, 0xfe]),
+          Buffer.from(
+            "Keyword\tVolume\tCurrent position\tCurrent URL\n" +
+              "best crm\t12000\t3\thttps://a.com/crm\n",
+            "utf16le"
+          ),
+        ])
+      )
+    ).toBe("ahrefs");
+  });
+
+  it("should stream JSONL and read JSON documents whole", async () => {
+    expect(
+      await expectSameAsWholeFile(
+        "rows.jsonl",
+        Buffer.from(
+          '{"keyword":"kw","url":"u1"}\n{"keyword":"kw","url":"u2"}\n'
+        )
+      )
+    ).toBe("jsonl");
+    // A single line is still JSON Lines, by extension
+    expect(
+      await expectSameAsWholeFile(
+        "single.jsonl",
+        Buffer.from('{"keyword":"kw","url":"u1"}\n')
+      )
+    ).toBe("jsonl");
+    expect(
+      await expectSameAsWholeFile(
+        "serper.json",
+        Buffer.from(JSON.stringify(serperResponse, null, 2))
+      )
+    ).toBe("serper");
+    expect(
+      await expectSameAsWholeFile(
+        "single.json",
+        Buffer.from(JSON.stringify([{ keyword: "kw", url: "u1" }]))
+      )
+    ).toBe("json");
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Unit tests for incremental re-clustering against a previous run.
+ */
+
+import { describe, it, expect, afterAll } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { runClustering } from "../src/cluster.js";
+import { loadPreviousClusters } from "../src/incremental.js";
+
+const shared = ["u1", "u2", "u3"];
+
+describe("Incremental clustering", () => {
+  const dir = mkdtempSync(join(tmpdir(), "serp-incremental-"));
+  afterAll(() => rmSync(dir, { recursive: true }));
+
+  const previousFile = join(dir, "previous.csv");
+
+  it("should keep IDs and slugs and only create clusters for the rest", async () => {
+    const first = await runClustering(
+      { "seo tools": shared, "seo software": shared, "kw c": ["z1"] },
+      previousFile
+    );
+    const { primary_keyword, recommended_slug } = first.clusters[0];
+    // Hand-edited slugs survive re-clustering
+    writeFileSync(
+      previousFile,
+      readFileSync(previousFile, "utf-8").replace(recommended_slug, "/seo/")
+    );
+
+    const result = await runClustering(
+      {
+        "seo tools": shared,
+        "seo software": shared,
+        "kw c": ["z1"],
+        "best seo tools": ["u1", "u2", "u3", "u4"],
+        "kw e": ["y1", "y2", "y3"],
+        "kw f": ["y1", "y2", "y3"],
+      },
+      undefined,
+      undefined,
+      { previousClusters: previousFile }
+    );
+
+    const byId = new Map(result.clusters.map((c) => [c.cluster_id, c]));
+    expect(result.clusters_created).toBe(3);
+    expect(byId.get(1)!.cluster_keywords).toContain("best seo tools");
+    expect(byId.get(1)!.primary_keyword).toBe(primary_keyword);
+    expect(byId.get(1)!.recommended_slug).toBe("/seo/");
+    expect(byId.get(2)!.cluster_keywords).toBe("kw c");
+    expect(byId.get(3)!.cluster_keywords.split(", ").sort()).toEqual([
+      "kw e",
+      "kw f",
+    ]);
+    expect(result.message).toMatch(/Added 1 new keywords/);
+  });
+
+  it("should keep previous keywords without new SERP data", async () => {
+    const result = await runClustering(
+      { "seo tools": shared, "kw g": ["x1"] },
+      undefined,
+      undefined,
+      { previousClusters: previousFile }
+    );
+
+    const ids = result.clusters.map((c) => c.cluster_id).sort();
+    expect(ids).toEqual([1, 2, 3]);
+    expect(
+      result.clusters.find((c) => c.cluster_id === 1)!.cluster_keywords
+    ).toContain("seo software");
+  });
+
+  it("should reject malformed previous clusters files", () => {
+    const write = (content: string) => {
+      const filepath = join(dir, "bad.csv");
+      writeFileSync(filepath, content);
+      return filepath;
+    };
+
+    expect(() =>
+      loadPreviousClusters(write("cluster_id,cluster_keywords\nx,a\n"))
+    ).toThrow(/positive integer/);
+    expect(() =>
+      loadPreviousClusters(write("cluster_id,cluster_keywords\n1,a\n1,b\n"))
+    ).toThrow(/Duplicate cluster_id/);
+    expect(() =>
+      loadPreviousClusters(write("cluster_id,cluster_keywords\n1,\n"))
+    ).toThrow(/no cluster_keywords/);
+  });
+
+  it("should read previous clusters from the JSON output", async () => {
+    const serps = {
+      "crm, free": shared,
+      "free crm": shared,
+      "crm login": ["x1"],
+    };
+    const jsonFile = join(dir, "previous.json");
+    const first = await runClustering(serps, jsonFile);
+
+    expect(loadPreviousClusters(jsonFile)).toEqual(
+      first.clusters.map((c) => ({
+        cluster_id: c.cluster_id,
+        primary_keyword: c.primary_keyword,
+        recommended_slug: c.recommended_slug,
+        keywords: c.keywords.map((k) => k.keyword),
+      }))
+    );
+    const second = await runClustering(serps, undefined, undefined, {
+      previousClusters: jsonFile,
+    });
+    expect(second.clusters.map((c) => c.cluster_keywords)).toEqual(
+      first.clusters.map((c) => c.cluster_keywords)
+    );
+
+    writeFileSync(join(dir, "bad.json"), '{"cluster_id": 1}');
+    expect(() => loadPreviousClusters(join(dir, "bad.json"))).toThrow(
+      /must hold a list of clusters/
+    );
+  });
+
+  it("should keep a keyword listed in several clusters in the first", () => {
+    const filepath = join(dir, "overlapping.csv");
+    writeFileSync(
+      filepath,
+      "cluster_id,primary_keyword,cluster_keywords\n" +
+        '1,a,"a, b, c"\n2,c,"c, d"\n3,b,b\n'
+    );
+
+    expect(loadPreviousClusters(filepath)).toEqual([
+      {
+        cluster_id: 1,
+        primary_keyword: "a",
+        recommended_slug: "",
+        keywords: ["a", "b", "c"],
+      },
+      {
+        cluster_id: 2,
+        primary_keyword: "d",
+        recommended_slug: "",
+        keywords: ["d"],
+      },
+    ]);
+  });
+
+  it("should build on a default run's own output", async () => {
+    // b-c links the a-b and c-d clusters once both exist
+    const serps = {
+      a: ["u1", "u2", "u3", "u4", "u5"],
+      b: ["u1", "u2", "u3", "u4", "u5", "v1", "v2", "v3"],
+      c: ["v1", "v2", "v3", "w1", "w2", "w3", "w4"],
+      d: ["w1", "w2", "w3", "w4"],
+    };
+    const jsonFile = join(dir, "default.json");
+    const first = await runClustering(serps, jsonFile);
+    expect(first.clusters).toHaveLength(2);
+
+    const second = await runClustering(
+      { ...serps, e: ["w1", "w2", "w3", "w4"] },
+      undefined,
+      undefined,
+      { previousClusters: jsonFile }
+    );
+    expect(second.clusters.map((c) => c.cluster_id)).toEqual(
+      first.clusters.map((c) => c.cluster_id)
+    );
+    const joined = second.clusters.find((c) =>
+      c.keywords.some((k) => k.keyword === "e")
+    )!;
+    expect(joined.cluster_keywords.split(", ").sort()).toEqual(["c", "d", "e"]);
+  });
+
+  it("should reject previous clusters in other output formats", async () => {
+    const xlsxFile = join(dir, "previous.xlsx");
+    await runClustering({ a: shared }, xlsxFile);
+
+    await expect(
+      runClustering({ a: shared }, undefined, undefined, {
+        previousClusters: xlsxFile,
+      })
+    ).rejects.toThrow(/must be a clusters CSV or JSON file, got xlsx/);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Unit tests for inline SERP input and inline results.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  metricsFromInput,
+  runClustering,
+  serpDataFromInput,
+} from "../src/cluster.js";
+
+const rankings = {
+  "best running shoes": ["u1", "u2", "u3", "u4", "u5"],
+  "running shoes reviews": ["u1", "u2", "u3", "x1", "x2"],
+  "unique keyword": ["z1", "z2", "z3"],
+};
+
+describe("Inline SERP input", () => {
+  it("serpDataFromInput should accept ranked URL lists", () => {
+    const serpData = serpDataFromInput(rankings, 3);
+
+    expect(serpData.size).toBe(3);
+    expect(serpData.get("best running shoes")).toEqual([
+      { url: "u1", position: 1 },
+      { url: "u2", position: 2 },
+      { url: "u3", position: 3 },
+    ]);
+  });
+
+  it("serpDataFromInput should accept row objects", () => {
+    const serpData = serpDataFromInput([
+      { keyword: "kw", url: "u2", position: "2" },
+      { keyword: "kw", url: "u1", position: 1 },
+      { keyword: "other", url: "u9" },
+      { keyword: "other", url: "u8" },
+    ]);
+
+    expect(serpData.get("kw")).toEqual([
+      { url: "u2", position: 2 },
+      { url: "u1", position: 1 },
+    ]);
+    expect(serpData.get("other")!.map((r) => r.position)).toEqual([1, 2]);
+  });
+
+  it("serpDataFromInput should reject malformed input", () => {
+    expect(() => serpDataFromInput({ kw: "u1" } as never)).toThrow();
+    expect(() => serpDataFromInput([{ keyword: "kw" }] as never)).toThrow();
+  });
+
+  it("serpDataFromInput should drop garbled positions and positions below 1", () => {
+    const serpData = serpDataFromInput([
+      { keyword: "kw", url: "u1", position: 1 },
+      { keyword: "kw", url: "u2", position: 0 },
+      { keyword: "kw", url: "u3", position: "n/a" },
+      { keyword: "kw", url: "u4", position: -2 },
+      { keyword: "kw", url: "u5", position: "4" },
+    ]);
+
+    expect(serpData.get("kw")).toEqual([
+      { url: "u1", position: 1 },
+      { url: "u5", position: 4 },
+    ]);
+  });
+
+  it("metricsFromInput should read metric fields from rows", () => {
+    const metrics = metricsFromInput([
+      { keyword: "kw", url: "u1", volume: 500, intent: "commercial" },
+      { keyword: "kw", url: "u2", volume: 500 },
+    ]);
+    expect(metrics.get("kw")).toEqual({ volume: 500, intent: "commercial" });
+    expect(metricsFromInput(rankings).size).toBe(0);
+  });
+
+  it("runClustering should return clusters and overlap inline", async () => {
+    const result = await runClustering(rankings);
+
+    expect(result.success).toBe(true);
+    expect(result.output_files).toEqual({});
+    expect(result.clusters).toHaveLength(2);
+    expect(result.clusters[0].cluster_keywords).toBe(
+      "best running shoes, running shoes reviews"
+    );
+    expect(result.overlap).toEqual([
+      {
+        keyword1: "best running shoes",
+        keyword2: "running shoes reviews",
+        shared_urls: ["u1", "u2", "u3"],
+        overlap_count: 3,
+        overlap_score: 0.6,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Unit tests for search intent classification.
+ */
+
+import { describe, it, expect } from "vitest";
+import { runClustering } from "../src/cluster.js";
+import { classifyIntent, resolveIntentRules } from "../src/intent.js";
+
+const en = resolveIntentRules("en");
+
+describe("Search intent", () => {
+  it("should combine keyword modifiers and URL page types", () => {
+    expect(
+      classifyIntent(
+        ["buy running shoes", "running shoes price"],
+        ["https://shop.com/products/shoe-1", "https://store.com/p/123"],
+        en
+      )
+    ).toEqual({ intent: "transactional", confidence: 1 });
+
+    expect(
+      classifyIntent(
+        ["best running shoes", "running shoes"],
+        ["https://runner.com/reviews/shoes", "https://blog.com/blog/shoes"],
+        en
+      )
+    ).toEqual({ intent: "commercial", confidence: 0.67 });
+  });
+
+  it("should match modifiers on word boundaries only", () => {
+    expect(classifyIntent(["bestseller list"], [], en)).toEqual({
+      intent: "informational",
+      confidence: 0,
+    });
+    expect(classifyIntent(["nike vs adidas"], [], en).intent).toBe(
+      "commercial"
+    );
+  });
+
+  it("should use the rules of the chosen language", () => {
+    const de = resolveIntentRules("de");
+    const ru = resolveIntentRules("ru");
+
+    expect(classifyIntent(["laufschuhe kaufen"], [], de).intent).toBe(
+      "transactional"
+    );
+    expect(classifyIntent(["как выбрать кроссовки"], [], ru).intent).toBe(
+      "informational"
+    );
+    expect(classifyIntent(["laufschuhe kaufen"], [], en).confidence).toBe(0);
+  });
+
+  it("should add custom modifiers and brand terms", () => {
+    const rules = resolveIntentRules("en", {
+      modifiers: { transactional: ["rent"] },
+      brands: ["acme"],
+    });
+
+    expect(classifyIntent(["rent a car"], [], rules).intent).toBe(
+      "transactional"
+    );
+    expect(classifyIntent(["acme shoes"], [], rules).intent).toBe(
+      "navigational"
+    );
+  });
+
+  it("should reject unknown languages and invalid rules", () => {
+    expect(() => resolveIntentRules("xx")).toThrow(/intent language/);
+    expect(() =>
+      resolveIntentRules("en", { urlPatterns: { commercial: ["("] } })
+    ).toThrow(/invalid intent URL pattern/);
+    expect(() =>
+      resolveIntentRules("en", {
+        modifiers: { shopping: ["x"] } as Record<string, string[]>,
+      })
+    ).toThrow(/keyed by/);
+  });
+
+  it("runClustering should label each cluster", async () => {
+    const urls = [
+      "https://shop.com/products/1",
+      "https://store.com/shop/2",
+      "https://deals.com/item/3",
+    ];
+    const result = await runClustering(
+      {
+        "buy trail shoes": urls,
+        "trail shoes price": urls,
+        "how to clean trail shoes": ["https://a.com/blog/clean"],
+      },
+      undefined,
+      undefined,
+      { intentLanguage: "en" }
+    );
+
+    expect(result.parameters.intent_language).toBe("en");
+    expect(result.clusters.map((c) => [c.primary_keyword, c.intent])).toEqual([
+      ["buy trail shoes", "transactional"],
+      ["how to clean trail shoes", "informational"],
+    ]);
+    expect(result.clusters[0].intent_confidence).toBe(1);
+  });
+
+  it("should read page types at path and domain granularity", async () => {
+    const serps = {
+      "crm guide": [
+        "https://a.com/blog/crm",
+        "https://b.com/blog/crm-basics",
+        "https://c.com/",
+      ],
+      "crm basics": [
+        "https://a.com/blog/crm",
+        "https://b.com/blog/crm-basics",
+        "https://c.com/",
+      ],
+    };
+    const byPath = await runClustering(serps, undefined, undefined, {
+      granularity: "path",
+    });
+    // Two of three shared pages are blog posts, one a homepage
+    expect(byPath.clusters[0].intent).toBe("informational");
+    expect(byPath.clusters[0].intent_confidence).toBeLessThan(1);
+
+    const byDomain = await runClustering(serps, undefined, undefined, {
+      granularity: "domain",
+    });
+    // Bare domains carry no page type; only the "guide" modifier counts
+    expect(byDomain.clusters[0]).toMatchObject({
+      intent: "informational",
+      intent_confidence: 1,
+    });
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Unit tests for progress reporting and background clustering jobs.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  runClustering,
+  type ClusteringProgress,
+  type ClusteringResult,
+} from "../src/cluster.js";
+import { cancelJob, getJob, startJob } from "../src/jobs.js";
+
+const rankings = {
+  a: ["u1", "u2", "u3"],
+  b: ["u1", "u2", "u3"],
+  c: ["z1"],
+};
+
+/**
+ * Poll a job until it is no longer running.
+ */
+async function waitForJob(jobId: string) {
+  for (;;) {
+    const job = getJob(jobId)!;
+    if (job.status !== "running") {
+      return job;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+describe("Clustering jobs", () => {
+  it("runClustering should report each stage in order", async () => {
+    const reported: ClusteringProgress[] = [];
+    await runClustering(rankings, undefined, undefined, {
+      onProgress: (progress) => reported.push(progress),
+    });
+
+    expect(reported.map((p) => [p.stage, p.progress, p.total])).toEqual([
+      ["loading", 0, 4],
+      ["overlap", 1, 4],
+      ["clustering", 2, 4],
+      ["writing", 3, 4],
+    ]);
+  });
+
+  it("runClustering should stop when aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      runClustering(rankings, undefined, undefined, {
+        signal: controller.signal,
+      })
+    ).rejects.toThrow();
+  });
+
+  it("should run in the background and keep the result", async () => {
+    const reported: string[] = [];
+    const started = startJob(
+      (signal, onProgress) =>
+        runClustering(rankings, undefined, undefined, { signal, onProgress }),
+      (progress, jobId) => reported.push(`${jobId} ${progress.stage}`)
+    );
+    expect(started.status).toBe("running");
+
+    const job = await waitForJob(started.job_id);
+
+    expect(job.status).toBe("completed");
+    expect(job.progress).toBe(job.total);
+    expect(job.result!.clusters_created).toBe(2);
+    expect(job.stage).toBe("writing");
+    expect(job.messages.length).toBeGreaterThanOrEqual(4);
+    expect(reported).toEqual(
+      ["loading", "overlap", "clustering", "writing"].map(
+        (stage) => `${started.job_id} ${stage}`
+      )
+    );
+    expect(getJob(started.job_id)!.result).toEqual(job.result);
+  });
+
+  it("should cancel a running job", async () => {
+    const started = startJob(
+      (signal) =>
+        new Promise<ClusteringResult>((_, reject) =>
+          signal.addEventListener("abort", () => reject(signal.reason))
+        )
+    );
+
+    expect(cancelJob(started.job_id).status).toBe("running");
+    expect((await waitForJob(started.job_id)).status).toBe("cancelled");
+    expect(() => cancelJob(started.job_id)).toThrow(/already cancelled/);
+    expect(() => cancelJob("missing")).toThrow(/Unknown job/);
+  });
+
+  it("should report failures", async () => {
+    const started = startJob(() => runClustering({ a: "not a list" } as never));
+    const job = await waitForJob(started.job_id);
+
+    expect(job.status).toBe("failed");
+    expect(job.error).toMatch(/list of URLs/);
+  });
+});
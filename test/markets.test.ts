@@ -0,0 +1,143 @@
+/**
+ * Unit tests for per-market clustering and the cross-market comparison.
+ */
+
+import { describe, it, expect, afterAll } from "vitest";
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  clusterMarkets,
+  listMarkets,
+  marketOutputPath,
+} from "../src/markets.js";
+import { getRunResult } from "../src/runs.js";
+
+/**
+ * In the US, "crm software" and "best crm" share their SERP; in the UK
+ * "best crm" ranks review sites instead.
+ */
+const rankings: Record<string, Record<string, string[]>> = {
+  us: {
+    "crm software": ["a.com", "b.com", "c.com", "d.com"],
+    "best crm": ["a.com", "b.com", "c.com", "e.com"],
+    "crm login": ["x.com", "y.com"],
+  },
+  uk: {
+    "crm software": ["a.co.uk", "b.co.uk", "c.co.uk", "d.co.uk"],
+    "best crm": ["r1.co.uk", "r2.co.uk", "r3.co.uk"],
+    "crm login": ["x.com", "y.com"],
+  },
+};
+
+const csv = [
+  "keyword,position,url,country",
+  ...Object.entries(rankings).flatMap(([country, serps]) =>
+    Object.entries(serps).flatMap(([keyword, urls]) =>
+      urls.map(
+        (url, i) => `${keyword},${i + 1},${url},${country.toUpperCase()}`
+      )
+    )
+  ),
+].join("\n");
+
+describe("Per-market clustering", () => {
+  const dir = mkdtempSync(join(tmpdir(), "serp-markets-"));
+  const input = join(dir, "serps.csv");
+  writeFileSync(input, csv);
+  afterAll(() => rmSync(dir, { recursive: true }));
+
+  it("should list the markets of an input", async () => {
+    expect(await listMarkets(input)).toEqual([
+      { location: "us" },
+      { location: "uk" },
+    ]);
+    expect(await listMarkets({ kw: ["a.com"] })).toEqual([{}]);
+  });
+
+  it("should cluster each market and compare it with the baseline", async () => {
+    const report = await clusterMarkets(
+      input,
+      join(dir, "clusters.csv"),
+      undefined,
+      { recordRun: true }
+    );
+
+    expect(report.markets.map((m) => [m.label, m.clusters_created])).toEqual([
+      ["location=us", 2],
+      ["location=uk", 3],
+    ]);
+    expect(existsSync(join(dir, "clusters.location-us.csv"))).toBe(true);
+    expect(existsSync(join(dir, "clusters.location-uk.csv"))).toBe(true);
+    const ukRun = getRunResult(report.markets[1].run_id!)!;
+    expect(ukRun.parameters.market).toEqual({ location: "uk" });
+
+    expect(report.comparisons).toHaveLength(1);
+    expect(report.comparisons![0]).toMatchObject({
+      baseline: "location=us",
+      market: "location=uk",
+      keywords_compared: 3,
+      clusters_baseline: 2,
+      clusters_market: 3,
+      moved_keywords: ["best crm"],
+    });
+    expect(report.comparisons![0].split_clusters).toHaveLength(1);
+  });
+
+  it("should honour selected markets, the baseline and compare", async () => {
+    const report = await clusterMarkets(input, undefined, undefined, {
+      markets: [{ location: "UK" }],
+      compare: false,
+    });
+    expect(report.markets.map((m) => m.label)).toEqual(["location=uk"]);
+    expect(report.comparisons).toBeNull();
+
+    const compared = await clusterMarkets(input, undefined, undefined, {
+      baseline: { location: "uk" },
+    });
+    expect(compared.comparisons!.map((c) => c.market)).toEqual(["location=us"]);
+
+    await expect(
+      clusterMarkets(input, undefined, undefined, {
+        market: { location: "us" },
+      })
+    ).rejects.toThrow("with markets, not market");
+    await expect(
+      clusterMarkets(input, undefined, undefined, {
+        markets: [{ location: "us" }],
+        baseline: { location: "uk" },
+      })
+    ).rejects.toThrow("must be one of the clustered markets");
+  });
+
+  it("should cluster each market once", async () => {
+    const stages: string[] = [];
+    await clusterMarkets(input, undefined, undefined, {
+      onProgress: (progress) => stages.push(progress.stage),
+    });
+    expect(stages.filter((stage) => stage === "clustering")).toHaveLength(2);
+  });
+
+  it("should name output files per market", () => {
+    expect(
+      marketOutputPath("out/clusters.csv", {
+        location: "united states",
+        device: "mobile",
+        date: "2024-05-01",
+      })
+    ).toBe(
+      "out/clusters.location-united-states.device-mobile.date-2024-05-01.csv"
+    );
+    expect(marketOutputPath("clusters", {})).toBe("clusters.all");
+  });
+
+  it("should reject markets that would share an output file", async () => {
+    const outputClusters = join(dir, "collide.csv");
+    await expect(
+      clusterMarkets(input, outputClusters, undefined, {
+        markets: [{ location: "new york" }, { location: "new-york" }],
+      })
+    ).rejects.toThrow("would both be written to");
+    expect(existsSync(join(dir, "collide.location-new-york.csv"))).toBe(false);
+  });
+});
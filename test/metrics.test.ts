@@ -0,0 +1,153 @@
+/**
+ * Unit tests for keyword metrics ingestion and primary keyword selection.
+ */
+
+import { describe, it, expect } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join, dirname } from "path";
+import { fileURLToPath } from "url";
+import {
+  calculateUrlOverlap,
+  clusterKeywords,
+  createClusterOutput,
+  loadSerpData,
+  serpDataFromRankings,
+} from "../src/cluster.js";
+import {
+  loadKeywordMetrics,
+  mergeMetrics,
+  selectPrimaryKeyword,
+} from "../src/metrics.js";
+
+const FIXTURES_DIR = join(dirname(fileURLToPath(import.meta.url)), "fixtures");
+const SAMPLE_CSV = join(FIXTURES_DIR, "sample-serp.csv");
+const METRICS_CSV = join(FIXTURES_DIR, "sample-metrics.csv");
+
+describe("Keyword metrics", () => {
+  it("loadKeywordMetrics should map tool-specific column names", () => {
+    const metrics = loadKeywordMetrics(METRICS_CSV);
+
+    expect(metrics.get("best running shoes")).toEqual({
+      volume: 12000,
+      difficulty: 68,
+      cpc: 1.2,
+      intent: "commercial",
+    });
+    expect(metrics.get("waterproof hiking boots")!.cpc).toBe(1.05);
+    expect(metrics.get("hiking boots reviews")!.difficulty).toBeUndefined();
+  });
+
+  it("loadKeywordMetrics should read BOM-prefixed semicolon exports", () => {
+    const dir = mkdtempSync(join(tmpdir(), "serp-metrics-"));
+    const filepath = join(dir, "metrics.csv");
+    writeFileSync(
+      filepath,
+      "\uFEFFKeyword;Search Volume;KD\r\nbest crm;1200;45\r\ncrm login;90;\r\n"
+    );
+    try {
+      const metrics = loadKeywordMetrics(filepath);
+      expect(metrics.get("best crm")).toEqual({ volume: 1200, difficulty: 45 });
+      expect(metrics.get("crm login")).toEqual({ volume: 90 });
+    } finally {
+      rmSync(dir, { recursive: true });
+    }
+  });
+
+  it("loadKeywordMetrics should read decimal commas and thousands separators", () => {
+    const dir = mkdtempSync(join(tmpdir(), "serp-metrics-"));
+    const filepath = join(dir, "metrics.csv");
+    writeFileSync(
+      filepath,
+      "Keyword;Search Volume;CPC\n" +
+        "best crm;12,000;1,50\n" +
+        "crm login;1200;€ 1.234,50\n" +
+        'free crm;"1,234,567";$0.75\n'
+    );
+    try {
+      const metrics = loadKeywordMetrics(filepath);
+      expect(metrics.get("best crm")).toEqual({ volume: 12000, cpc: 1.5 });
+      expect(metrics.get("crm login")).toEqual({ volume: 1200, cpc: 1234.5 });
+      expect(metrics.get("free crm")).toEqual({ volume: 1234567, cpc: 0.75 });
+    } finally {
+      rmSync(dir, { recursive: true });
+    }
+  });
+
+  it("loadKeywordMetrics should return nothing for a plain SERP file", () => {
+    expect(loadKeywordMetrics(SAMPLE_CSV).size).toBe(0);
+  });
+
+  it("mergeMetrics should let later sources override fields", () => {
+    const merged = mergeMetrics(
+      new Map([["kw", { volume: 10, difficulty: 5 }]]),
+      new Map([["kw", { volume: 20 }]])
+    );
+    expect(merged.get("kw")).toEqual({ volume: 20, difficulty: 5 });
+  });
+
+  it("selectPrimaryKeyword should follow the configured rule", () => {
+    const metrics = loadKeywordMetrics(METRICS_CSV);
+    const keywords = [
+      "best running shoes",
+      "running shoes reviews",
+      "top running shoes 2024",
+    ];
+
+    expect(selectPrimaryKeyword(keywords, metrics, "volume")).toBe(
+      "top running shoes 2024"
+    );
+    expect(selectPrimaryKeyword(keywords, metrics, "difficulty")).toBe(
+      "running shoes reviews"
+    );
+    expect(selectPrimaryKeyword(keywords, metrics, "cpc")).toBe(
+      "best running shoes"
+    );
+    expect(selectPrimaryKeyword(keywords, metrics, "alphabetical")).toBe(
+      "best running shoes"
+    );
+    expect(selectPrimaryKeyword(keywords, new Map(), "volume")).toBe(
+      "best running shoes"
+    );
+  });
+
+  it("createClusterOutput should aggregate cluster metrics", async () => {
+    const serpData = await loadSerpData(SAMPLE_CSV);
+    const clusters = clusterKeywords(serpData, calculateUrlOverlap(serpData));
+    const output = createClusterOutput(clusters, serpData, {
+      metrics: loadKeywordMetrics(METRICS_CSV),
+    });
+
+    const running = output.find((c) =>
+      c.cluster_keywords.includes("best running shoes")
+    )!;
+    expect(running.primary_keyword).toBe("top running shoes 2024");
+    expect(running.recommended_slug).toBe("top-running-shoes-2024");
+    expect(running.total_volume).toBe(42400);
+    expect(running.avg_difficulty).toBe(55);
+    expect(running.keywords).toHaveLength(3);
+
+    const standalone = output.find(
+      (c) => c.primary_keyword === "unique keyword alone"
+    )!;
+    expect(standalone.total_volume).toBe(0);
+    expect(standalone.avg_difficulty).toBeNull();
+    expect(standalone.keywords[0].volume).toBeNull();
+  });
+
+  it("createClusterOutput should intersect every member with a non-first primary", () => {
+    const serpData = serpDataFromRankings({
+      alpha: ["u1", "u2", "x"],
+      beta: ["u1", "u2", "u3", "y"],
+      gamma: ["u1", "u2", "u3", "z"],
+    });
+    const [cluster] = createClusterOutput(
+      [new Set(["alpha", "beta", "gamma"])],
+      serpData,
+      { metrics: new Map([["beta", { volume: 500 }]]) }
+    );
+
+    expect(cluster.primary_keyword).toBe("beta");
+    expect(cluster.shared_url_list).toEqual(["u1", "u2"]);
+  });
+});
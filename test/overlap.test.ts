@@ -0,0 +1,150 @@
+/**
+ * Tests and benchmark for the inverted-index overlap matrix.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  calculateUrlOverlap,
+  clusteringStrategies,
+  overlapPairs,
+  serpDataFromRankings,
+  type OverlapPair,
+  type SerpData,
+} from "../src/cluster.js";
+import { sortedPairs } from "../src/overlap.js";
+import { rankUrls, similarityMeasures } from "../src/similarity.js";
+
+/**
+ * Deterministic pseudo-random numbers (mulberry32).
+ */
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Synthetic SERPs: keywords grouped into topics that draw their top 10
+ * from a shared URL pool, plus a few sites ranking across all topics.
+ */
+function syntheticSerps(keywordCount: number, seed = 1): SerpData {
+  const next = random(seed);
+  const rankings: Record<string, string[]> = {};
+  for (let k = 0; k < keywordCount; k++) {
+    const topic = Math.floor(k / 8);
+    const urls = new Set<string>();
+    while (urls.size < 10) {
+      urls.add(
+        next() < 0.05
+          ? `https://hub${Math.floor(next() * 2000)}.com/`
+          : `https://site${Math.floor(next() * 14)}.com/topic-${topic}`
+      );
+    }
+    rankings[`keyword ${k}`] = Array.from(urls);
+  }
+  return serpDataFromRankings(rankings);
+}
+
+/**
+ * The original all-pairs computation, kept as a reference.
+ */
+function naiveOverlap(serpData: SerpData, similarity = "min"): OverlapPair[] {
+  const measure = similarityMeasures[similarity as "min"];
+  const keywords = Array.from(serpData.keys());
+  const rankings = keywords.map((kw) => rankUrls(serpData.get(kw)!));
+  const pairs: OverlapPair[] = [];
+  for (let i = 0; i < keywords.length; i++) {
+    for (let j = i + 1; j < keywords.length; j++) {
+      const urls2 = new Set(rankings[j].map((r) => r.url));
+      const shared = rankings[i]
+        .map((r) => r.url)
+        .filter((url) => urls2.has(url));
+      if (shared.length > 0) {
+        const score = measure(rankings[i], rankings[j], shared.length);
+        pairs.push({
+          keyword1: keywords[i],
+          keyword2: keywords[j],
+          shared_urls: shared,
+          overlap_count: shared.length,
+          overlap_score: Number(score.toFixed(3)),
+        });
+      }
+    }
+  }
+  return pairs;
+}
+
+describe("Overlap matrix", () => {
+  it("should match the all-pairs computation for every measure", () => {
+    const serpData = syntheticSerps(600);
+    for (const similarity of Object.keys(similarityMeasures)) {
+      expect(
+        overlapPairs(calculateUrlOverlap(serpData, similarity as "min" | "rbo"))
+      ).toEqual(naiveOverlap(serpData, similarity));
+    }
+  });
+
+  it("pruning should keep only qualifying pairs and the same clusters", () => {
+    const serpData = syntheticSerps(600);
+    const options = { minOverlap: 4, minOverlapScore: 0.5 };
+    const full = calculateUrlOverlap(serpData);
+    const pruned = calculateUrlOverlap(serpData, "min", options);
+
+    expect(pruned.size).toBeLessThan(full.size);
+    expect(
+      overlapPairs(pruned).every(
+        (p) => p.overlap_count >= 4 && p.overlap_score >= 0.5
+      )
+    ).toBe(true);
+    for (const strategy of Object.values(clusteringStrategies)) {
+      expect(strategy(serpData, pruned, options)).toEqual(
+        strategy(serpData, full, options)
+      );
+    }
+  });
+
+  it("sortedPairs should order equal counts by score, then storage order", () => {
+    // Both pairs share 3 URLs: a-b at the bottom, c-d at the top
+    const serpData = serpDataFromRankings({
+      a: ["a1", "a2", "a3", "a4", "s1", "s2", "s3"],
+      b: ["b1", "b2", "b3", "b4", "s1", "s2", "s3"],
+      c: ["t1", "t2", "t3", "c1", "c2", "c3", "c4"],
+      d: ["t1", "t2", "t3", "d1", "d2", "d3", "d4"],
+    });
+    const order = (similarity: "min" | "weighted") => {
+      const matrix = calculateUrlOverlap(serpData, similarity);
+      return Array.from(sortedPairs(matrix), (pair) =>
+        [matrix.first[pair], matrix.second[pair]]
+          .map((i) => matrix.keywords[i])
+          .join("-")
+      );
+    };
+
+    // Equal scores keep the reference script's (storage) order
+    expect(order("min")).toEqual(["a-b", "c-d"]);
+    // The measure decides between equal counts, unlike the reference
+    expect(order("weighted")).toEqual(["c-d", "a-b"]);
+  });
+
+  it("should handle 50k keywords", { timeout: 120000 }, () => {
+    const serpData = syntheticSerps(50000);
+
+    const start = performance.now();
+    const overlap = calculateUrlOverlap(serpData);
+    const clusters = clusteringStrategies.soft(serpData, overlap, {
+      minOverlap: 3,
+      minOverlapScore: 0,
+    });
+    const elapsed = performance.now() - start;
+
+    expect(overlap.size).toBeGreaterThan(50000);
+    expect(clusters.reduce((sum, c) => sum + c.size, 0)).toBeGreaterThan(
+      50000 - 1
+    );
+    // The all-pairs loop needs well over a minute here
+    expect(elapsed).toBeLessThan(60000);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Unit tests for the workflow prompts.
+ */
+
+import { describe, it, expect } from "vitest";
+import { runClustering } from "../src/cluster.js";
+import { getRunResult } from "../src/runs.js";
+import { prompts, renderPrompt } from "../src/prompts.js";
+
+const fixture = "test/fixtures/sample-serp.csv";
+
+const rankings = {
+  "crm software": ["https://example.com/crm", "x1", "x2", "x3"],
+  "best crm": ["x1", "https://example.com/crm", "x2", "x3"],
+  "crm tips": ["y1", "https://example.com/blog/a", "y2", "y3"],
+  "crm advice": ["y1", "y2", "https://example.com/blog/b", "y3"],
+};
+
+/** The JSON blocks embedded in a prompt. */
+function jsonBlocks(text: string): unknown[] {
+  return Array.from(text.matchAll(/```json\n([\s\S]*?)\n```/g), (m) =>
+    JSON.parse(m[1])
+  );
+}
+
+describe("Prompts", () => {
+  it("should embed the clusters of a stored run, largest volume first", async () => {
+    const result = await runClustering(fixture, undefined, undefined, {
+      recordRun: true,
+    });
+
+    for (const name of Object.keys(prompts).filter(
+      (name) => name !== "cannibalisation_review"
+    )) {
+      const { description, text } = await renderPrompt(name, {
+        run_id: result.run_id!,
+        max_clusters: "2",
+      });
+      expect(description).toBe(prompts[name].description);
+      expect(text).toContain(`serp-clustering://runs/${result.run_id}`);
+
+      const [clusters] = jsonBlocks(text) as { total_volume: number }[][];
+      expect(clusters).toHaveLength(2);
+      expect(clusters[0].total_volume).toBe(
+        Math.max(...result.clusters.map((c) => c.total_volume))
+      );
+    }
+
+    const { text } = await renderPrompt("content_plan", {
+      run_id: result.run_id!,
+      cadence: "1 article per month",
+    });
+    expect(text).toContain("1 article per month");
+    expect(jsonBlocks(text)[0]).toHaveLength(result.clusters.length);
+  });
+
+  it("should review cannibalisation of a site-mapped run", async () => {
+    const result = await runClustering(rankings, undefined, undefined, {
+      site: { domain: "example.com" },
+      recordRun: true,
+    });
+    const { text } = await renderPrompt("cannibalisation_review", {
+      run_id: result.run_id!,
+    });
+    const [clusters, urls] = jsonBlocks(text);
+    expect(clusters).toEqual(result.cannibalisation!.clusters);
+    expect(urls).toEqual(result.cannibalisation!.urls);
+
+    const unmapped = await runClustering(rankings, undefined, undefined, {
+      recordRun: true,
+    });
+    await expect(
+      renderPrompt("cannibalisation_review", { run_id: unmapped.run_id! })
+    ).rejects.toThrow("needs a run mapped to our site");
+  });
+
+  it("should cluster and store an input file", async () => {
+    const { text } = await renderPrompt("site_architecture", {
+      input_file: fixture,
+    });
+    const runId = text.match(/clustering run (\S+) /)![1];
+    expect(getRunResult(runId)).toBeDefined();
+  });
+
+  it("should reject bad arguments", async () => {
+    await expect(renderPrompt("content_plan", {})).rejects.toThrow(
+      "exactly one of run_id or input_file"
+    );
+    await expect(
+      renderPrompt("content_plan", { run_id: "x", input_file: fixture })
+    ).rejects.toThrow("exactly one of run_id or input_file");
+    await expect(
+      renderPrompt("content_plan", { run_id: "unknown" })
+    ).rejects.toThrow("Unknown run: unknown");
+    await expect(
+      renderPrompt("content_plan", { input_file: "missing.csv" })
+    ).rejects.toThrow("Input file not found");
+    await expect(
+      renderPrompt("content_plan", { input_file: fixture, max_clusters: "0" })
+    ).rejects.toThrow("max_clusters must be a positive integer");
+    await expect(
+      renderPrompt("unknown", { input_file: fixture })
+    ).rejects.toThrow("Unknown prompt: unknown");
+  });
+});
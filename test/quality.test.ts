@@ -0,0 +1,84 @@
+/**
+ * Unit tests for cluster cohesion and global quality metrics.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  calculateUrlOverlap,
+  runClustering,
+  serpDataFromRankings,
+} from "../src/cluster.js";
+import { clusterCohesion, clusteringQuality } from "../src/quality.js";
+
+const rankings = {
+  a: ["u1", "u2", "u3", "u4"],
+  b: ["u1", "u2", "u3", "u5"],
+  c: ["u1", "u2", "u6", "u7"],
+  d: ["x1"],
+};
+
+describe("Cluster quality", () => {
+  const overlapMatrix = calculateUrlOverlap(serpDataFromRankings(rankings));
+
+  it("should report pairwise cohesion and the weakest member", () => {
+    const cohesion = clusterCohesion(
+      [new Set(["a", "b", "c"]), new Set(["d"])],
+      overlapMatrix
+    );
+
+    expect(cohesion).toEqual([
+      {
+        avg_overlap: 0.583,
+        min_overlap: 0.5,
+        weakest_keyword: "c",
+        weakest_overlap: 0.5,
+      },
+      null,
+    ]);
+    // Members sharing no URL count as 0
+    expect(
+      clusterCohesion([new Set(["a", "d"])], overlapMatrix)[0]
+    ).toMatchObject({ avg_overlap: 0, min_overlap: 0 });
+  });
+
+  it("should compute silhouette, modularity and singleton ratio", () => {
+    const quality = clusteringQuality(
+      [new Set(["a", "b"]), new Set(["c"]), new Set(["d"])],
+      overlapMatrix
+    );
+
+    expect(quality).toEqual({
+      keywords: 4,
+      clusters: 3,
+      multi_keyword_clusters: 1,
+      largest_cluster: 2,
+      singleton_ratio: 0.5,
+      avg_cohesion: 0.75,
+      silhouette: 0.25,
+      modularity: -0.163,
+    });
+    const merged = clusteringQuality(
+      [new Set(["a", "b", "c"]), new Set(["d"])],
+      overlapMatrix
+    );
+    expect(merged.silhouette).toBeGreaterThan(quality.silhouette);
+    expect(merged.modularity).toBe(0);
+  });
+
+  it("should include cohesion and quality in clustering results", async () => {
+    const result = await runClustering(rankings, undefined, undefined, {
+      minOverlap: 2,
+    });
+
+    expect(result.quality).toMatchObject({
+      clusters: 2,
+      singleton_ratio: 0.25,
+    });
+    const cluster = result.clusters.find((c) => c.keyword_count === 3)!;
+    expect(cluster.cohesion?.weakest_keyword).toBe("c");
+    expect(result.clusters.find((c) => c.keyword_count === 1)!.cohesion).toBe(
+      null
+    );
+    expect(result.message).toContain("Quality: silhouette");
+  });
+});
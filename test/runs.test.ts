@@ -0,0 +1,101 @@
+/**
+ * Unit tests for the run store behind the run resources.
+ */
+
+import { describe, it, expect } from "vitest";
+import { runClustering, type OverlapPair } from "../src/cluster.js";
+import {
+  getRunResult,
+  getRunView,
+  listRuns,
+  MAX_STORED_PAIRS,
+  MAX_STORED_RUNS,
+  parseRunUri,
+  runUri,
+} from "../src/runs.js";
+
+const serpData = {
+  a: ["u1", "u2", "u3"],
+  b: ["u1", "u2", "u3"],
+  c: ["x1"],
+};
+
+describe("Run store", () => {
+  it("should store recorded runs with all their views", async () => {
+    const result = await runClustering(serpData, undefined, undefined, {
+      recordRun: true,
+    });
+    const runId = result.run_id!;
+
+    expect(listRuns()[0]).toMatchObject({
+      run_id: runId,
+      input: "inline",
+      keywords: 3,
+      clusters_created: 2,
+    });
+    expect(getRunView(runId, "parameters")).toEqual(result.parameters);
+    expect(getRunView(runId, "clusters")).toEqual(result.clusters);
+    expect(getRunView(runId, "overlap")).toEqual([
+      {
+        keyword1: "a",
+        keyword2: "b",
+        shared_urls: ["u1", "u2", "u3"],
+        overlap_count: 3,
+        overlap_score: 1,
+      },
+    ]);
+    expect(getRunView("unknown", "summary")).toBeUndefined();
+
+    const unrecorded = await runClustering(serpData);
+    expect(unrecorded.run_id).toBeUndefined();
+  });
+
+  it("should keep only the strongest overlap pairs", async () => {
+    // 50 keywords sharing two URLs, of which two share a third
+    const rankings: Record<string, string[]> = {};
+    for (let i = 0; i < 50; i++) {
+      rankings[`kw ${i}`] = i < 2 ? ["u1", "u2", "x1"] : ["u1", "u2"];
+    }
+    const result = await runClustering(rankings, undefined, undefined, {
+      recordRun: true,
+    });
+    const runId = result.run_id!;
+
+    const pairs = getRunView(runId, "overlap") as OverlapPair[];
+    expect(pairs).toHaveLength(MAX_STORED_PAIRS);
+    expect(pairs[0]).toMatchObject({
+      keyword1: "kw 0",
+      keyword2: "kw 1",
+      overlap_count: 3,
+    });
+    expect(listRuns()[0].overlap_pairs).toBe(1225);
+    expect(getRunResult(runId)).toMatchObject({ run_id: runId });
+    expect(getRunResult(runId)!.overlap).toBeUndefined();
+    expect(result.overlap).toHaveLength(1225);
+  });
+
+  it("should evict the oldest runs", async () => {
+    const first = await runClustering(serpData, undefined, undefined, {
+      recordRun: true,
+    });
+    for (let i = 0; i < MAX_STORED_RUNS; i++) {
+      await runClustering(serpData, undefined, undefined, { recordRun: true });
+    }
+
+    expect(listRuns()).toHaveLength(MAX_STORED_RUNS);
+    expect(getRunView(first.run_id!, "summary")).toBeUndefined();
+  });
+
+  it("should round-trip run URIs", () => {
+    expect(runUri("abc", "clusters")).toBe(
+      "serp-clustering://runs/abc/clusters"
+    );
+    expect(parseRunUri("serp-clustering://runs/abc/clusters")).toEqual({
+      runId: "abc",
+      view: "clusters",
+    });
+    expect(parseRunUri("serp-clustering://runs/abc/other")).toBeUndefined();
+    expect(parseRunUri("serp-clustering://runs/abc")).toBeUndefined();
+    expect(parseRunUri("file:///runs/abc/clusters")).toBeUndefined();
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Unit tests for SERP similarity measures.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  calculateUrlOverlap,
+  getPairOverlap,
+  serpDataFromRankings,
+} from "../src/cluster.js";
+import { rankUrls, similarityMeasures } from "../src/similarity.js";
+
+const ranking = (urls: string[]) =>
+  urls.map((url, i) => ({ url, position: i + 1 }));
+
+describe("Similarity measures", () => {
+  const identical = ranking(["u1", "u2", "u3", "u4"]);
+
+  it("every measure should score identical SERPs as 1", () => {
+    for (const measure of Object.values(similarityMeasures)) {
+      expect(measure(identical, identical, 4)).toBeCloseTo(1);
+    }
+  });
+
+  it("min and jaccard should match their set definitions", () => {
+    const a = ranking(["u1", "u2", "u3", "u4"]);
+    const b = ranking(["u1", "u2", "x1", "x2", "x3", "x4"]);
+
+    expect(similarityMeasures.min(a, b, 2)).toBeCloseTo(0.5);
+    expect(similarityMeasures.jaccard(a, b, 2)).toBeCloseTo(2 / 8);
+  });
+
+  it("weighted and rbo should favour overlap at top positions", () => {
+    const base = ranking(["u1", "u2", "u3", "u4", "u5", "u6"]);
+    const top = ranking(["u1", "u2", "x1", "x2", "x3", "x4"]);
+    const bottom = ranking(["x1", "x2", "x3", "x4", "u5", "u6"]);
+
+    for (const name of ["weighted", "rbo"] as const) {
+      const measure = similarityMeasures[name];
+      expect(measure(base, top, 2)).toBeGreaterThan(measure(base, bottom, 2));
+    }
+    // Plain min-size overlap cannot tell them apart
+    expect(similarityMeasures.min(base, top, 2)).toBe(
+      similarityMeasures.min(base, bottom, 2)
+    );
+  });
+
+  it("rankUrls should keep the best position of duplicate URLs", () => {
+    const ranked = rankUrls([
+      { url: "u2", position: 2 },
+      { url: "u1", position: 3 },
+      { url: "u2", position: 1 },
+    ]);
+    expect(ranked).toEqual([
+      { url: "u2", position: 1 },
+      { url: "u1", position: 3 },
+    ]);
+  });
+
+  it("calculateUrlOverlap should use the selected measure", () => {
+    const serpData = serpDataFromRankings({
+      a: ["u1", "u2", "u3", "u4"],
+      b: ["u1", "u2", "x1", "x2", "x3", "x4"],
+    });
+
+    const byMin = getPairOverlap(calculateUrlOverlap(serpData), "a", "b")!;
+    const byJaccard = getPairOverlap(
+      calculateUrlOverlap(serpData, "jaccard"),
+      "a",
+      "b"
+    )!;
+
+    expect(byMin.count).toBe(2);
+    expect(byJaccard.count).toBe(2);
+    expect(byMin.overlapScore).toBeCloseTo(0.5);
+    expect(byJaccard.overlapScore).toBeCloseTo(0.25);
+  });
+});
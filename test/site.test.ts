@@ -0,0 +1,122 @@
+/**
+ * Unit tests for mapping clusters to our own site pages.
+ */
+
+import { describe, it, expect, afterAll } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { runClustering } from "../src/cluster.js";
+import { loadSitemapUrls } from "../src/site.js";
+
+const rankings = {
+  "crm software": ["https://example.com/crm", "x1", "x2", "x3"],
+  "best crm": ["x1", "https://example.com/crm", "x2", "x3"],
+  "crm tips": [
+    "y1",
+    "https://example.com/blog/a",
+    "y2",
+    "https://www.example.com/blog/b/",
+  ],
+  "crm advice": [
+    "y1",
+    "y2",
+    "https://example.com/blog/b",
+    "y3",
+    "https://example.com/blog/a",
+  ],
+  "crm pricing": ["z1", "z2", "https://example.com/crm"],
+  "crm login": ["w1", "w2"],
+};
+
+describe("Site mapping", () => {
+  const dir = mkdtempSync(join(tmpdir(), "serp-site-"));
+  afterAll(() => rmSync(dir, { recursive: true }));
+
+  it("should map clusters to ranking pages and flag cannibalisation", async () => {
+    const result = await runClustering(rankings, undefined, undefined, {
+      site: { domain: "www.example.com" },
+    });
+    const byPrimary = new Map(
+      result.clusters.map((c) => [c.primary_keyword, c])
+    );
+
+    const crm = byPrimary.get("best crm")!;
+    expect(crm.existing_page).toBe("https://example.com/crm");
+    expect(crm.site_pages![0]).toEqual({
+      url: "https://example.com/crm",
+      keywords: ["best crm", "crm software"],
+      best_position: 1,
+    });
+    expect(crm.needs_new_page).toBe(false);
+    expect(byPrimary.get("crm login")!).toMatchObject({
+      existing_page: null,
+      site_pages: [],
+      needs_new_page: true,
+    });
+
+    const blog = byPrimary.get("crm advice")!;
+    expect(result.cannibalisation!.clusters).toEqual([
+      {
+        cluster_id: blog.cluster_id,
+        primary_keyword: "crm advice",
+        urls: ["https://example.com/blog/a", "https://example.com/blog/b"],
+      },
+    ]);
+    expect(result.cannibalisation!.urls).toEqual([
+      {
+        url: "https://example.com/crm",
+        cluster_ids: [crm.cluster_id, byPrimary.get("crm pricing")!.cluster_id],
+      },
+    ]);
+  });
+
+  it("should match listed URLs and sitemap entries after normalisation", async () => {
+    const sitemap = join(dir, "sitemap.xml");
+    writeFileSync(
+      sitemap,
+      `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url><loc>http://www.example.com/blog/b/?utm_source=x&amp;utm_medium=y</loc></url>
+  <url><loc> https://example.com/crm </loc></url>
+</urlset>`
+    );
+    expect(loadSitemapUrls(sitemap)).toEqual([
+      "http://www.example.com/blog/b/?utm_source=x&utm_medium=y",
+      "https://example.com/crm",
+    ]);
+
+    const result = await runClustering(rankings, undefined, undefined, {
+      site: { urls: ["http://example.com/blog/a/"], sitemapFile: sitemap },
+    });
+    const blog = result.clusters.find(
+      (c) => c.primary_keyword === "crm advice"
+    )!;
+    expect(blog.site_pages!.map((p) => p.url)).toEqual([
+      "https://example.com/blog/a",
+      "https://example.com/blog/b",
+    ]);
+    expect(result.parameters.site_domain).toBeNull();
+  });
+
+  it("should add site columns to the clusters CSV", async () => {
+    const filepath = join(dir, "clusters.csv");
+    await runClustering(rankings, filepath, undefined, {
+      site: { domain: "example.com" },
+    });
+    const [header] = readFileSync(filepath, "utf-8").split("\n");
+
+    expect(header).toMatch(
+      /,intent_confidence,top_domains,existing_page,site_urls,needs_new_page$/
+    );
+  });
+
+  it("should reject a site without domain or URLs", async () => {
+    await expect(
+      runClustering(rankings, undefined, undefined, { site: {} })
+    ).rejects.toThrow(/domain, URLs or a sitemap/);
+    await expect(
+      runClustering(rankings, undefined, undefined, { site: { domain: "" } })
+    ).rejects.toThrow(/Invalid site domain/);
+  });
+});
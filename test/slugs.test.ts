@@ -0,0 +1,81 @@
+/**
+ * Unit tests for multilingual slug generation.
+ */
+
+import { describe, it, expect } from "vitest";
+import { runClustering } from "../src/cluster.js";
+import { createSlugger, generateSlug } from "../src/slugs.js";
+
+describe("Slugs", () => {
+  it("should transliterate accented, Cyrillic and Greek keywords", () => {
+    expect(generateSlug("café")).toBe("cafe");
+    expect(generateSlug("Crème Brûlée")).toBe("creme-brulee");
+    expect(generateSlug("Straße")).toBe("strasse");
+    expect(generateSlug("купить диван", { locale: "ru" })).toBe("kupit-divan");
+    expect(generateSlug("Щётка для обуви")).toBe("shchetka-dlya-obuvi");
+    expect(generateSlug("καφές")).toBe("kafes");
+    // No transliteration table: kept as Unicode letters
+    expect(generateSlug("咖啡机 价格")).toBe("咖啡机-价格");
+  });
+
+  it("should apply locale-specific letters", () => {
+    expect(generateSlug("Küche für Anfänger", { locale: "de" })).toBe(
+      "kueche-fuer-anfaenger"
+    );
+    expect(generateSlug("Küche für Anfänger")).toBe("kuche-fur-anfanger");
+  });
+
+  it("should drop stopwords of the locale when asked", () => {
+    const options = { removeStopwords: true };
+    expect(
+      generateSlug("Küche für Anfänger", { ...options, locale: "de" })
+    ).toBe("kueche-anfaenger");
+    expect(
+      generateSlug("купить диван в москве", { ...options, locale: "ru" })
+    ).toBe("kupit-divan-moskve");
+    expect(generateSlug("zapatos de niña", { ...options, locale: "es" })).toBe(
+      "zapatos-nina"
+    );
+    expect(generateSlug("the best of", options)).toBe("best");
+    expect(generateSlug("to be or not", options)).toBe("be-not");
+    // Stopwords only: kept as they are
+    expect(generateSlug("of the", options)).toBe("of-the");
+  });
+
+  it("should truncate on word boundaries", () => {
+    expect(generateSlug("running shoes for women", { maxLength: 15 })).toBe(
+      "running-shoes"
+    );
+    expect(generateSlug("abcdefghij klm", { maxLength: 5 })).toBe("abcde");
+  });
+
+  it("should de-duplicate colliding slugs", () => {
+    const slugFor = createSlugger({}, ["crm"]);
+    expect(slugFor("seo tools")).toBe("seo-tools");
+    expect(slugFor("SEO Tools!")).toBe("seo-tools-2");
+    expect(slugFor("seo  tools")).toBe("seo-tools-3");
+    expect(slugFor("CRM")).toBe("crm-2");
+
+    const short = createSlugger({ maxLength: 9 });
+    expect(short("seo tools")).toBe("seo-tools");
+    expect(short("seo tools")).toBe("seo-too-2");
+  });
+
+  it("should use the run's slug locale and keep slugs unique", async () => {
+    const result = await runClustering(
+      { Küche: ["u1"], kueche: ["u2"] },
+      undefined,
+      undefined,
+      { slugLocale: "de" }
+    );
+
+    expect(result.parameters.slug_locale).toBe("de");
+    expect(result.clusters.map((c) => c.recommended_slug).sort()).toEqual([
+      "kueche",
+      "kueche-2",
+    ]);
+    await expect(
+      runClustering({ a: ["u1"] }, undefined, undefined, { slugLocale: "fr" })
+    ).rejects.toThrow(/Slug locale/);
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Unit tests for the threshold sweep.
+ */
+
+import { describe, it, expect, afterAll } from "vitest";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { sweepThresholds } from "../src/sweep.js";
+
+const rankings = {
+  a: ["u1", "u2", "u3", "u4"],
+  b: ["u1", "u2", "u3", "u5"],
+  c: ["u1", "u2", "u6", "u7"],
+  d: ["x1"],
+};
+
+describe("Threshold sweep", () => {
+  const dir = mkdtempSync(join(tmpdir(), "serp-sweep-"));
+  afterAll(() => rmSync(dir, { recursive: true }));
+
+  it("should compare every combination and pick the best silhouette", async () => {
+    const outputFile = join(dir, "sweep.csv");
+    const report = await sweepThresholds(rankings, outputFile, {
+      minOverlapValues: [2, 3],
+      similarities: ["min", "jaccard"],
+    });
+
+    expect(
+      report.runs.map((run) => [run.similarity, run.min_overlap, run.clusters])
+    ).toEqual([
+      ["min", 2, 2],
+      ["min", 3, 3],
+      ["jaccard", 2, 2],
+      ["jaccard", 3, 3],
+    ]);
+    expect(report.best).toMatchObject({ similarity: "min", min_overlap: 2 });
+
+    const lines = readFileSync(outputFile, "utf-8").split("\n");
+    expect(lines).toHaveLength(5);
+    expect(lines[0]).toBe(
+      "similarity,min_overlap,min_overlap_score,clusters,multi_keyword_clusters,largest_cluster,singleton_ratio,avg_cohesion,silhouette,modularity"
+    );
+    expect(lines[2]).toBe("min,3,,3,1,2,0.5,0.75,0.25,-0.163");
+  });
+
+  it("should validate the grid before clustering", async () => {
+    await expect(
+      sweepThresholds(rankings, undefined, { minOverlapValues: [] })
+    ).rejects.toThrow(/non-empty list/);
+    await expect(
+      sweepThresholds(rankings, undefined, { minOverlapValues: [2, 11] })
+    ).rejects.toThrow(/cannot exceed maxPosition/);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Unit tests for URL normalisation and overlap granularity.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  calculateUrlOverlap,
+  getPairOverlap,
+  serpDataFromInput,
+} from "../src/cluster.js";
+import { createUrlNormalizer, normalizeUrl } from "../src/urls.js";
+
+describe("URL normalisation", () => {
+  it("normalizeUrl should collapse trivial variants", () => {
+    const variants = [
+      "https://example.com/page",
+      "http://example.com/page",
+      "https://www.example.com/page/",
+      "https://Example.com/page#section",
+      "https://example.com/page?utm_source=x&gclid=1",
+    ];
+    for (const url of variants) {
+      expect(normalizeUrl(url)).toBe("https://example.com/page");
+    }
+  });
+
+  it("normalizeUrl should keep meaningful query parameters", () => {
+    expect(normalizeUrl("https://shop.com/list?page=2&utm_medium=cpc")).toBe(
+      "https://shop.com/list?page=2"
+    );
+    expect(
+      normalizeUrl("https://shop.com/list?page=2", { stripQuery: true })
+    ).toBe("https://shop.com/list");
+  });
+
+  it("normalizeUrl should respect disabled steps", () => {
+    expect(
+      normalizeUrl("http://www.example.com/page/", {
+        unifyProtocol: false,
+        stripWww: false,
+        stripTrailingSlash: false,
+      })
+    ).toBe("http://www.example.com/page/");
+  });
+
+  it("createUrlNormalizer should support domain and path granularity", () => {
+    const url = "https://www.example.com/blog/post-1/";
+
+    expect(createUrlNormalizer({}, "domain")(url)).toBe("example.com");
+    expect(createUrlNormalizer({}, "path")(url)).toBe("example.com/blog");
+    expect(createUrlNormalizer({}, "path", 2)(url)).toBe(
+      "example.com/blog/post-1"
+    );
+    expect(createUrlNormalizer(false)(" http://x.com/ ")).toBe("http://x.com/");
+  });
+
+  it("normalised URLs should reveal overlap hidden by variants", () => {
+    const input = {
+      a: ["https://a.com/x", "https://b.com/y", "https://c.com/z"],
+      b: ["http://www.a.com/x/", "https://b.com/y?utm_source=t", "c.com/z"],
+    };
+
+    const raw = serpDataFromInput(input, 10, createUrlNormalizer(false));
+    expect(calculateUrlOverlap(raw).size).toBe(0);
+
+    const overlap = getPairOverlap(
+      calculateUrlOverlap(serpDataFromInput(input)),
+      "a",
+      "b"
+    )!;
+    expect(overlap.count).toBe(3);
+    expect(overlap.sharedUrls).toEqual([
+      "https://a.com/x",
+      "https://b.com/y",
+      "https://c.com/z",
+    ]);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Unit tests for the JSON, XLSX and Markdown output writers.
+ */
+
+import { describe, it, expect, afterAll } from "vitest";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { inflateRawSync } from "zlib";
+import { runClustering } from "../src/cluster.js";
+import { MAX_WORKBOOK_PAIRS, outputFormatFor } from "../src/writers.js";
+
+const serpData = {
+  "crm software": ["u1", "u2", "u3", "u4", "u5"],
+  "best crm": ["u1", "u2", "u3", "u4", "u6"],
+  "crm | tips": ["t1"],
+};
+
+/**
+ * Read the entries of a ZIP archive through its central directory.
+ */
+function unzip(data: Buffer): Map<string, string> {
+  const files = new Map<string, string>();
+  const end = data.length - 22;
+  expect(data.readUInt32LE(end)).toBe(0x06054b50);
+  let offset = data.readUInt32LE(end + 16);
+  for (let entry = 0; entry < data.readUInt16LE(end + 10); entry++) {
+    const size = data.readUInt32LE(offset + 20);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const name = data.toString("utf-8", offset + 46, offset + 46 + nameLength);
+    const header = data.readUInt32LE(offset + 42);
+    const start =
+      header +
+      30 +
+      data.readUInt16LE(header + 26) +
+      data.readUInt16LE(header + 28);
+    files.set(
+      name,
+      inflateRawSync(data.subarray(start, start + size)).toString("utf-8")
+    );
+    offset +=
+      46 +
+      nameLength +
+      data.readUInt16LE(offset + 30) +
+      data.readUInt16LE(offset + 32);
+  }
+  return files;
+}
+
+describe("Output writers", () => {
+  const dir = mkdtempSync(join(tmpdir(), "serp-writers-"));
+  afterAll(() => rmSync(dir, { recursive: true }));
+
+  it("should pick the format from the extension or the explicit format", () => {
+    expect(outputFormatFor("clusters.json")).toBe("json");
+    expect(outputFormatFor("Clusters.XLSX")).toBe("xlsx");
+    expect(outputFormatFor("briefs.markdown")).toBe("md");
+    expect(outputFormatFor("clusters.txt")).toBe("csv");
+    expect(outputFormatFor("clusters.csv", "json")).toBe("json");
+    expect(() => outputFormatFor("clusters.csv", "pdf" as "csv")).toThrow(
+      /Output format must be one of/
+    );
+  });
+
+  it("should write nested JSON with full keyword and URL lists", async () => {
+    const clustersFile = join(dir, "clusters.json");
+    const overlapFile = join(dir, "overlap.json");
+    await runClustering(serpData, clustersFile, overlapFile);
+
+    const clusters = JSON.parse(readFileSync(clustersFile, "utf-8"));
+    expect(clusters[0]).toMatchObject({
+      primary_keyword: "best crm",
+      cluster_keywords: ["best crm", "crm software"],
+      shared_urls: ["u1", "u2", "u3", "u4"],
+      shared_url_count: 4,
+    });
+    expect(clusters[0].keywords).toHaveLength(2);
+    expect(clusters[0]).not.toHaveProperty("shared_url_list");
+
+    expect(JSON.parse(readFileSync(overlapFile, "utf-8"))).toEqual([
+      {
+        keyword1: "crm software",
+        keyword2: "best crm",
+        shared_urls: ["u1", "u2", "u3", "u4"],
+        overlap_count: 4,
+        overlap_score: 0.8,
+      },
+    ]);
+  });
+
+  it("should write a workbook with a Clusters and a Pairs sheet", async () => {
+    const clustersFile = join(dir, "clusters.xlsx");
+    await runClustering(serpData, clustersFile);
+
+    const files = unzip(readFileSync(clustersFile));
+    expect(files.get("xl/workbook.xml")).toContain(
+      '<sheet name="Clusters" sheetId="1" r:id="rId1"/><sheet name="Pairs" sheetId="2" r:id="rId2"/>'
+    );
+    const clusters = files.get("xl/worksheets/sheet1.xml")!;
+    expect(clusters).toContain(
+      '<c r="A1" t="inlineStr"><is><t xml:space="preserve">cluster_id</t></is></c>'
+    );
+    expect(clusters).toContain('<c r="A2"><v>1</v></c>');
+    expect(clusters).toContain("crm | tips");
+    const pairs = files.get("xl/worksheets/sheet2.xml")!;
+    expect(pairs).toContain("u1, u2, u3, u4");
+    expect(pairs).toContain('<c r="E2"><v>0.8</v></c>');
+  });
+
+  it("should keep the strongest pairs in the Pairs sheet", async () => {
+    // 460 keywords sharing three URLs, of which two share two more
+    const data: Record<string, string[]> = { a: ["x1", "x2"], b: ["x1", "x2"] };
+    for (let i = 0; i < 458; i++) {
+      data[`kw ${i}`] = [];
+    }
+    for (const urls of Object.values(data)) {
+      urls.push("u1", "u2", "u3");
+    }
+    const clustersFile = join(dir, "capped.xlsx");
+    await runClustering(data, clustersFile);
+
+    const pairs = unzip(readFileSync(clustersFile)).get(
+      "xl/worksheets/sheet2.xml"
+    )!;
+    expect(pairs.match(/<row /g)).toHaveLength(MAX_WORKBOOK_PAIRS + 1);
+    expect(pairs).toMatch(/<row r="2">.*?>a<.*?>b<.*?<\/row>/);
+  });
+
+  it("should write a Markdown content brief per cluster", async () => {
+    const clustersFile = join(dir, "briefs.txt");
+    const result = await runClustering(serpData, clustersFile, undefined, {
+      outputFormat: "md",
+      site: { domain: "example.com" },
+    });
+
+    const brief = readFileSync(clustersFile, "utf-8");
+    expect(result.message).toContain(`Saving clusters to ${clustersFile} (md)`);
+    expect(brief).toMatch(/^# Content Briefs\n\n## 1\. best crm\n/);
+    expect(brief).toContain("- **Slug:** `/best-crm`");
+    expect(brief).toContain("- **Existing page:** none, needs a new page");
+    expect(brief).toContain("| crm software |  |  |  |  |");
+    expect(brief).toContain("### Shared URLs\n\n- u1\n- u2\n- u3\n- u4");
+    expect(brief).toContain("## 2. crm | tips");
+    expect(brief).toContain("| crm \\| tips |  |  |  |  |");
+  });
+
+  it("should reject Markdown for the overlap matrix before any work", async () => {
+    const overlapFile = join(dir, "overlap.md");
+    await expect(
+      runClustering(serpData, undefined, overlapFile)
+    ).rejects.toThrow(/overlap matrix cannot be written as md/);
+    expect(existsSync(overlapFile)).toBe(false);
+  });
+});